@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AcademicTermsService } from './academic-terms.service';
+import { CreateAcademicTermDto, UpdateAcademicTermDto } from './dto';
+import { TermStatus } from './entities/academic-term.entity';
+import { RequirePermissions } from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+
+@ApiTags('academic-terms')
+@ApiBearerAuth()
+@Controller('academic-terms')
+@UseGuards(AtGuard, PermissionsGuard)
+export class AcademicTermsController {
+  constructor(private readonly academicTermsService: AcademicTermsService) {}
+
+  // http://localhost:8000/academic-terms
+  @RequirePermissions(Permission.TERMS_CREATE)
+  @Post()
+  create(@Body() createAcademicTermDto: CreateAcademicTermDto) {
+    return this.academicTermsService.create(createAcademicTermDto);
+  }
+
+  // http://localhost:8000/academic-terms?status=open
+  @ApiQuery({ name: 'status', required: false, enum: TermStatus })
+  @RequirePermissions(Permission.TERMS_READ)
+  @Get()
+  findAll(
+    @Query('status', new ParseEnumPipe(TermStatus, { optional: true }))
+    status?: TermStatus,
+  ) {
+    return this.academicTermsService.findAll(status);
+  }
+
+  // http://localhost:8000/academic-terms/1
+  @RequirePermissions(Permission.TERMS_READ)
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.academicTermsService.findOne(id);
+  }
+
+  // http://localhost:8000/academic-terms/1
+  @RequirePermissions(Permission.TERMS_UPDATE)
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateAcademicTermDto: UpdateAcademicTermDto,
+  ) {
+    return this.academicTermsService.update(id, updateAcademicTermDto);
+  }
+
+  // http://localhost:8000/academic-terms/1
+  @RequirePermissions(Permission.TERMS_DELETE)
+  @Delete(':id')
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.academicTermsService.remove(id);
+  }
+}
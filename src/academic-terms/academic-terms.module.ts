@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { AcademicTerm } from './entities/academic-term.entity';
+import { AcademicTermsService } from './academic-terms.service';
+import { AcademicTermsController } from './academic-terms.controller';
+import { PermissionsGuard } from 'src/auth/guards';
+
+@Module({
+  imports: [DatabaseModule, TypeOrmModule.forFeature([AcademicTerm])],
+  controllers: [AcademicTermsController],
+  providers: [AcademicTermsService, PermissionsGuard],
+})
+export class AcademicTermsModule {}
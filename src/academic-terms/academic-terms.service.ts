@@ -0,0 +1,95 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AcademicTerm, TermStatus } from './entities/academic-term.entity';
+import { CreateAcademicTermDto, UpdateAcademicTermDto } from './dto';
+
+@Injectable()
+export class AcademicTermsService {
+  constructor(
+    @InjectRepository(AcademicTerm)
+    private termRepository: Repository<AcademicTerm>,
+  ) {}
+
+  // Helper method to check the term dates are in order
+  private assertValidDates(
+    term: Pick<AcademicTerm, 'startDate' | 'endDate' | 'addDropDeadline'>,
+  ) {
+    if (new Date(term.endDate) < new Date(term.startDate)) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    if (new Date(term.addDropDeadline) > new Date(term.endDate)) {
+      throw new BadRequestException(
+        'addDropDeadline must not be after endDate',
+      );
+    }
+  }
+
+  async create(
+    createAcademicTermDto: CreateAcademicTermDto,
+  ): Promise<AcademicTerm> {
+    this.assertValidDates(createAcademicTermDto);
+    if (
+      await this.termRepository.existsBy({ name: createAcademicTermDto.name })
+    ) {
+      throw new ConflictException(
+        `Term ${createAcademicTermDto.name} already exists`,
+      );
+    }
+    return this.termRepository.save(createAcademicTermDto);
+  }
+
+  async findAll(status?: TermStatus): Promise<AcademicTerm[]> {
+    return this.termRepository.find({
+      where: status ? { status } : {},
+      order: { startDate: 'DESC' },
+    });
+  }
+
+  async findOne(id: number): Promise<AcademicTerm> {
+    const term = await this.termRepository.findOne({
+      where: { id },
+      relations: ['offerings', 'offerings.course'],
+    });
+    if (!term) {
+      throw new NotFoundException(`Term with ID ${id} not found`);
+    }
+    return term;
+  }
+
+  async update(
+    id: number,
+    updateAcademicTermDto: UpdateAcademicTermDto,
+  ): Promise<AcademicTerm> {
+    const term = await this.termRepository.findOneBy({ id });
+    if (!term) {
+      throw new NotFoundException(`Term with ID ${id} not found`);
+    }
+    this.assertValidDates({ ...term, ...updateAcademicTermDto });
+    await this.termRepository.update(id, updateAcademicTermDto);
+    return this.findOne(id);
+  }
+
+  async remove(id: number): Promise<string> {
+    const hasOfferings = await this.termRepository
+      .createQueryBuilder('term')
+      .innerJoin('term.offerings', 'offering')
+      .where('term.id = :id', { id })
+      .getExists();
+    if (hasOfferings) {
+      throw new ConflictException(
+        `Term with ID ${id} has course offerings, archive it instead`,
+      );
+    }
+    const result = await this.termRepository.delete(id);
+    if (result.affected === 0) {
+      throw new NotFoundException(`Term with ID ${id} not found`);
+    }
+    return `Term with id ${id} has been removed`;
+  }
+}
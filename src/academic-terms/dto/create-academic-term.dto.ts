@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { TermStatus } from '../entities/academic-term.entity';
+
+export class CreateAcademicTermDto {
+  @ApiProperty({
+    description: 'The name of the term',
+    example: 'Fall 2025',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'The first day of the term',
+    example: '2025-09-01',
+    type: String,
+    format: 'date',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({
+    description: 'The last day of the term',
+    example: '2025-12-19',
+    type: String,
+    format: 'date',
+  })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({
+    description:
+      'The last day students can enroll in or drop a course offering',
+    example: '2025-09-15',
+    type: String,
+    format: 'date',
+  })
+  @IsDateString()
+  addDropDeadline: string;
+
+  @ApiProperty({
+    description: 'The status of the term',
+    enum: TermStatus,
+    example: TermStatus.PLANNED,
+    default: TermStatus.PLANNED,
+    required: false,
+  })
+  @IsEnum(TermStatus)
+  @IsOptional()
+  status?: TermStatus;
+}
@@ -0,0 +1,2 @@
+export * from './create-academic-term.dto';
+export * from './update-academic-term.dto';
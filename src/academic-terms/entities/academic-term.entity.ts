@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  OneToMany,
+  Index,
+  Relation,
+} from 'typeorm';
+import { CourseOffering } from '../../course-offerings/entities/course-offering.entity';
+
+export enum TermStatus {
+  PLANNED = 'planned', // being prepared, not open for enrollment yet
+  OPEN = 'open', // students can enroll until the add/drop deadline
+  CLOSED = 'closed', // running or finished, enrollments are frozen
+  ARCHIVED = 'archived',
+}
+
+@Entity()
+export class AcademicTerm {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column()
+  name: string; // e.g. "Fall 2025"
+
+  @Column('date')
+  startDate: string;
+
+  @Column('date')
+  endDate: string;
+
+  @Column('date')
+  addDropDeadline: string; // last day students can enroll in or drop an offering
+
+  @Column({ type: 'enum', enum: TermStatus, default: TermStatus.PLANNED })
+  status: TermStatus;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @OneToMany(() => CourseOffering, (offering) => offering.term)
+  offerings: Relation<CourseOffering[]>;
+}
@@ -7,14 +7,27 @@ import { DatabaseModule } from './database/database.module';
 import { DepartmentsModule } from './departments/departments.module';
 import { CoursesModule } from './courses/courses.module';
 import { LogsModule } from './my-logs/logs.module';
-import { CacheInterceptor, CacheModule } from '@nestjs/cache-manager';
+import { CacheModule } from '@nestjs/cache-manager';
 import { createKeyv, Keyv } from '@keyv/redis';
 import { CacheableMemory } from 'cacheable';
 import { LecturerModule } from './lecturer/lecturer.module';
 import { AuthModule } from './auth/auth.module';
+import { InvitationsModule } from './invitations/invitations.module';
+import { PermissionsModule } from './permissions/permissions.module';
+import { OAuthModule } from './oauth/oauth.module';
+import { AuditModule } from './audit/audit.module';
+import { AcademicTermsModule } from './academic-terms/academic-terms.module';
+import { CourseOfferingsModule } from './course-offerings/course-offerings.module';
+import { GradesModule } from './grades/grades.module';
+import { TranscriptsModule } from './transcripts/transcripts.module';
+import { RoomsModule } from './rooms/rooms.module';
+import { TimetableModule } from './timetable/timetable.module';
+import { CalendarModule } from './calendar/calendar.module';
+import { AttendanceModule } from './attendance/attendance.module';
 import { APP_GUARD } from '@nestjs/core';
-import { AtGuard } from './auth/guards';
+import { AtGuard, CsrfGuard, ImpersonationGuard } from './auth/guards';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
+import { HttpCacheInterceptor } from './http-cache.interceptor';
 
 @Module({
   imports: [
@@ -47,6 +60,18 @@ import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
       },
     }),
     AuthModule,
+    InvitationsModule,
+    PermissionsModule,
+    OAuthModule,
+    AuditModule,
+    AcademicTermsModule,
+    CourseOfferingsModule,
+    GradesModule,
+    TranscriptsModule,
+    RoomsModule,
+    TimetableModule,
+    CalendarModule,
+    AttendanceModule,
     ThrottlerModule.forRootAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
@@ -63,12 +88,20 @@ import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
   providers: [
     {
       provide: 'APP_INTERCEPTOR',
-      useClass: CacheInterceptor, // Global cache interceptor to cache responses
+      useClass: HttpCacheInterceptor, // Global cache interceptor to cache responses (skips @NoCache() routes)
     },
     {
       provide: APP_GUARD,
       useClass: AtGuard, // Global guard to protect routes
     },
+    {
+      provide: APP_GUARD,
+      useClass: ImpersonationGuard, // Blocks and audits requests made with impersonation tokens (runs after AtGuard)
+    },
+    {
+      provide: APP_GUARD,
+      useClass: CsrfGuard, // Double-submit CSRF check for requests authenticated with auth cookies
+    },
     {
       provide: APP_GUARD,
       useClass: ThrottlerGuard, // Global throttler guard to limit requests
@@ -79,6 +112,19 @@ export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
       .apply(LoggerMiddleware)
-      .forRoutes('students', 'profiles', 'courses', 'lectures', 'departments');
+      .forRoutes(
+        'students',
+        'profiles',
+        'courses',
+        'lectures',
+        'departments',
+        'academic-terms',
+        'course-offerings',
+        'grades',
+        'transcripts',
+        'rooms',
+        'calendar',
+        'attendance',
+      );
   }
 }
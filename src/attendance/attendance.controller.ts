@@ -0,0 +1,174 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseFloatPipe,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AttendanceService } from './attendance.service';
+import { CheckInDto, CreateClassSessionDto, MarkAttendanceDto } from './dto';
+import {
+  BlockWhileImpersonating,
+  CheckPolicies,
+  GetCurrentUserId,
+  RequirePermissions,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard, PoliciesGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import {
+  StudentAccessPolicy,
+  TaughtOfferingPolicy,
+} from 'src/permissions/policies';
+import { NoCache } from 'src/http-cache.interceptor';
+
+@ApiTags('attendance')
+@ApiBearerAuth()
+@NoCache() // attendance changes with every check-in
+@Controller('attendance')
+@UseGuards(AtGuard, PermissionsGuard, PoliciesGuard)
+export class AttendanceController {
+  constructor(private readonly attendanceService: AttendanceService) {}
+
+  // http://localhost:8000/attendance/check-in (the student submits the code shown in class)
+  @RequirePermissions(Permission.ATTENDANCE_CHECK_IN)
+  @BlockWhileImpersonating() // attendance is reported for funding, only the student can check in
+  @HttpCode(HttpStatus.OK)
+  @Post('check-in')
+  checkIn(@GetCurrentUserId() userId: number, @Body() checkInDto: CheckInDto) {
+    return this.attendanceService.checkIn(userId, checkInDto.code);
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Post('offerings/:offeringId/sessions')
+  createSession(
+    @GetCurrentUserId() actorId: number,
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Body() createClassSessionDto: CreateClassSessionDto,
+  ) {
+    return this.attendanceService.createSession(
+      offeringId,
+      createClassSessionDto,
+      actorId,
+    );
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Get('offerings/:offeringId/sessions')
+  getSessions(@Param('offeringId', ParseIntPipe) offeringId: number) {
+    return this.attendanceService.getSessions(offeringId);
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions/2
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Get('offerings/:offeringId/sessions/:sessionId')
+  getSession(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+  ) {
+    return this.attendanceService.getSession(offeringId, sessionId);
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions/2
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Delete('offerings/:offeringId/sessions/:sessionId')
+  removeSession(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+  ) {
+    return this.attendanceService.removeSession(offeringId, sessionId);
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions/2/open (returns the first check-in code)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @HttpCode(HttpStatus.OK)
+  @Post('offerings/:offeringId/sessions/:sessionId/open')
+  openSession(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+  ) {
+    return this.attendanceService.openSession(offeringId, sessionId);
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions/2/code (poll it to show the rotating code)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Get('offerings/:offeringId/sessions/:sessionId/code')
+  getCheckInCode(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+  ) {
+    return this.attendanceService.getCheckInCode(offeringId, sessionId);
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions/2/close (students without a record are marked absent)
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @HttpCode(HttpStatus.OK)
+  @Post('offerings/:offeringId/sessions/:sessionId/close')
+  closeSession(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+  ) {
+    return this.attendanceService.closeSession(offeringId, sessionId);
+  }
+
+  // http://localhost:8000/attendance/offerings/1/sessions/2/records
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Put('offerings/:offeringId/sessions/:sessionId/records')
+  markAttendance(
+    @GetCurrentUserId() actorId: number,
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @Body() markAttendanceDto: MarkAttendanceDto,
+  ) {
+    return this.attendanceService.markAttendance(
+      offeringId,
+      sessionId,
+      markAttendanceDto,
+      actorId,
+    );
+  }
+
+  // http://localhost:8000/attendance/offerings/1/report?threshold=80
+  @ApiQuery({ name: 'threshold', required: false, type: Number })
+  @RequirePermissions(Permission.ATTENDANCE_MANAGE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Get('offerings/:offeringId/report')
+  getOfferingReport(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Query('threshold', new ParseFloatPipe({ optional: true }))
+    threshold?: number,
+  ) {
+    return this.attendanceService.getOfferingReport(offeringId, threshold);
+  }
+
+  // http://localhost:8000/attendance/students/1?threshold=80
+  @ApiQuery({ name: 'threshold', required: false, type: Number })
+  @RequirePermissions(Permission.STUDENTS_READ)
+  @CheckPolicies(StudentAccessPolicy)
+  @Get('students/:id')
+  getStudentReport(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('threshold', new ParseFloatPipe({ optional: true }))
+    threshold?: number,
+  ) {
+    return this.attendanceService.getStudentReport(id, threshold);
+  }
+}
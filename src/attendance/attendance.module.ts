@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { ClassSession } from './entities/class-session.entity';
+import { AttendanceRecord } from './entities/attendance-record.entity';
+import { AttendanceService } from './attendance.service';
+import { AttendanceController } from './attendance.controller';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { Enrollment } from 'src/enrollments/entities/enrollment.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { MeetingTime } from 'src/timetable/entities/meeting-time.entity';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([
+      ClassSession,
+      AttendanceRecord,
+      CourseOffering,
+      Enrollment,
+      Student,
+      MeetingTime,
+    ]),
+  ],
+  controllers: [AttendanceController],
+  providers: [AttendanceService],
+})
+export class AttendanceModule {}
@@ -0,0 +1,462 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import * as ms from 'ms';
+import { ClassSession } from './entities/class-session.entity';
+import {
+  AttendanceRecord,
+  AttendanceStatus,
+} from './entities/attendance-record.entity';
+import { CreateClassSessionDto, MarkAttendanceDto } from './dto';
+import {
+  AttendanceSummary,
+  summarizeAttendance,
+} from './utils/attendance-summary.util';
+import {
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+  verifyTotp,
+} from 'src/auth/utils/totp.util';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import {
+  Enrollment,
+  EnrollmentStatus,
+} from 'src/enrollments/entities/enrollment.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { MeetingTime } from 'src/timetable/entities/meeting-time.entity';
+
+export type OfferingAttendanceReport = {
+  offeringId: number;
+  threshold: number;
+  sessions: number; // closed sessions
+  students: ({
+    studentId: number;
+    firstName: string;
+    lastName: string;
+  } & AttendanceSummary)[];
+};
+
+export type StudentAttendanceReport = {
+  studentId: number;
+  threshold: number;
+  offerings: ({
+    offeringId: number;
+    course: { id: number; title: string };
+    term: { id: number; name: string };
+  } & AttendanceSummary)[];
+  overall: AttendanceSummary;
+};
+
+// Enrollments whose students are on the attendance list (completed ones keep their records)
+const ATTENDING_STATUSES = [
+  EnrollmentStatus.ENROLLED,
+  EnrollmentStatus.COMPLETED,
+];
+
+/*
+- Purpose: Attendance of enrolled students at the class sessions of course offerings
+- How it works: Lecturers create a session per class and open it, which generates a TOTP secret (see totp.util).
+  The lecturer shows the current 6 digit code, which rotates every ATTENDANCE_CODE_ROTATION, and students submit
+  it to check in; the previous code is still accepted so a code that just rotated works. Check-ins later than
+  ATTENDANCE_LATE_AFTER after opening count as late. Closing the session marks enrolled students without a
+  record absent. Lecturers can also mark (or correct) records in bulk.
+- Reports: The attendance percentage is present + late out of present + late + absent (excused sessions do not
+  count). Students below ATTENDANCE_AT_RISK_THRESHOLD percent (or the threshold of the request) are at risk.
+*/
+@Injectable()
+export class AttendanceService {
+  constructor(
+    @InjectRepository(ClassSession)
+    private sessionRepository: Repository<ClassSession>,
+    @InjectRepository(AttendanceRecord)
+    private recordRepository: Repository<AttendanceRecord>,
+    @InjectRepository(CourseOffering)
+    private offeringRepository: Repository<CourseOffering>,
+    @InjectRepository(Enrollment)
+    private enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(Student) private studentRepository: Repository<Student>,
+    @InjectRepository(MeetingTime)
+    private meetingRepository: Repository<MeetingTime>,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to read a duration setting in milliseconds
+  private duration(key: string, defaultValue: ms.StringValue): number {
+    return ms(this.configService.get<ms.StringValue>(key, defaultValue));
+  }
+
+  // Helper method to get the seconds each check-in code is shown for
+  private codeStep(): number {
+    return Math.max(
+      Math.round(this.duration('ATTENDANCE_CODE_ROTATION', '30s') / 1000),
+      1,
+    );
+  }
+
+  // Helper method to resolve the at-risk threshold (percent) of a report
+  private threshold(threshold?: number): number {
+    const value =
+      threshold ??
+      Number(
+        this.configService.get<string>('ATTENDANCE_AT_RISK_THRESHOLD', '75'),
+      );
+    if (Number.isNaN(value) || value < 0 || value > 100) {
+      throw new BadRequestException(
+        'The at-risk threshold must be a percentage between 0 and 100',
+      );
+    }
+    return value;
+  }
+
+  // Helper method to fail when the offering does not exist
+  private async findOffering(offeringId: number): Promise<CourseOffering> {
+    const offering = await this.offeringRepository.findOne({
+      where: { id: offeringId },
+      relations: ['term'],
+    });
+    if (!offering) {
+      throw new NotFoundException(
+        `Course offering with ID ${offeringId} not found`,
+      );
+    }
+    return offering;
+  }
+
+  // Helper method to load a session of an offering (with its check-in secret when asked for)
+  private async findSession(
+    offeringId: number,
+    sessionId: number,
+    withSecret = false,
+  ): Promise<ClassSession> {
+    const query = this.sessionRepository
+      .createQueryBuilder('session')
+      .where('session.id = :sessionId', { sessionId })
+      .andWhere('session.offeringId = :offeringId', { offeringId });
+    if (withSecret) {
+      query.addSelect('session.checkInSecret');
+    }
+    const session = await query.getOne();
+    if (!session) {
+      throw new NotFoundException(
+        `Class session with ID ${sessionId} not found in course offering ${offeringId}`,
+      );
+    }
+    return session;
+  }
+
+  // Helper method to list the ids of the students on the offering's attendance list
+  private async findAttendingStudentIds(offeringId: number): Promise<number[]> {
+    const enrollments = await this.enrollmentRepository.find({
+      where: { offeringId, status: In(ATTENDING_STATUSES) },
+    });
+    return enrollments.map((enrollment) => enrollment.studentId);
+  }
+
+  // Helper method to describe the current check-in code of an open session
+  private currentCode(secret: string) {
+    const step = this.codeStep();
+    return {
+      code: generateTotp(secret, Date.now(), { step }),
+      expiresAt: new Date((getTimeStep(Date.now(), step) + 1) * step * 1000),
+    };
+  }
+
+  async createSession(
+    offeringId: number,
+    createClassSessionDto: CreateClassSessionDto,
+    actorId: number,
+  ): Promise<ClassSession> {
+    const offering = await this.findOffering(offeringId);
+    const date =
+      createClassSessionDto.date ?? new Date().toISOString().slice(0, 10);
+    const startDate = offering.startDate ?? offering.term.startDate;
+    const endDate = offering.endDate ?? offering.term.endDate;
+    if (date < startDate || date > endDate) {
+      throw new BadRequestException(
+        `The session date must lie within the offering (${startDate} - ${endDate})`,
+      );
+    }
+    if (
+      createClassSessionDto.meetingTimeId &&
+      !(await this.meetingRepository.existsBy({
+        id: createClassSessionDto.meetingTimeId,
+        offeringId,
+      }))
+    ) {
+      throw new NotFoundException(
+        `Meeting time with ID ${createClassSessionDto.meetingTimeId} not found in course offering ${offeringId}`,
+      );
+    }
+    const saved = await this.sessionRepository.save({
+      offeringId,
+      date,
+      meetingTimeId: createClassSessionDto.meetingTimeId ?? null,
+      createdById: actorId,
+    });
+    return this.getSession(offeringId, saved.id);
+  }
+
+  async getSessions(offeringId: number): Promise<ClassSession[]> {
+    await this.findOffering(offeringId);
+    return this.sessionRepository.find({
+      where: { offeringId },
+      relations: ['meetingTime', 'records'],
+      order: { date: 'DESC', id: 'DESC' },
+    });
+  }
+
+  // A session with its attendance records
+  async getSession(
+    offeringId: number,
+    sessionId: number,
+  ): Promise<ClassSession> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, offeringId },
+      relations: ['meetingTime', 'records', 'records.student'],
+      order: { records: { studentId: 'ASC' } },
+    });
+    if (!session) {
+      throw new NotFoundException(
+        `Class session with ID ${sessionId} not found in course offering ${offeringId}`,
+      );
+    }
+    return session;
+  }
+
+  async removeSession(offeringId: number, sessionId: number): Promise<string> {
+    const result = await this.sessionRepository.delete({
+      id: sessionId,
+      offeringId,
+    });
+    if (result.affected === 0) {
+      throw new NotFoundException(
+        `Class session with ID ${sessionId} not found in course offering ${offeringId}`,
+      );
+    }
+    return `Class session with id ${sessionId} has been removed`;
+  }
+
+  // Open check-in with a new secret (reopening a closed session invalidates its old codes)
+  async openSession(offeringId: number, sessionId: number) {
+    await this.findSession(offeringId, sessionId);
+    const checkInSecret = generateTotpSecret();
+    await this.sessionRepository.update(sessionId, {
+      openedAt: new Date(),
+      closedAt: null,
+      checkInSecret,
+    });
+    return { sessionId, ...this.currentCode(checkInSecret) };
+  }
+
+  // The code to show to the class right now
+  async getCheckInCode(offeringId: number, sessionId: number) {
+    const session = await this.findSession(offeringId, sessionId, true);
+    if (!session.openedAt || session.closedAt || !session.checkInSecret) {
+      throw new ConflictException(
+        `Class session ${sessionId} is not open for check-in`,
+      );
+    }
+    return { sessionId, ...this.currentCode(session.checkInSecret) };
+  }
+
+  // Close check-in and mark students without a record absent
+  async closeSession(
+    offeringId: number,
+    sessionId: number,
+  ): Promise<ClassSession> {
+    await this.findSession(offeringId, sessionId);
+    const studentIds = await this.findAttendingStudentIds(offeringId);
+    await this.sessionRepository.manager.transaction(async (manager) => {
+      await manager.update(ClassSession, sessionId, {
+        closedAt: new Date(),
+        checkInSecret: null,
+      });
+      const recorded = await manager.findBy(AttendanceRecord, { sessionId });
+      const recordedIds = new Set(recorded.map((record) => record.studentId));
+      await manager.save(
+        AttendanceRecord,
+        studentIds
+          .filter((studentId) => !recordedIds.has(studentId))
+          .map((studentId) => ({
+            sessionId,
+            studentId,
+            status: AttendanceStatus.ABSENT,
+            note: 'No check-in',
+          })),
+      );
+    });
+    return this.getSession(offeringId, sessionId);
+  }
+
+  // Check the calling student in to the open session of their courses whose current code matches
+  async checkIn(profileId: number, code: string): Promise<AttendanceRecord> {
+    const student = await this.studentRepository.findOneBy({
+      profile: { id: profileId },
+    });
+    if (!student) {
+      throw new NotFoundException('Only students can check in');
+    }
+    const openSessions = await this.sessionRepository
+      .createQueryBuilder('session')
+      .addSelect('session.checkInSecret')
+      .innerJoin(
+        Enrollment,
+        'enrollment',
+        'enrollment.offeringId = session.offeringId',
+      )
+      .where('enrollment.studentId = :studentId', { studentId: student.id })
+      .andWhere('enrollment.status = :status', {
+        status: EnrollmentStatus.ENROLLED,
+      })
+      .andWhere('session.openedAt IS NOT NULL')
+      .andWhere('session.closedAt IS NULL')
+      .getMany();
+    const step = this.codeStep();
+    const session = openSessions.find(
+      ({ checkInSecret }) =>
+        checkInSecret && verifyTotp(checkInSecret, code, 1, { step }) !== null,
+    );
+    if (!session?.openedAt) {
+      throw new BadRequestException('Invalid or expired check-in code');
+    }
+
+    // a record marked by the lecturer (or an earlier check-in) is kept
+    const existing = await this.recordRepository.findOneBy({
+      sessionId: session.id,
+      studentId: student.id,
+    });
+    if (existing) {
+      return existing;
+    }
+    const now = new Date();
+    const lateAfter = this.duration('ATTENDANCE_LATE_AFTER', '10m');
+    return this.recordRepository.save({
+      sessionId: session.id,
+      studentId: student.id,
+      status:
+        now.getTime() - session.openedAt.getTime() > lateAfter
+          ? AttendanceStatus.LATE
+          : AttendanceStatus.PRESENT,
+      checkedInAt: now,
+      note: null,
+    });
+  }
+
+  // Mark (or correct) the attendance of several students at once
+  async markAttendance(
+    offeringId: number,
+    sessionId: number,
+    markAttendanceDto: MarkAttendanceDto,
+    actorId: number,
+  ): Promise<ClassSession> {
+    await this.findSession(offeringId, sessionId);
+    const attending = new Set(await this.findAttendingStudentIds(offeringId));
+    const notEnrolled = markAttendanceDto.records
+      .map((record) => record.studentId)
+      .filter((studentId) => !attending.has(studentId));
+    if (notEnrolled.length) {
+      throw new BadRequestException(
+        `Students with IDs ${notEnrolled.join(', ')} are not enrolled in course offering ${offeringId}`,
+      );
+    }
+    await this.recordRepository.upsert(
+      markAttendanceDto.records.map((record) => ({
+        sessionId,
+        studentId: record.studentId,
+        status: record.status,
+        note: record.note ?? null,
+        markedById: actorId,
+      })),
+      ['sessionId', 'studentId'],
+    );
+    return this.getSession(offeringId, sessionId);
+  }
+
+  // Attendance percentage of every student on the offering's list, at-risk students flagged
+  async getOfferingReport(
+    offeringId: number,
+    threshold?: number,
+  ): Promise<OfferingAttendanceReport> {
+    const atRiskThreshold = this.threshold(threshold);
+    await this.findOffering(offeringId);
+    const enrollments = await this.enrollmentRepository.find({
+      where: { offeringId, status: In(ATTENDING_STATUSES) },
+      relations: ['student', 'student.profile'],
+      order: { studentId: 'ASC' },
+    });
+    const records = await this.recordRepository.find({
+      where: { session: { offeringId } },
+    });
+    return {
+      offeringId,
+      threshold: atRiskThreshold,
+      sessions: await this.sessionRepository.countBy({
+        offeringId,
+        closedAt: Not(IsNull()),
+      }),
+      students: enrollments.map(({ student }) => ({
+        studentId: student.id,
+        firstName: student.profile.firstName,
+        lastName: student.profile.lastName,
+        ...summarizeAttendance(
+          records
+            .filter((record) => record.studentId === student.id)
+            .map((record) => record.status),
+          atRiskThreshold,
+        ),
+      })),
+    };
+  }
+
+  // Attendance percentage of a student per offering and overall
+  async getStudentReport(
+    studentId: number,
+    threshold?: number,
+  ): Promise<StudentAttendanceReport> {
+    const atRiskThreshold = this.threshold(threshold);
+    if (!(await this.studentRepository.existsBy({ id: studentId }))) {
+      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    }
+    const enrollments = await this.enrollmentRepository.find({
+      where: { studentId, status: In(ATTENDING_STATUSES) },
+      relations: ['offering', 'offering.course', 'offering.term'],
+      order: { offering: { term: { startDate: 'DESC' } } },
+    });
+    // records of offerings the student dropped do not count
+    const offeringIds = new Set(
+      enrollments.map(({ offeringId }) => offeringId),
+    );
+    const records = (
+      await this.recordRepository.find({
+        where: { studentId },
+        relations: ['session'],
+      })
+    ).filter((record) => offeringIds.has(record.session.offeringId));
+    return {
+      studentId,
+      threshold: atRiskThreshold,
+      offerings: enrollments.map(({ offering }) => ({
+        offeringId: offering.id,
+        course: { id: offering.course.id, title: offering.course.title },
+        term: { id: offering.term.id, name: offering.term.name },
+        ...summarizeAttendance(
+          records
+            .filter((record) => record.session.offeringId === offering.id)
+            .map((record) => record.status),
+          atRiskThreshold,
+        ),
+      })),
+      overall: summarizeAttendance(
+        records.map((record) => record.status),
+        atRiskThreshold,
+      ),
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Matches } from 'class-validator';
+
+export class CheckInDto {
+  @ApiProperty({
+    description: 'The check-in code shown by the lecturer',
+    example: '492039',
+  })
+  @Matches(/^\d{6}$/, { message: 'code must be a 6 digit code' })
+  code: string;
+}
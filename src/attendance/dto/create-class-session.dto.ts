@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional } from 'class-validator';
+
+export class CreateClassSessionDto {
+  @ApiProperty({
+    description: 'The day of the class, defaults to today',
+    example: '2025-09-08',
+    type: String,
+    format: 'date',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+
+  @ApiProperty({
+    description: "The ID of the offering's meeting time the class belongs to",
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  meetingTimeId?: number;
+}
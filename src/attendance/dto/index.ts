@@ -0,0 +1,3 @@
+export * from './create-class-session.dto';
+export * from './check-in.dto';
+export * from './mark-attendance.dto';
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { AttendanceStatus } from '../entities/attendance-record.entity';
+
+export class AttendanceMarkDto {
+  @ApiProperty({ description: 'The ID of the student', example: 1 })
+  @IsInt()
+  studentId: number;
+
+  @ApiProperty({
+    description: 'The attendance status',
+    enum: AttendanceStatus,
+    example: AttendanceStatus.PRESENT,
+  })
+  @IsEnum(AttendanceStatus)
+  status: AttendanceStatus;
+
+  @ApiProperty({
+    description: 'A note, e.g. why the absence is excused',
+    example: 'Medical certificate',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
+
+export class MarkAttendanceDto {
+  @ApiProperty({
+    description: 'The students to mark, existing records are overwritten',
+    type: [AttendanceMarkDto],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique((mark: AttendanceMarkDto) => mark.studentId)
+  @ValidateNested({ each: true })
+  @Type(() => AttendanceMarkDto)
+  records: AttendanceMarkDto[];
+}
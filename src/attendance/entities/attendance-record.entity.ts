@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { ClassSession } from './class-session.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+export enum AttendanceStatus {
+  PRESENT = 'present',
+  LATE = 'late',
+  ABSENT = 'absent',
+  EXCUSED = 'excused', // not counted in the attendance percentage
+}
+
+// A student's attendance at a class session
+@Entity()
+@Index(['sessionId', 'studentId'], { unique: true })
+export class AttendanceRecord {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: AttendanceStatus })
+  status: AttendanceStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  checkedInAt: Date | null; // set when the student checked in with a code
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @Column()
+  sessionId: number;
+
+  @ManyToOne(() => ClassSession, (session) => session.records, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'sessionId' })
+  session: Relation<ClassSession>;
+
+  @Column()
+  studentId: number;
+
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentId' })
+  student: Relation<Student>;
+
+  // Who marked the record by hand (null for check-ins and automatic absences)
+  @Column({ type: 'int', nullable: true })
+  markedById: number | null;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'markedById' })
+  markedBy: Relation<Profile>;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Relation,
+} from 'typeorm';
+import { CourseOffering } from '../../course-offerings/entities/course-offering.entity';
+import { MeetingTime } from '../../timetable/entities/meeting-time.entity';
+import { Profile } from '../../profiles/entities/profile.entity';
+import { AttendanceRecord } from './attendance-record.entity';
+
+// One class of a course offering that attendance is taken for
+@Entity()
+export class ClassSession {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('date')
+  date: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  openedAt: Date | null; // check-in opened (late check-ins count from here)
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null; // check-in closed, students without a record were marked absent
+
+  @Column({ type: 'text', nullable: true, select: false })
+  checkInSecret: string | null; // base32 TOTP secret the rotating check-in codes are derived from
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column()
+  offeringId: number;
+
+  @ManyToOne(() => CourseOffering, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'offeringId' })
+  offering: Relation<CourseOffering>;
+
+  // The timetable slot the session belongs to, if any
+  @Column({ type: 'int', nullable: true })
+  meetingTimeId: number | null;
+
+  @ManyToOne(() => MeetingTime, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'meetingTimeId' })
+  meetingTime: Relation<MeetingTime> | null;
+
+  @Column({ type: 'int', nullable: true })
+  createdById: number | null;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'createdById' })
+  createdBy: Relation<Profile>;
+
+  @OneToMany(() => AttendanceRecord, (record) => record.session)
+  records: Relation<AttendanceRecord[]>;
+}
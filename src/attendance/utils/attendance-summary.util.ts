@@ -0,0 +1,36 @@
+import { AttendanceStatus } from '../entities/attendance-record.entity';
+
+export type AttendanceSummary = {
+  sessions: number; // sessions with a record
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  percentage: number | null; // present or late out of the sessions that were not excused
+  atRisk: boolean; // percentage below the threshold
+};
+
+// Count attendance records and flag the attendance as at risk below `threshold` percent
+export function summarizeAttendance(
+  statuses: AttendanceStatus[],
+  threshold: number,
+): AttendanceSummary {
+  const count = (status: AttendanceStatus) =>
+    statuses.filter((candidate) => candidate === status).length;
+  const present = count(AttendanceStatus.PRESENT);
+  const late = count(AttendanceStatus.LATE);
+  const absent = count(AttendanceStatus.ABSENT);
+  const counted = present + late + absent;
+  const percentage = counted
+    ? Math.round(((present + late) / counted) * 1000) / 10
+    : null;
+  return {
+    sessions: statuses.length,
+    present,
+    late,
+    absent,
+    excused: count(AttendanceStatus.EXCUSED),
+    percentage,
+    atRisk: percentage !== null && percentage < threshold,
+  };
+}
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Get,
+  ParseBoolPipe,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AuditService } from './audit.service';
+import { RequirePermissions } from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import { NoCache } from 'src/http-cache.interceptor';
+
+@ApiTags('audit')
+@ApiBearerAuth()
+@NoCache()
+@Controller('audit-logs')
+@UseGuards(AtGuard, PermissionsGuard)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  // http://localhost:8000/audit-logs?actorId=1&flagged=true
+  @ApiQuery({ name: 'actorId', required: false, type: Number })
+  @ApiQuery({ name: 'subjectId', required: false, type: Number })
+  @ApiQuery({ name: 'flagged', required: false, type: Boolean })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @RequirePermissions(Permission.AUDIT_LOGS_READ)
+  @Get()
+  findAll(
+    @Query('actorId', new ParseIntPipe({ optional: true })) actorId?: number,
+    @Query('subjectId', new ParseIntPipe({ optional: true }))
+    subjectId?: number,
+    @Query('flagged', new ParseBoolPipe({ optional: true })) flagged?: boolean,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    return this.auditService.findAll({ actorId, subjectId, flagged, limit });
+  }
+}
@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { AuditLog } from './entities/audit-log.entity';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+
+// Global so any module can write to the audit log
+@Global()
+@Module({
+  imports: [DatabaseModule, TypeOrmModule.forFeature([AuditLog])],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { AuditLog } from './entities/audit-log.entity';
+
+export type AuditLogEntry = Omit<Partial<AuditLog>, 'id' | 'createdAt'> &
+  Pick<AuditLog, 'event'>;
+
+export type AuditLogFilters = {
+  actorId?: number;
+  subjectId?: number;
+  flagged?: boolean;
+  limit?: number;
+};
+
+@Injectable()
+export class AuditService {
+  constructor(
+    @InjectRepository(AuditLog)
+    private auditLogRepository: Repository<AuditLog>,
+  ) {}
+
+  async record(entry: AuditLogEntry): Promise<void> {
+    await this.auditLogRepository.save(entry);
+  }
+
+  // Method to query the audit log, newest first
+  async findAll(filters: AuditLogFilters): Promise<AuditLog[]> {
+    const where: FindOptionsWhere<AuditLog> = {};
+    if (filters.actorId) where.actorId = filters.actorId;
+    if (filters.subjectId) where.subjectId = filters.subjectId;
+    if (filters.flagged !== undefined) where.flagged = filters.flagged;
+
+    return this.auditLogRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: Math.min(filters.limit ?? 100, 500),
+    });
+  }
+}
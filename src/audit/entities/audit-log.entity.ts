@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+export type AuditEvent =
+  | 'impersonation-start'
+  | 'impersonation-stop'
+  | 'impersonated-request';
+
+@Entity()
+export class AuditLog {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ type: 'varchar' })
+  event: AuditEvent;
+
+  @Index()
+  @Column({ type: 'int', nullable: true })
+  actorId: number | null; // the admin acting
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'actorId' })
+  actor: Relation<Profile>;
+
+  @Index()
+  @Column({ type: 'int', nullable: true })
+  subjectId: number | null; // the profile being impersonated
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'subjectId' })
+  subject: Relation<Profile>;
+
+  @Column({ type: 'varchar', nullable: true })
+  method: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  path: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  statusCode: number | null;
+
+  @Column({ default: false })
+  flagged: boolean; // a state-changing request made while impersonating
+
+  @Column({ default: false })
+  blocked: boolean; // refused because it is not allowed while impersonating
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null; // given by the admin when impersonation starts
+
+  @Column({ nullable: true })
+  ipAddress: string;
+
+  @Column({ type: 'text', nullable: true })
+  userAgent: string | null;
+
+  @Index()
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+}
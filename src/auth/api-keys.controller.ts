@@ -0,0 +1,48 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { GetCurrentUserId, RequirePermissions } from './decorators';
+import { AtGuard, PermissionsGuard } from './guards';
+import { Permission } from 'src/permissions/permission.enum';
+import { NoCache } from 'src/http-cache.interceptor';
+
+@ApiTags('auth')
+@ApiBearerAuth()
+@NoCache() // last-used and revocation state must be read fresh
+@Controller('auth/api-keys')
+@UseGuards(AtGuard, PermissionsGuard)
+@RequirePermissions(Permission.API_KEYS_MANAGE)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  // /auth/api-keys (the key is only returned by this call)
+  @Post()
+  create(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @GetCurrentUserId() userId: number,
+  ) {
+    return this.apiKeysService.create(createApiKeyDto, userId);
+  }
+
+  // /auth/api-keys
+  @Get()
+  findAll() {
+    return this.apiKeysService.findAll();
+  }
+
+  // /auth/api-keys/:id
+  @Delete(':id')
+  revoke(@Param('id', ParseUUIDPipe) id: string) {
+    return this.apiKeysService.revoke(id);
+  }
+}
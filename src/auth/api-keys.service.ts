@@ -0,0 +1,105 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { JWTPayload } from './strategies/at.strategy';
+
+const API_KEY_PREFIX = 'uak_';
+// lastUsedAt is written at most this often per key, so busy integrations do not cause a write per request
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000;
+// `sub` of API-key principals. Profile ids start at 1, so it never matches a profile
+export const API_KEY_SUBJECT = 0;
+
+/*
+- Purpose: Long-lived credentials for service-to-service integrations (timetabling, LMS sync scripts)
+- How it works: Admins create named keys with a role, an optional narrower permission scope and an expiry.
+  Only a sha256 hash of the key is stored; the key itself is shown once at creation. The api-key strategy
+  looks keys up by hash on every request, so revocation and expiry take effect immediately.
+- A key is its own principal: it is identified by apiKeyId and never acts as the admin who created it, so
+  ownership rules ("your own profile", "a course you teach") do not match it and routes that act on behalf
+  of the current profile refuse it.
+*/
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey) private apiKeyRepository: Repository<ApiKey>,
+  ) {}
+
+  // Helper method to hash a key before it is stored or looked up
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  // Create a key. The returned key is never shown again
+  async create(createApiKeyDto: CreateApiKeyDto, creatorId: number) {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const savedKey = await this.apiKeyRepository.save({
+      name: createApiKeyDto.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      hashedKey: this.hashKey(key),
+      role: createApiKeyDto.role,
+      permissions: createApiKeyDto.permissions ?? null,
+      expiresAt: createApiKeyDto.expiresInDays
+        ? new Date(Date.now() + createApiKeyDto.expiresInDays * 86400000)
+        : null,
+      createdBy: { id: creatorId },
+    });
+
+    return {
+      ...(await this.apiKeyRepository.findOneByOrFail({ id: savedKey.id })),
+      key,
+    };
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({
+      relations: ['createdBy'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revoke(id: string): Promise<string> {
+    const result = await this.apiKeyRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (result.affected === 0) {
+      throw new NotFoundException(`No active API key found with id ${id}`);
+    }
+    return `API key with id ${id} has been revoked`;
+  }
+
+  // Resolve a key sent in X-API-Key to the principal attached to the request, or null if it is not usable
+  async validate(key: string, ipAddress: string): Promise<JWTPayload | null> {
+    const apiKey = await this.apiKeyRepository.findOneBy({
+      hashedKey: this.hashKey(key),
+    });
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= new Date())
+    ) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL
+    ) {
+      await this.apiKeyRepository.update(apiKey.id, {
+        lastUsedAt: new Date(),
+        lastUsedIp: ipAddress,
+      });
+    }
+
+    return {
+      sub: API_KEY_SUBJECT,
+      email: `${apiKey.prefix}@api-keys`,
+      role: apiKey.role,
+      apiKeyId: apiKey.id,
+      permissions: apiKey.permissions ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { CookieOptions, Response } from 'express';
+import { randomBytes } from 'crypto';
+import {
+  ACCESS_TOKEN_COOKIE,
+  CSRF_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE_PATH,
+} from './utils/auth-cookies.util';
+
+type TokenPair = { accessToken: string; refreshToken: string };
+
+// Helper to tell token results apart from 2FA challenges
+function hasTokens(result: object): result is TokenPair {
+  return 'accessToken' in result && 'refreshToken' in result;
+}
+
+/*
+- Purpose: Browser auth mode where tokens never reach JavaScript
+- How it works: With AUTH_COOKIES=enabled the tokens of a sign-in or refresh are moved out of the response body
+  into HttpOnly cookies (Secure and SameSite by default), and a fresh CSRF token is issued in a readable cookie
+  and in the body. Requests authenticated by these cookies must echo the CSRF token (see CsrfGuard).
+*/
+@Injectable()
+export class AuthCookiesService {
+  constructor(
+    private configService: ConfigService,
+    private jwtService: JwtService,
+  ) {}
+
+  isEnabled(): boolean {
+    return (
+      this.configService.get<string>('AUTH_COOKIES', 'disabled') === 'enabled'
+    );
+  }
+
+  // Helper method to build the options shared by every auth cookie
+  private cookieOptions(): CookieOptions {
+    return {
+      httpOnly: true,
+      secure:
+        this.configService.get<string>('AUTH_COOKIE_SECURE', 'true') !==
+        'false',
+      sameSite: this.configService.get<'strict' | 'lax' | 'none'>(
+        'AUTH_COOKIE_SAMESITE',
+        'strict',
+      ),
+      domain: this.configService.get<string>('AUTH_COOKIE_DOMAIN') || undefined,
+      path: '/',
+    };
+  }
+
+  // Helper method to read when a token expires, so its cookie expires with it
+  private expiresAt(token: string): Date {
+    const { exp } = this.jwtService.decode<{ exp: number }>(token);
+    return new Date(exp * 1000);
+  }
+
+  // Move the tokens of a sign-in or refresh result into cookies. Other results (2FA challenges) pass through
+  issue<T extends object>(response: Response, result: T) {
+    if (!this.isEnabled() || !hasTokens(result)) {
+      return result;
+    }
+
+    const { accessToken, refreshToken, ...rest } = result;
+    const options = this.cookieOptions();
+    const refreshExpiresAt = this.expiresAt(refreshToken);
+    const csrfToken = randomBytes(32).toString('hex');
+
+    response.cookie(ACCESS_TOKEN_COOKIE, accessToken, {
+      ...options,
+      expires: this.expiresAt(accessToken),
+    });
+    response.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+      ...options,
+      path: REFRESH_TOKEN_COOKIE_PATH,
+      expires: refreshExpiresAt,
+    });
+    response.cookie(CSRF_TOKEN_COOKIE, csrfToken, {
+      ...options,
+      httpOnly: false, // the SPA reads it to send the X-CSRF-Token header
+      expires: refreshExpiresAt,
+    });
+    return { ...rest, csrfToken };
+  }
+
+  // Remove the auth cookies (on sign-out)
+  clear(response: Response) {
+    if (!this.isEnabled()) {
+      return;
+    }
+    const options = this.cookieOptions();
+    response.clearCookie(ACCESS_TOKEN_COOKIE, options);
+    response.clearCookie(REFRESH_TOKEN_COOKIE, {
+      ...options,
+      path: REFRESH_TOKEN_COOKIE_PATH,
+    });
+    response.clearCookie(CSRF_TOKEN_COOKIE, { ...options, httpOnly: false });
+  }
+}
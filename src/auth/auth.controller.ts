@@ -1,61 +1,438 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
+  HttpCode,
+  HttpStatus,
   Param,
+  ParseBoolPipe,
+  ParseUUIDPipe,
   ParseIntPipe,
   Post,
   Query,
   Req,
+  Res,
   UnauthorizedException,
   UseGuards,
 } from '@nestjs/common';
 import { CreateAuthDto } from './dto/login.dto';
-import { Request } from 'express';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ImpersonateDto } from './dto/impersonate.dto';
+import { ChangeExpiredPasswordDto } from './dto/change-expired-password.dto';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  TwoFactorSignInDto,
+} from './dto/two-factor.dto';
+import { Request, Response } from 'express';
 import { AuthService } from './auth.service';
 import { Public } from './decorators/public.decorator';
-import { AtGuard, RtGuard } from './guards';
-import { ApiTags } from '@nestjs/swagger';
+import { AtGuard, PermissionsGuard, RtGuard } from './guards';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import {
+  BlockWhileImpersonating,
+  ClientInfo,
+  GetClientInfo,
+  GetCurrentUser,
+  GetCurrentUserId,
+  RequirePermissions,
+} from './decorators';
+import { JWTPayload } from './strategies';
+import { SessionsService } from './sessions.service';
+import { PasswordResetService } from './password-reset.service';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SigningKeysService } from './signing-keys.service';
+import { AuthCookiesService } from './auth-cookies.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { Permission } from 'src/permissions/permission.enum';
+import { NoCache } from 'src/http-cache.interceptor';
 
 export interface RequestWithUser extends Request {
   user: {
     sub: number;
     email: string;
+    jti: string;
+    fam: string;
     refreshToken: string;
   };
 }
 
 @ApiTags('auth')
+@NoCache() // auth responses are per-caller and must never be served from cache
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly signingKeysService: SigningKeysService,
+    private readonly authCookiesService: AuthCookiesService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+  ) {}
 
   // /auth/signin
   @Public()
   @Post('signin')
-  signInLocal(@Body() createAuthDto: CreateAuthDto) {
-    return this.authService.signIn(createAuthDto);
+  async signInLocal(
+    @Body() createAuthDto: CreateAuthDto,
+    @GetClientInfo() client: ClientInfo,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    return this.authCookiesService.issue(
+      response,
+      await this.authService.signIn(createAuthDto, client),
+    );
+  }
+
+  // /auth/signin/2fa
+  @Public()
+  @Post('signin/2fa')
+  async signInTwoFactor(
+    @Body() twoFactorSignInDto: TwoFactorSignInDto,
+    @GetClientInfo() client: ClientInfo,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    return this.authCookiesService.issue(
+      response,
+      await this.authService.signInTwoFactor(twoFactorSignInDto, client),
+    );
+  }
+
+  // /auth/signin/2fa/enroll (mandatory enrollment, authorized by the sign-in challenge)
+  @Public()
+  @Post('signin/2fa/enroll')
+  enrollTwoFactorWithChallenge(
+    @Body() twoFactorChallengeDto: TwoFactorChallengeDto,
+  ) {
+    return this.authService.enrollTwoFactorWithChallenge(twoFactorChallengeDto);
+  }
+
+  // /auth/signin/2fa/confirm (mandatory enrollment, returns tokens and backup codes)
+  @Public()
+  @Post('signin/2fa/confirm')
+  async confirmTwoFactorWithChallenge(
+    @Body() twoFactorSignInDto: TwoFactorSignInDto,
+    @GetClientInfo() client: ClientInfo,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    return this.authCookiesService.issue(
+      response,
+      await this.authService.confirmTwoFactorWithChallenge(
+        twoFactorSignInDto,
+        client,
+      ),
+    );
+  }
+
+  // /auth/signin/change-password (password past PASSWORD_MAX_AGE, authorized by the sign-in challenge)
+  @Public()
+  @Post('signin/change-password')
+  async changeExpiredPassword(
+    @Body() changeExpiredPasswordDto: ChangeExpiredPasswordDto,
+    @GetClientInfo() client: ClientInfo,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    return this.authCookiesService.issue(
+      response,
+      await this.authService.changeExpiredPassword(
+        changeExpiredPasswordDto,
+        client,
+      ),
+    );
+  }
+
+  // /auth/password-policy
+  @Public()
+  @Get('password-policy')
+  getPasswordPolicy() {
+    return this.passwordPolicyService.getPolicy();
   }
 
   // /auth/signout/:id
+  @ApiBearerAuth()
   @UseGuards(AtGuard)
+  @BlockWhileImpersonating() // use /auth/impersonate/stop instead
   @Get('signout/:id')
-  signOut(@Param('id') id: string) {
-    return this.authService.signOut(id);
+  async signOut(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: JWTPayload,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const result = await this.authService.signOut(id, user);
+    if (user.sub === id) {
+      this.authCookiesService.clear(response);
+    }
+    return result;
   }
 
-  // /auth/refresh?id=1
+  // /auth/refresh?id=1 (the id is optional, e.g. in cookie mode where the refresh token comes from a cookie)
+  @ApiQuery({ name: 'id', required: false, type: Number })
   @Public()
   @UseGuards(RtGuard)
   @Get('refresh')
-  refreshTokens(
-    @Query('id', ParseIntPipe) id: number,
+  async refreshTokens(
     @Req() req: RequestWithUser,
+    @Res({ passthrough: true }) response: Response,
+    @Query('id', new ParseIntPipe({ optional: true })) id?: number,
   ) {
     const user = req.user;
-    if (user.sub !== id) {
+    if (id !== undefined && user.sub !== id) {
       throw new UnauthorizedException('Invalid user');
     }
-    return this.authService.refreshTokens(id, user.refreshToken);
+    return this.authCookiesService.issue(
+      response,
+      await this.authService.refreshTokens(user.sub, user.jti, user.fam),
+    );
+  }
+
+  // /auth/forgot-password
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @Post('forgot-password')
+  forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.passwordResetService.forgotPassword(forgotPasswordDto);
+  }
+
+  // /auth/reset-password
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @Post('reset-password')
+  resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.passwordResetService.resetPassword(resetPasswordDto);
+  }
+
+  // /auth/verify-email
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @Post('verify-email')
+  verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.emailVerificationService.verifyEmail(verifyEmailDto);
+  }
+
+  // /auth/verify-email/resend
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @Post('verify-email/resend')
+  resendVerification(@Body() resendVerificationDto: ResendVerificationDto) {
+    return this.emailVerificationService.resendVerification(
+      resendVerificationDto,
+    );
+  }
+
+  // Two-factor authentication endpoints
+
+  // /auth/2fa/enroll
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @BlockWhileImpersonating()
+  @Post('2fa/enroll')
+  enrollTwoFactor(@GetCurrentUserId() userId: number) {
+    return this.twoFactorService.enroll(userId);
+  }
+
+  // /auth/2fa/confirm
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @BlockWhileImpersonating()
+  @Post('2fa/confirm')
+  confirmTwoFactor(
+    @GetCurrentUserId() userId: number,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.confirm(userId, twoFactorCodeDto.code);
+  }
+
+  // /auth/2fa/disable
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @BlockWhileImpersonating()
+  @Post('2fa/disable')
+  disableTwoFactor(
+    @GetCurrentUserId() userId: number,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.disable(userId, twoFactorCodeDto.code);
+  }
+
+  // /auth/2fa/backup-codes
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @BlockWhileImpersonating()
+  @Post('2fa/backup-codes')
+  regenerateBackupCodes(
+    @GetCurrentUserId() userId: number,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.regenerateBackupCodes(
+      userId,
+      twoFactorCodeDto.code,
+    );
+  }
+
+  // Session management endpoints
+
+  // /auth/sessions
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @Get('sessions')
+  getSessions(@GetCurrentUser() user: JWTPayload) {
+    return this.sessionsService.findActive(user.sub, user.sid);
+  }
+
+  // /auth/sessions
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @Delete('sessions')
+  revokeAllSessions(@GetCurrentUserId() userId: number) {
+    return this.sessionsService.revokeAll(userId);
+  }
+
+  // /auth/sessions/:sessionId
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @Delete('sessions/:sessionId')
+  revokeSession(
+    @GetCurrentUserId() userId: number,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ) {
+    return this.sessionsService.revoke(userId, sessionId);
+  }
+
+  // /auth/users/:id/sessions
+  @ApiBearerAuth()
+  @UseGuards(AtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SESSIONS_MANAGE)
+  @Get('users/:id/sessions')
+  getUserSessions(@Param('id', ParseIntPipe) id: number) {
+    return this.sessionsService.findActive(id);
+  }
+
+  // /auth/users/:id/sessions
+  @ApiBearerAuth()
+  @UseGuards(AtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SESSIONS_MANAGE)
+  @Delete('users/:id/sessions')
+  revokeUserSessions(@Param('id', ParseIntPipe) id: number) {
+    return this.sessionsService.revokeAll(id);
+  }
+
+  // /auth/users/:id/sessions/:sessionId
+  @ApiBearerAuth()
+  @UseGuards(AtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SESSIONS_MANAGE)
+  @Delete('users/:id/sessions/:sessionId')
+  revokeUserSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ) {
+    return this.sessionsService.revoke(id, sessionId);
+  }
+
+  // Login history and lockout endpoints
+
+  // /auth/login-history/me
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @Get('login-history/me')
+  getOwnLoginHistory(@GetCurrentUserId() userId: number) {
+    return this.loginAttemptsService.findHistory({ profileId: userId });
+  }
+
+  // /auth/login-history?email=john@mail.com&success=false
+  @ApiQuery({ name: 'email', required: false })
+  @ApiQuery({ name: 'profileId', required: false, type: Number })
+  @ApiQuery({ name: 'ipAddress', required: false })
+  @ApiQuery({ name: 'success', required: false, type: Boolean })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiBearerAuth()
+  @UseGuards(AtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.LOGIN_HISTORY_READ)
+  @Get('login-history')
+  getLoginHistory(
+    @Query('email') email?: string,
+    @Query('profileId', new ParseIntPipe({ optional: true }))
+    profileId?: number,
+    @Query('ipAddress') ipAddress?: string,
+    @Query('success', new ParseBoolPipe({ optional: true })) success?: boolean,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    return this.loginAttemptsService.findHistory({
+      email,
+      profileId,
+      ipAddress,
+      success,
+      limit,
+    });
+  }
+
+  // /auth/users/:id/unlock?ipAddress=10.0.0.1
+  @ApiQuery({
+    name: 'ipAddress',
+    required: false,
+    description: 'Also lift the lockout of this IP address',
+  })
+  @ApiBearerAuth()
+  @UseGuards(AtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.ACCOUNTS_UNLOCK)
+  @Post('users/:id/unlock')
+  unlockUser(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('ipAddress') ipAddress?: string,
+  ) {
+    return this.loginAttemptsService.unlock(id, ipAddress);
+  }
+
+  // Token signing key endpoints
+
+  // /auth/keys/rotate
+  @ApiBearerAuth()
+  @UseGuards(AtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SIGNING_KEYS_ROTATE)
+  @Post('keys/rotate')
+  rotateSigningKey() {
+    return this.signingKeysService.rotate();
+  }
+
+  // Impersonation endpoints
+
+  // /auth/impersonate/stop
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @HttpCode(HttpStatus.OK)
+  @Post('impersonate/stop')
+  stopImpersonating(
+    @GetCurrentUser() user: JWTPayload,
+    @GetClientInfo() client: ClientInfo,
+  ) {
+    return this.authService.stopImpersonating(user, client);
+  }
+
+  // /auth/impersonate/:profileId
+  @ApiBearerAuth()
+  @UseGuards(AtGuard, PermissionsGuard)
+  @RequirePermissions(Permission.PROFILES_IMPERSONATE)
+  @BlockWhileImpersonating()
+  @Post('impersonate/:profileId')
+  impersonate(
+    @Param('profileId', ParseIntPipe) profileId: number,
+    @Body() impersonateDto: ImpersonateDto,
+    @GetCurrentUser() user: JWTPayload,
+    @GetClientInfo() client: ClientInfo,
+  ) {
+    return this.authService.impersonate(
+      profileId,
+      user,
+      impersonateDto.reason,
+      client,
+    );
   }
 }
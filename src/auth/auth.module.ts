@@ -1,25 +1,84 @@
 import { Module } from '@nestjs/common';
 import { AuthService } from './auth.service';
+import { AuthCookiesService } from './auth-cookies.service';
 import { AuthController } from './auth.controller';
 import { Profile } from 'src/profiles/entities/profile.entity';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DatabaseModule } from 'src/database/database.module';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
-import { AtStrategy, RfStrategy } from './strategies';
+import { ApiKeyStrategy, AtStrategy, RfStrategy } from './strategies';
 import { RolesGuard } from './guards/roles.guard';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { Session } from './entities/session.entity';
+import { SessionsService } from './sessions.service';
+import { TokenDenylistService } from './token-denylist.service';
+import { LogsModule } from 'src/my-logs/logs.module';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { PasswordResetService } from './password-reset.service';
+import { MailModule } from 'src/mail/mail.module';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { LoginFailureCounter } from './entities/login-failure-counter.entity';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SigningKey } from './entities/signing-key.entity';
+import { SigningKeysService } from './signing-keys.service';
+import { JwksController } from './jwks.controller';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { PasswordHistory } from './entities/password-history.entity';
+import { PasswordPolicyService } from './password-policy.service';
 
 @Module({
   imports: [
     DatabaseModule,
-    TypeOrmModule.forFeature([Profile]),
+    TypeOrmModule.forFeature([
+      Profile,
+      RefreshToken,
+      Session,
+      PasswordResetToken,
+      LoginAttempt,
+      LoginFailureCounter,
+      PasswordHistory,
+      SigningKey,
+      ApiKey,
+    ]),
+    LogsModule,
+    MailModule,
     JwtModule.register({
       global: true,
     }), // Register JwtModule with global configuration
     PassportModule, // Register PassportModule for strategies
   ],
-  providers: [AuthService, AtStrategy, RfStrategy, RolesGuard],
-  controllers: [AuthController],
-  exports: [RolesGuard], // Export RolesGuard so it can be used in other modules
+  providers: [
+    AuthService,
+    RefreshTokensService,
+    SessionsService,
+    TokenDenylistService,
+    PasswordResetService,
+    EmailVerificationService,
+    TwoFactorService,
+    LoginAttemptsService,
+    SigningKeysService,
+    ApiKeysService,
+    AuthCookiesService,
+    PasswordPolicyService,
+    AtStrategy,
+    RfStrategy,
+    ApiKeyStrategy,
+    RolesGuard,
+  ],
+  controllers: [AuthController, JwksController, ApiKeysController],
+  exports: [
+    RolesGuard,
+    SessionsService,
+    TokenDenylistService,
+    EmailVerificationService,
+    SigningKeysService,
+    PasswordPolicyService,
+  ], // Export RolesGuard, token revocation, signing and password policy services so they can be used in other modules
 })
 export class AuthModule {}
@@ -1,4 +1,9 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { CreateAuthDto } from './dto/login.dto';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Profile } from 'src/profiles/entities/profile.entity';
@@ -6,6 +11,23 @@ import { Repository } from 'typeorm';
 import * as Bcrypt from 'bcrypt';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { SessionsService } from './sessions.service';
+import { TokenDenylistService } from './token-denylist.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SigningKeysService } from './signing-keys.service';
+import { PasswordPolicyService } from './password-policy.service';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorSignInDto,
+} from './dto/two-factor.dto';
+import { ChangeExpiredPasswordDto } from './dto/change-expired-password.dto';
+import { ClientInfo } from './decorators/client-info.decorator';
+import { JWTPayload } from './strategies/at.strategy';
+import { Role } from 'src/profiles/entities/profile.entity';
+import { AuditService } from 'src/audit/audit.service';
 
 @Injectable()
 export class AuthService {
@@ -13,21 +35,38 @@ export class AuthService {
     @InjectRepository(Profile) private profileRepository: Repository<Profile>,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private refreshTokensService: RefreshTokensService,
+    private sessionsService: SessionsService,
+    private tokenDenylistService: TokenDenylistService,
+    private twoFactorService: TwoFactorService,
+    private loginAttemptsService: LoginAttemptsService,
+    private signingKeysService: SigningKeysService,
+    private auditService: AuditService,
+    private passwordPolicyService: PasswordPolicyService,
   ) {}
 
   // Helper method to generates access and refresh tokens for the user
-  private async getTokens(userId: number, email: string, role: string) {
+  private async getTokens(
+    userId: number,
+    email: string,
+    role: string,
+    sessionId: string,
+  ) {
+    const refreshTokenId = randomUUID();
+    const signOptions = await this.signingKeysService.getSignOptions();
     const [at, rt] = await Promise.all([
       this.jwtService.signAsync(
         {
           sub: userId,
           email: email,
           role: role,
+          typ: 'access',
+          sid: sessionId,
+          iatMs: Date.now(),
         },
         {
-          secret: this.configService.getOrThrow<string>(
-            'JWT_ACCESS_TOKEN_SECRET',
-          ),
+          ...signOptions,
+          jwtid: randomUUID(),
           expiresIn: this.configService.getOrThrow<string>(
             'JWT_ACCESS_TOKEN_EXPIRATION_TIME',
           ), // 15 minutes
@@ -38,44 +77,79 @@ export class AuthService {
           sub: userId,
           email: email,
           role: role,
+          typ: 'refresh',
+          fam: sessionId, // refresh token family (the session), kept across rotations
         },
         {
-          secret: this.configService.getOrThrow<string>(
-            'JWT_REFRESH_TOKEN_SECRET',
-          ),
+          ...signOptions,
+          jwtid: refreshTokenId,
           expiresIn: this.configService.getOrThrow<string>(
             'JWT_REFRESH_TOKEN_EXPIRATION_TIME',
           ), // 60, "2 days", "10h", "7d"
         },
       ),
     ]);
-    return { accessToken: at, refreshToken: rt };
+    return { accessToken: at, refreshToken: rt, refreshTokenId };
   }
 
-  // Helper method to hashes the password using bcrypt
-  private async hashData(data: string): Promise<string> {
-    const salt = await Bcrypt.genSalt(10);
-    return await Bcrypt.hash(data, salt);
+  // Helper method to save a newly issued refresh token in the token store
+  private async saveRefreshToken(
+    userId: number,
+    refreshToken: string,
+    refreshTokenId: string,
+    familyId: string,
+  ) {
+    const { exp } = this.jwtService.decode<{ exp: number }>(refreshToken);
+    await this.refreshTokensService.store(
+      refreshTokenId,
+      familyId,
+      userId,
+      refreshToken,
+      new Date(exp * 1000),
+    );
   }
 
-  // Helper method to remove password from profile
-  private async saveRefreshToken(userId: number, refreshToken: string) {
-    // hash refresh token
-    const hashedRefreshToken = await this.hashData(refreshToken);
-    // save hashed refresh token in the database
-    await this.profileRepository.update(userId, {
-      hashedRefreshToken: hashedRefreshToken,
-    });
+  // Helper method to resolve the role a profile signs in with. Unverified accounts are refused or
+  // limited to GUEST depending on AUTH_UNVERIFIED_SIGNIN (deny | guest)
+  private resolveRole(profile: Pick<Profile, 'role' | 'emailVerifiedAt'>) {
+    if (profile.emailVerifiedAt) {
+      return profile.role;
+    }
+    if (
+      this.configService.get<string>('AUTH_UNVERIFIED_SIGNIN', 'deny') ===
+      'guest'
+    ) {
+      return Role.GUEST;
+    }
+    throw new ForbiddenException('Email address has not been verified');
   }
 
   // Method to sign in the user
-  async signIn(createAuthDto: CreateAuthDto) {
+  async signIn(createAuthDto: CreateAuthDto, client: ClientInfo) {
+    // refuse early while the account or IP is backing off after failed attempts
+    await this.loginAttemptsService.assertNotBlocked(
+      createAuthDto.email,
+      client,
+    );
     // check if the user exists in the database
     const foundUser = await this.profileRepository.findOne({
       where: { email: createAuthDto.email },
-      select: ['id', 'email', 'password', 'role'], // Include role in selection
+      select: [
+        'id',
+        'email',
+        'password',
+        'role',
+        'emailVerifiedAt',
+        'twoFactorEnabledAt',
+        'passwordChangedAt',
+      ], // Include role in selection
     });
     if (!foundUser) {
+      await this.loginAttemptsService.recordFailure(
+        createAuthDto.email,
+        client,
+        'unknown-email',
+      );
       throw new NotFoundException(
         `User with email ${createAuthDto.email} not found`,
       );
@@ -86,68 +160,372 @@ export class AuthService {
       foundUser.password,
     );
     if (!foundPassword) {
+      await this.loginAttemptsService.recordFailure(
+        createAuthDto.email,
+        client,
+        'invalid-credentials',
+        foundUser.id,
+      );
       throw new NotFoundException('Invalid credentials');
     }
-    // if correct generate tokens
-    const { accessToken, refreshToken } = await this.getTokens(
-      foundUser.id,
-      foundUser.email,
-      foundUser.role,
+    const role = this.resolveRole(foundUser);
+
+    // with 2FA enabled the password only earns a challenge for the second step
+    if (foundUser.twoFactorEnabledAt) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.twoFactorService.createChallenge(
+          foundUser.id,
+          '2fa',
+          createAuthDto.deviceLabel,
+        ),
+      };
+    }
+    // roles where 2FA is mandatory have to enroll before they get tokens
+    if (this.twoFactorService.isRequiredFor(role)) {
+      return {
+        twoFactorEnrollmentRequired: true,
+        challengeToken: await this.twoFactorService.createChallenge(
+          foundUser.id,
+          '2fa-enroll',
+          createAuthDto.deviceLabel,
+        ),
+      };
+    }
+
+    return this.startSession(
+      foundUser,
+      role,
+      client,
+      createAuthDto.deviceLabel,
+    );
+  }
+
+  // Method to complete a sign-in with the second factor
+  async signInTwoFactor(
+    twoFactorSignInDto: TwoFactorSignInDto,
+    client: ClientInfo,
+  ) {
+    const challenge = await this.twoFactorService.verifyChallenge(
+      twoFactorSignInDto.challengeToken,
+      '2fa',
+    );
+    const foundUser = await this.findSignInProfile(challenge.sub);
+    // codes count towards the same backoff and lockout as passwords
+    await this.loginAttemptsService.assertNotBlocked(foundUser.email, client);
+    if (
+      !(await this.twoFactorService.verifyCode(
+        challenge.sub,
+        twoFactorSignInDto.code,
+      ))
+    ) {
+      await this.loginAttemptsService.recordFailure(
+        foundUser.email,
+        client,
+        'invalid-2fa-code',
+        foundUser.id,
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    return this.startSession(
+      foundUser,
+      this.resolveRole(foundUser),
+      client,
+      challenge.deviceLabel,
+    );
+  }
+
+  // Method to start the mandatory 2FA enrollment of a user holding an enrollment challenge
+  async enrollTwoFactorWithChallenge(
+    twoFactorChallengeDto: TwoFactorChallengeDto,
+  ) {
+    const challenge = await this.twoFactorService.verifyChallenge(
+      twoFactorChallengeDto.challengeToken,
+      '2fa-enroll',
+    );
+    return this.twoFactorService.enroll(challenge.sub);
+  }
+
+  // Method to confirm the mandatory 2FA enrollment and finish signing in
+  async confirmTwoFactorWithChallenge(
+    twoFactorSignInDto: TwoFactorSignInDto,
+    client: ClientInfo,
+  ) {
+    const challenge = await this.twoFactorService.verifyChallenge(
+      twoFactorSignInDto.challengeToken,
+      '2fa-enroll',
+    );
+    const foundUser = await this.findSignInProfile(challenge.sub);
+    await this.loginAttemptsService.assertNotBlocked(foundUser.email, client);
+
+    let backupCodes: string[];
+    try {
+      ({ backupCodes } = await this.twoFactorService.confirm(
+        challenge.sub,
+        twoFactorSignInDto.code,
+      ));
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.loginAttemptsService.recordFailure(
+          foundUser.email,
+          client,
+          'invalid-2fa-code',
+          foundUser.id,
+        );
+      }
+      throw error;
+    }
+
+    const tokens = await this.startSession(
+      foundUser,
+      this.resolveRole(foundUser),
+      client,
+      challenge.deviceLabel,
+    );
+    return { ...tokens, backupCodes };
+  }
+
+  // Helper method to load the fields needed to issue tokens for a profile
+  private async findSignInProfile(id: number) {
+    const foundUser = await this.profileRepository.findOne({
+      where: { id },
+      select: ['id', 'email', 'role', 'emailVerifiedAt', 'passwordChangedAt'],
+    });
+    if (!foundUser) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return foundUser;
+  }
+
+  // Helper method to start a new session for this device and generate its tokens
+  private async startSession(
+    user: Pick<Profile, 'id' | 'email' | 'passwordChangedAt'>,
+    role: Role,
+    client: ClientInfo,
+    deviceLabel?: string,
+  ) {
+    // a password past PASSWORD_MAX_AGE has to be changed before any tokens are issued
+    if (this.passwordPolicyService.isExpired(user.passwordChangedAt)) {
+      return {
+        passwordChangeRequired: true,
+        challengeToken: await this.twoFactorService.createChallenge(
+          user.id,
+          'password-change',
+          deviceLabel,
+        ),
+      };
+    }
+    const session = await this.sessionsService.create(
+      user.id,
+      client,
+      deviceLabel,
+    );
+    const { accessToken, refreshToken, refreshTokenId } = await this.getTokens(
+      user.id,
+      user.email,
+      role,
+      session.id,
     );
 
     // save refresh token in the database
-    await this.saveRefreshToken(foundUser.id, refreshToken);
+    await this.saveRefreshToken(
+      user.id,
+      refreshToken,
+      refreshTokenId,
+      session.id,
+    );
+    await this.loginAttemptsService.recordSuccess(user.email, client, user.id);
     // return the tokens
     return { accessToken, refreshToken };
   }
 
-  // Method to sign out the user
-  async signOut(userId: string) {
-    // set user refresh token to null
-    const res = await this.profileRepository.update(userId, {
-      hashedRefreshToken: null,
+  // Method to replace an expired password with the challenge from sign-in, and finish signing in
+  async changeExpiredPassword(
+    changeExpiredPasswordDto: ChangeExpiredPasswordDto,
+    client: ClientInfo,
+  ) {
+    const challenge = await this.twoFactorService.verifyChallenge(
+      changeExpiredPasswordDto.challengeToken,
+      'password-change',
+    );
+    const foundUser = await this.profileRepository.findOne({
+      where: { id: challenge.sub },
+      select: [
+        'id',
+        'email',
+        'firstName',
+        'lastName',
+        'role',
+        'emailVerifiedAt',
+      ],
+    });
+    if (!foundUser) {
+      throw new NotFoundException(`User with ID ${challenge.sub} not found`);
+    }
+
+    const password = await this.passwordPolicyService.hashNewPassword(
+      changeExpiredPasswordDto.newPassword,
+      foundUser,
+      foundUser.id,
+    );
+    const passwordChangedAt = new Date();
+    await this.profileRepository.update(foundUser.id, {
+      password,
+      passwordChangedAt,
+    });
+    await this.passwordPolicyService.remember(foundUser.id, password);
+    // sessions started with the old password end, like after any password change
+    await this.sessionsService.revokeAll(foundUser.id);
+
+    return this.startSession(
+      { ...foundUser, passwordChangedAt },
+      this.resolveRole(foundUser),
+      client,
+      challenge.deviceLabel,
+    );
+  }
+
+  // Method to sign out a user. Users end their current session; admins may sign out anyone everywhere
+  async signOut(userId: number, caller: JWTPayload) {
+    const isSelf = caller.sub === userId;
+    if (!isSelf && caller.role !== Role.ADMIN) {
+      throw new ForbiddenException('You can only sign yourself out');
+    }
+
+    const foundUser = await this.profileRepository.findOne({
+      where: { id: userId },
+      select: ['id'],
     });
 
-    if (res.affected === 0) {
+    if (!foundUser) {
       throw new NotFoundException(`User with ID ${userId} not found`);
     }
+
+    if (isSelf && caller.sid) {
+      // the caller's access token stops working immediately, not when it expires
+      if (caller.jti && caller.exp) {
+        await this.tokenDenylistService.denyToken(caller.jti, caller.exp);
+      }
+      await this.sessionsService.revoke(foundUser.id, caller.sid);
+    } else {
+      await this.sessionsService.revokeAll(foundUser.id);
+    }
     return { message: `User with id : ${userId} signed out successfully` };
   }
 
-  // Method to refresh tokens
-  async refreshTokens(id: number, refreshToken: string) {
+  // Method to refresh tokens. The presented token has already been checked against the store by RfStrategy
+  async refreshTokens(id: number, refreshTokenId: string, sessionId: string) {
     // get user
     const foundUser = await this.profileRepository.findOne({
       where: { id: id },
-      select: ['id', 'email', 'role', 'hashedRefreshToken'], // Include role in selection
+      select: ['id', 'email', 'role', 'emailVerifiedAt'], // Include role in selection
     });
 
     if (!foundUser) {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
+    const role = this.resolveRole(foundUser);
 
-    if (!foundUser.hashedRefreshToken) {
-      throw new NotFoundException('No refresh token found');
-    }
-
-    // check if the refresh token is valid
-    const refreshTokenMatches = await Bcrypt.compare(
-      refreshToken,
-      foundUser.hashedRefreshToken,
+    // generate new tokens in the same family
+    const {
+      accessToken,
+      refreshToken: newRefreshToken,
+      refreshTokenId: newRefreshTokenId,
+    } = await this.getTokens(foundUser.id, foundUser.email, role, sessionId);
+    // retire the presented token; fails with reuse detection if it was rotated concurrently
+    await this.refreshTokensService.markUsed(
+      { id: refreshTokenId, familyId: sessionId, profileId: foundUser.id },
+      newRefreshTokenId,
     );
-
-    if (!refreshTokenMatches) {
-      throw new NotFoundException('Invalid refresh token');
-    }
-    // generate new tokens
-    const { accessToken, refreshToken: newRefreshToken } = await this.getTokens(
+    // save new refresh token in the database
+    await this.saveRefreshToken(
       foundUser.id,
-      foundUser.email,
-      foundUser.role,
+      newRefreshToken,
+      newRefreshTokenId,
+      sessionId,
     );
-    // save new refresh token in the database
-    await this.saveRefreshToken(foundUser.id, newRefreshToken);
+    await this.sessionsService.touch(sessionId);
     // return the new tokens
     return { accessToken, refreshToken: newRefreshToken };
   }
+
+  // Method for an admin to act as another profile. The short-lived access token carries the admin in
+  // its "act" claim, belongs to the admin's session and comes without a refresh token
+  async impersonate(
+    profileId: number,
+    caller: JWTPayload,
+    reason: string,
+    client: ClientInfo,
+  ) {
+    if (caller.apiKeyId || !caller.sid) {
+      throw new ForbiddenException('Impersonation needs a signed-in session');
+    }
+    if (caller.act) {
+      throw new ForbiddenException('Stop the current impersonation first');
+    }
+    if (caller.sub === profileId) {
+      throw new ForbiddenException('You cannot impersonate yourself');
+    }
+
+    const target = await this.findSignInProfile(profileId);
+    if (target.role === Role.ADMIN) {
+      throw new ForbiddenException('Admins cannot be impersonated');
+    }
+    // unverified profiles get what they would get at sign-in, without being refused
+    const role = target.emailVerifiedAt ? target.role : Role.GUEST;
+
+    const accessToken = await this.jwtService.signAsync(
+      {
+        sub: target.id,
+        email: target.email,
+        role,
+        typ: 'access',
+        sid: caller.sid,
+        act: { sub: caller.sub, email: caller.email },
+        iatMs: Date.now(),
+      },
+      {
+        ...(await this.signingKeysService.getSignOptions()),
+        jwtid: randomUUID(),
+        expiresIn: this.configService.get<string>(
+          'IMPERSONATION_TOKEN_EXPIRATION_TIME',
+          '10m',
+        ),
+      },
+    );
+    const { exp } = this.jwtService.decode<{ exp: number }>(accessToken);
+
+    await this.auditService.record({
+      event: 'impersonation-start',
+      actorId: caller.sub,
+      subjectId: target.id,
+      reason,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+    return {
+      accessToken,
+      expiresAt: new Date(exp * 1000),
+      impersonating: { id: target.id, email: target.email, role },
+    };
+  }
+
+  // Method to end an impersonation early by revoking the impersonation token
+  async stopImpersonating(caller: JWTPayload, client: ClientInfo) {
+    if (!caller.act) {
+      throw new ForbiddenException('You are not impersonating anyone');
+    }
+    if (caller.jti && caller.exp) {
+      await this.tokenDenylistService.denyToken(caller.jti, caller.exp);
+    }
+    await this.auditService.record({
+      event: 'impersonation-stop',
+      actorId: caller.act.sub,
+      subjectId: caller.sub,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+    return { message: `Stopped impersonating user with id : ${caller.sub}` };
+  }
 }
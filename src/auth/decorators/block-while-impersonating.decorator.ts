@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const BLOCK_WHILE_IMPERSONATING_KEY = 'blockWhileImpersonating';
+// Refuse the route for impersonation tokens (credential changes, granting access, admin actions)
+export const BlockWhileImpersonating = () =>
+  SetMetadata(BLOCK_WHILE_IMPERSONATING_KEY, true);
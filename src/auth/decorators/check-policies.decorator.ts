@@ -0,0 +1,7 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import { PolicyHandler } from '../../permissions/policies/policy-handler';
+
+export const POLICIES_KEY = 'policies';
+// Every listed policy has to allow the request
+export const CheckPolicies = (...policies: Type<PolicyHandler>[]) =>
+  SetMetadata(POLICIES_KEY, policies);
@@ -0,0 +1,26 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+export type ClientInfo = {
+  ipAddress: string;
+  userAgent: string | null;
+};
+
+// Read the caller's IP address and user agent from a request
+export function getClientInfo(request: Request): ClientInfo {
+  // request.ip only trusts X-Forwarded-For through the proxy hops set with TRUST_PROXY (see main.ts),
+  // so clients cannot pick their own address by sending the header
+  return {
+    ipAddress: request.ip || 'unknown',
+    userAgent: request.get('User-Agent') ?? null,
+  };
+}
+
+/**
+ * Custom decorator to extract the caller's IP address and user agent
+ * Usage: @GetClientInfo() client: ClientInfo
+ */
+export const GetClientInfo = createParamDecorator(
+  (data: undefined, context: ExecutionContext): ClientInfo =>
+    getClientInfo(context.switchToHttp().getRequest<Request>()),
+);
@@ -1,12 +1,26 @@
-import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import {
+  createParamDecorator,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { JWTPayload } from '../strategies/at.strategy';
 
 /**
  * Custom decorator to extract the current user's ID from the JWT payload
  * Usage: @GetCurrentUserId() userId: number
+ * API keys are not profiles, so routes acting on behalf of the current user refuse them
  */
 export const GetCurrentUserId = createParamDecorator(
   (data: undefined, context: ExecutionContext): number => {
-    const request = context.switchToHttp().getRequest();
-    return request.user['sub']; // 'sub' is the standard JWT claim for user ID
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user: JWTPayload }>();
+    if (request.user.apiKeyId) {
+      throw new ForbiddenException(
+        'This route acts on behalf of a profile and cannot be used with an API key',
+      );
+    }
+    return request.user.sub; // 'sub' is the standard JWT claim for user ID
   },
 );
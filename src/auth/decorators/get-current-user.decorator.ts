@@ -1,12 +1,18 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { JWTPayload } from '../strategies/at.strategy';
 
 /**
  * Custom decorator to extract the current user from the JWT payload
- * Usage: @GetCurrentUser() user: { sub: number; email: string }
+ * Usage: @GetCurrentUser() user: JWTPayload
+ * While impersonating, `sub`/`email`/`role` are the impersonated profile and `act` is the admin behind the request
+ * Usage: @GetCurrentUser('act') actor: JWTPayload['act']
  */
 export const GetCurrentUser = createParamDecorator(
-  (data: string | undefined, context: ExecutionContext) => {
-    const request = context.switchToHttp().getRequest();
+  (data: keyof JWTPayload | undefined, context: ExecutionContext) => {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user: JWTPayload }>();
     if (data) {
       return request.user[data]; // Return specific property if data is provided
     }
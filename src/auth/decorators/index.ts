@@ -2,3 +2,7 @@ export * from './public.decorator';
 export * from './roles.decorator';
 export * from './get-current-user.decorator';
 export * from './get-current-user-id.decorator';
+export * from './client-info.decorator';
+export * from './permissions.decorator';
+export * from './check-policies.decorator';
+export * from './block-while-impersonating.decorator';
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../../permissions/permission.enum';
+
+export const PERMISSIONS_KEY = 'permissions';
+// The caller's role needs every listed permission
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { TwoFactorChallengeDto } from './two-factor.dto';
+
+export class ChangeExpiredPasswordDto extends TwoFactorChallengeDto {
+  @ApiProperty({
+    description: 'The new password (must meet the password policy)',
+    example: 'Correct-Horse-Battery-7',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  newPassword: string;
+}
@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Role } from 'src/profiles/entities/profile.entity';
+import { Permission } from 'src/permissions/permission.enum';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'A name that says what the key is used for',
+    example: 'Timetabling sync',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description: 'The role whose permissions the key is granted',
+    enum: Role,
+    example: Role.FACULTY,
+    required: true,
+  })
+  @IsEnum(Role)
+  role: Role;
+
+  @ApiProperty({
+    description:
+      'Limit the key to these permissions (each must also be granted to the role). Omit to use all of the role permissions',
+    enum: Permission,
+    isArray: true,
+    required: false,
+    example: [Permission.COURSES_READ, Permission.STUDENTS_LIST],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Permission, { each: true })
+  permissions?: Permission[];
+
+  @ApiProperty({
+    description: 'Number of days until the key expires. Omit for no expiry',
+    example: 90,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  expiresInDays?: number;
+}
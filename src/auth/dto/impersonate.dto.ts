@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ImpersonateDto {
+  @ApiProperty({
+    description:
+      'Why the profile is being impersonated (kept in the audit log)',
+    example: 'Reproducing support ticket #4521',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
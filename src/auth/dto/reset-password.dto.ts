@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'The reset token received by email',
+    example: '3f7c9e0b2a...',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description:
+      'The new password (must meet the password policy, see /auth/password-policy)',
+    example: 'Correct-Horse-Battery-7',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  password: string;
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description:
+      'A 6-digit code from the authenticator app, or one of the backup codes',
+    example: '123456',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({
+    description: 'The challenge token returned by /auth/signin',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  challengeToken: string;
+}
+
+export class TwoFactorSignInDto extends TwoFactorChallengeDto {
+  @ApiProperty({
+    description:
+      'A 6-digit code from the authenticator app, or one of the backup codes',
+    example: '123456',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'The verification token received by email',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
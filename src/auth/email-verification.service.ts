@@ -0,0 +1,104 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { IsNull, Repository } from 'typeorm';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { MailService } from 'src/mail/mail.service';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+
+type EmailVerificationPayload = {
+  sub: number;
+  email: string;
+  purpose: 'verify-email';
+};
+
+/*
+- Purpose: Confirms that a new profile owns the email address it registered with
+- How it works: A JWT signed with JWT_EMAIL_VERIFICATION_SECRET carries the profile id and email and is
+  emailed as a link. Verifying it stamps `emailVerifiedAt`. The token is bound to the email, so changing
+  the address invalidates links sent for the old one.
+*/
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private mailService: MailService,
+  ) {}
+
+  // Sign a verification token and email the link to the profile
+  async sendVerification(
+    profile: Pick<Profile, 'id' | 'email' | 'firstName'>,
+  ): Promise<void> {
+    const payload: EmailVerificationPayload = {
+      sub: profile.id,
+      email: profile.email,
+      purpose: 'verify-email',
+    };
+    const token = await this.jwtService.signAsync(payload, {
+      secret: this.configService.getOrThrow<string>(
+        'JWT_EMAIL_VERIFICATION_SECRET',
+      ),
+      expiresIn: this.configService.get<string>(
+        'EMAIL_VERIFICATION_TOKEN_EXPIRATION_TIME',
+        '24h',
+      ),
+    });
+
+    const verificationUrl = `${this.configService.getOrThrow<string>('APP_FRONTEND_URL')}/verify-email?token=${token}`;
+    await this.mailService.sendEmailVerification(
+      profile.email,
+      profile.firstName,
+      verificationUrl,
+    );
+  }
+
+  // Method to confirm an email address from a verification token
+  async verifyEmail(verifyEmailDto: VerifyEmailDto) {
+    let payload: EmailVerificationPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<EmailVerificationPayload>(
+        verifyEmailDto.token,
+        {
+          secret: this.configService.getOrThrow<string>(
+            'JWT_EMAIL_VERIFICATION_SECRET',
+          ),
+        },
+      );
+    } catch {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    if (payload.purpose !== 'verify-email') {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    const res = await this.profileRepository.update(
+      { id: payload.sub, email: payload.email },
+      { emailVerifiedAt: new Date() },
+    );
+    if (res.affected === 0) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    return { message: 'Email address verified successfully' };
+  }
+
+  // Method to send a new verification link. The response never reveals whether the email is registered
+  async resendVerification(resendVerificationDto: ResendVerificationDto) {
+    const foundUser = await this.profileRepository.findOne({
+      where: { email: resendVerificationDto.email, emailVerifiedAt: IsNull() },
+      select: ['id', 'email', 'firstName'],
+    });
+    if (foundUser) {
+      await this.sendVerification(foundUser);
+    }
+    return {
+      message:
+        'If an unverified account exists for this email, a new verification link has been sent',
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile, Role } from '../../profiles/entities/profile.entity';
+import { Permission } from '../../permissions/permission.enum';
+
+@Entity()
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string; // e.g. "Timetabling sync"
+
+  @Column()
+  prefix: string; // first characters of the key, shown in listings so keys can be told apart
+
+  @Index({ unique: true })
+  @Column({ select: false })
+  hashedKey: string; // sha256 of the full key
+
+  @Column({ type: 'enum', enum: Role })
+  role: Role; // the key acts with this role's permissions
+
+  @Column({ type: 'simple-json', nullable: true })
+  permissions: Permission[] | null; // optional narrower scope within the role
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ nullable: true })
+  lastUsedIp: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  // Who created the key. Requests made with it are attributed to the key (apiKeyId), not to this profile
+  @ManyToOne(() => Profile, { onDelete: 'CASCADE' })
+  createdBy: Relation<Profile>;
+}
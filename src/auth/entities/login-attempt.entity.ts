@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+@Entity()
+export class LoginAttempt {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  email: string; // as typed by the caller, lower-cased
+
+  @Index()
+  @Column({ nullable: true })
+  ipAddress: string;
+
+  @Column({ type: 'text', nullable: true })
+  userAgent: string | null;
+
+  @Column()
+  success: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  reason: string | null; // why a failed attempt failed, e.g. "invalid-credentials", "blocked"
+
+  @Index()
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({ type: 'int', nullable: true })
+  profileId: number | null; // null when the email does not match a profile
+
+  @ManyToOne(() => Profile, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'profileId' })
+  profile: Relation<Profile>;
+}
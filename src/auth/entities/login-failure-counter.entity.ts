@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+// Failed sign-in attempts of an account or an IP within the failure window
+@Entity()
+export class LoginFailureCounter {
+  @PrimaryColumn()
+  key: string; // e.g. "account:jane@example.com" or "ip:203.0.113.7"
+
+  @Column({ type: 'int', default: 0 })
+  count: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  blockedUntil: Date | null;
+
+  @Index()
+  @Column({ type: 'timestamp' })
+  expiresAt: Date; // the counter starts over after this
+}
@@ -0,0 +1,30 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+@Entity()
+export class PasswordHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  hashedPassword: string; // bcrypt hash of a password the profile has used
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Index()
+  @Column()
+  profileId: number;
+
+  @ManyToOne(() => Profile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'profileId' })
+  profile: Relation<Profile>;
+}
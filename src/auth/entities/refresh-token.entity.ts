@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  Index,
+  JoinColumn,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+@Entity()
+export class RefreshToken {
+  // The id doubles as the `jti` claim of the signed refresh token
+  @PrimaryColumn('uuid')
+  id: string;
+
+  // Every token minted by rotating a sign-in belongs to the same family
+  @Index()
+  @Column('uuid')
+  familyId: string;
+
+  @Column()
+  hashedToken: string; // sha256 of the signed token
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  usedAt: Date | null; // set when the token is rotated (single-use)
+
+  @Column({ type: 'uuid', nullable: true, default: null })
+  replacedById: string | null;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  revokedAt: Date | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column()
+  profileId: number;
+
+  @ManyToOne(() => Profile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'profileId' })
+  profile: Relation<Profile>;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+@Entity()
+export class Session {
+  // The session id is also the family id of the refresh tokens it issues
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ nullable: true })
+  deviceLabel: string; // e.g. "Work laptop"
+
+  @Column({ type: 'text', nullable: true })
+  userAgent: string | null;
+
+  @Column({ nullable: true })
+  ipAddress: string;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  lastUsedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  revokedAt: Date | null;
+
+  @Index()
+  @Column()
+  profileId: number;
+
+  @ManyToOne(() => Profile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'profileId' })
+  profile: Relation<Profile>;
+}
@@ -0,0 +1,27 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+@Entity()
+export class SigningKey {
+  @PrimaryColumn('uuid')
+  kid: string; // sent in the "kid" header of every token signed with this key
+
+  @Column({ type: 'varchar' })
+  algorithm: SigningAlgorithm;
+
+  @Column({ type: 'text' })
+  publicKey: string; // PEM (spki)
+
+  @Column({ type: 'text', select: false })
+  privateKey: string; // PEM (pkcs8), encrypted with JWT_SIGNING_KEY_ENCRYPTION_KEY
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  retiredAt: Date | null; // no longer used for signing, still verifies until verifyUntil
+
+  @Column({ type: 'timestamp', nullable: true })
+  verifyUntil: Date | null; // end of the grace period after retirement
+}
@@ -1,23 +1,29 @@
-import { ExecutionContext, Injectable } from '@nestjs/common';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
-import { Observable } from 'rxjs';
+import { Request } from 'express';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { JWTPayload } from '../strategies/at.strategy';
 
 /*
 - Purpose: Protects routes from unauthorized access
-- How it works: Intercepts requests and uses the access token strategy to validate before allowing the request to proceed
+- How it works: Intercepts requests and uses the access token strategy to validate before allowing the request to proceed.
+  Integrations can authenticate with an X-API-Key header instead, handled by the api-key strategy. API keys are only
+  accepted on routes guarded by @RequirePermissions(), never on the caller's own account routes (sessions, 2FA, ...)
 - Applied globally to all routes by default
 */
 
 @Injectable()
-export class AtGuard extends AuthGuard('jwt-at') {
+export class AtGuard extends AuthGuard(['jwt-at', 'api-key']) {
   constructor(private reflector: Reflector) {
     super();
   }
 
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
       context.getHandler(),
       context.getClass(),
@@ -27,6 +33,18 @@ export class AtGuard extends AuthGuard('jwt-at') {
       return true;
     }
 
-    return super.canActivate(context);
+    await super.canActivate(context);
+
+    const user = context
+      .switchToHttp()
+      .getRequest<Request & { user?: JWTPayload }>().user;
+    const requiresPermissions = this.reflector.getAllAndOverride<unknown[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (user?.apiKeyId && !requiresPermissions?.length) {
+      throw new ForbiddenException('API keys cannot be used on this route');
+    }
+    return true;
   }
 }
@@ -0,0 +1,57 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import {
+  CSRF_TOKEN_COOKIE,
+  CSRF_TOKEN_HEADER,
+  readCookie,
+  usesAuthCookies,
+} from '../utils/auth-cookies.util';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/*
+- Purpose: Protects cookie-authenticated requests from cross-site request forgery
+- How it works: Double-submit check. A state-changing request that authenticates with the auth cookies must send
+  the value of the csrf_token cookie in the X-CSRF-Token header; another site can make the browser send the
+  cookies but cannot read them to set the header. Bearer and API key requests and public routes are not affected.
+- Applied globally to all routes
+*/
+@Injectable()
+export class CsrfGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (
+      isPublic ||
+      SAFE_METHODS.includes(request.method) ||
+      !usesAuthCookies(request)
+    ) {
+      return true;
+    }
+
+    const cookieToken = Buffer.from(
+      readCookie(request, CSRF_TOKEN_COOKIE) ?? '',
+    );
+    const headerToken = Buffer.from(request.get(CSRF_TOKEN_HEADER) ?? '');
+    if (
+      !cookieToken.length ||
+      cookieToken.length !== headerToken.length ||
+      !timingSafeEqual(cookieToken, headerToken)
+    ) {
+      throw new ForbiddenException('Invalid or missing CSRF token');
+    }
+    return true;
+  }
+}
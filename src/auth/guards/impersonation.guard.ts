@@ -0,0 +1,75 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { BLOCK_WHILE_IMPERSONATING_KEY } from '../decorators/block-while-impersonating.decorator';
+import { getClientInfo } from '../decorators/client-info.decorator';
+import { JWTPayload } from '../strategies/at.strategy';
+import { AuditService } from 'src/audit/audit.service';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/*
+- Purpose: Limits and records what an admin does while impersonating another profile
+- How it works: Registered globally after AtGuard, so request.user is set. Requests made with an impersonation
+  token (one with an "act" claim) are written to the audit log with their final status once the response is sent,
+  including ones refused by later guards. DELETE requests and routes marked @BlockWhileImpersonating() are refused
+  with a 403; other state-changing requests go through but are flagged in the log.
+*/
+@Injectable()
+export class ImpersonationGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: JWTPayload }>();
+    const user = request.user;
+    if (!user?.act) {
+      return true;
+    }
+
+    const blocked =
+      request.method === 'DELETE' ||
+      !!this.reflector.getAllAndOverride<boolean>(
+        BLOCK_WHILE_IMPERSONATING_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+
+    const response = context.switchToHttp().getResponse<Response>();
+    const client = getClientInfo(request);
+    const actorId = user.act.sub;
+    response.once('finish', () => {
+      this.auditService
+        .record({
+          event: 'impersonated-request',
+          actorId,
+          subjectId: user.sub,
+          method: request.method,
+          path: request.originalUrl,
+          statusCode: response.statusCode,
+          flagged: !SAFE_METHODS.includes(request.method),
+          blocked,
+          ipAddress: client.ipAddress,
+          userAgent: client.userAgent,
+        })
+        .catch((error) =>
+          console.error('Failed to write the audit log', error),
+        );
+    });
+
+    if (blocked) {
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating',
+      );
+    }
+    return true;
+  }
+}
@@ -1,3 +1,7 @@
 export * from './at.guard';
 export * from './rt.guard';
 export * from './roles.guard';
+export * from './permissions.guard';
+export * from './policies.guard';
+export * from './impersonation.guard';
+export * from './csrf.guard';
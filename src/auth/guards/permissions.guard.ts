@@ -0,0 +1,64 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission } from '../../permissions/permission.enum';
+import { PermissionsService } from '../../permissions/permissions.service';
+import { JWTPayload } from '../strategies/at.strategy';
+
+interface UserRequest extends Request {
+  user?: JWTPayload;
+}
+
+/*
+- Purpose: Checks the permissions required by @RequirePermissions() against the caller's role
+- How it works: The role comes from the verified access token (sign-in already downgrades unverified
+  accounts to GUEST, and role changes revoke older tokens), and the role -> permission mapping is read
+  through PermissionsService's cache, so no database query is made per request. API keys are further
+  limited to the permissions they were scoped to.
+*/
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true; // No permissions required, allow access
+    }
+    const user = context.switchToHttp().getRequest<UserRequest>().user;
+
+    // API keys may be scoped to a subset of their role's permissions
+    const withinScope =
+      !user?.permissions ||
+      requiredPermissions.every((permission) =>
+        user.permissions?.includes(permission),
+      );
+
+    if (
+      !user ||
+      !withinScope ||
+      !(await this.permissionsService.hasPermissions(
+        user.role,
+        requiredPermissions,
+      ))
+    ) {
+      throw new ForbiddenException(
+        `Missing permission: ${requiredPermissions.join(', ')}`,
+      );
+    }
+    return true;
+  }
+}
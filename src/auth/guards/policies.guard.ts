@@ -0,0 +1,51 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Type,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { POLICIES_KEY } from '../decorators/check-policies.decorator';
+import {
+  PolicyHandler,
+  PolicyRequest,
+} from '../../permissions/policies/policy-handler';
+
+/*
+- Purpose: Enforces resource ownership on top of the permission checks
+- How it works: Runs every policy listed with @CheckPolicies() against the request (JWT sub, route params
+  and body). Policies are providers of PermissionsModule and are resolved through the ModuleRef.
+  Any policy refusing the request ends it with a 403.
+*/
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private moduleRef: ModuleRef,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policies = this.reflector.getAllAndOverride<Type<PolicyHandler>[]>(
+      POLICIES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!policies || policies.length === 0) {
+      return true; // No policies, allow access
+    }
+    const request = context.switchToHttp().getRequest<PolicyRequest>();
+
+    if (!request.user) {
+      throw new ForbiddenException('You do not have access to this resource');
+    }
+
+    for (const policy of policies) {
+      const handler = this.moduleRef.get(policy, { strict: false });
+      if (!(await handler.handle(request))) {
+        throw new ForbiddenException('You do not have access to this resource');
+      }
+    }
+    return true;
+  }
+}
@@ -39,14 +39,19 @@ export class RolesGuard implements CanActivate {
     // Fetch the user's profile to get their role
     const userProfile = await this.profileRepository.findOne({
       where: { id: user.sub },
-      select: ['id', 'role'],
+      select: ['id', 'role', 'emailVerifiedAt'],
     });
 
     if (!userProfile) {
       return false; // User profile not found
     }
 
+    // Accounts with an unverified email only get GUEST capabilities
+    const userRole = userProfile.emailVerifiedAt
+      ? userProfile.role
+      : Role.GUEST;
+
     // Check if user's role is in the required roles
-    return requiredRoles.some((role) => userProfile.role === role);
+    return requiredRoles.some((role) => userRole === role);
   }
 }
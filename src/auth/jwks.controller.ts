@@ -0,0 +1,21 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Public } from './decorators';
+import { SigningKeysService } from './signing-keys.service';
+import { NoCache } from 'src/http-cache.interceptor';
+
+// Served outside the api/v1 prefix (see main.ts) at the standard location
+@ApiTags('auth')
+@NoCache() // a rotation must show up right away
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly signingKeysService: SigningKeysService) {}
+
+  // /.well-known/jwks.json
+  @Public()
+  @Header('Cache-Control', 'public, max-age=300')
+  @Get('jwks.json')
+  getJwks() {
+    return this.signingKeysService.getJwks();
+  }
+}
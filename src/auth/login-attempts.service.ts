@@ -0,0 +1,228 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  DataSource,
+  FindOptionsWhere,
+  In,
+  LessThan,
+  Repository,
+} from 'typeorm';
+import * as ms from 'ms';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { LoginFailureCounter } from './entities/login-failure-counter.entity';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { ClientInfo } from './decorators/client-info.decorator';
+
+export type LoginHistoryFilters = {
+  email?: string;
+  profileId?: number;
+  ipAddress?: string;
+  success?: boolean;
+  limit?: number;
+};
+
+/*
+- Purpose: Slows down credential stuffing and password guessing on /auth/signin
+- How it works: Failed attempts are counted per account (email) and per IP in the login_failure_counter table,
+  where each failure updates its counter under a row lock so parallel guesses cannot overwrite each other.
+  After LOGIN_FREE_ATTEMPTS failures each new failure blocks further attempts for an exponentially
+  growing delay (capped at LOGIN_BACKOFF_MAX). Reaching the lockout threshold locks the account or IP
+  for LOGIN_LOCKOUT_DURATION. Every attempt is also written to the login history table.
+*/
+@Injectable()
+export class LoginAttemptsService {
+  constructor(
+    @InjectRepository(LoginAttempt)
+    private loginAttemptRepository: Repository<LoginAttempt>,
+    @InjectRepository(LoginFailureCounter)
+    private counterRepository: Repository<LoginFailureCounter>,
+    @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    @InjectDataSource() private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to read a duration setting in milliseconds
+  private duration(key: string, defaultValue: ms.StringValue): number {
+    return ms(this.configService.get<ms.StringValue>(key, defaultValue));
+  }
+
+  // Helper method to read a numeric setting
+  private number(key: string, defaultValue: number): number {
+    return Number(this.configService.get<string>(key, String(defaultValue)));
+  }
+
+  private accountKey(email: string) {
+    return `account:${email.toLowerCase()}`;
+  }
+
+  private ipKey(ipAddress: string) {
+    return `ip:${ipAddress}`;
+  }
+
+  // Helper method to add a failure to a counter and work out how long it is blocked for.
+  // The counter row is locked for the transaction, so parallel failures are all counted
+  private async increment(key: string, lockoutThreshold: number) {
+    await this.dataSource.transaction(async (manager) => {
+      const now = new Date();
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(LoginFailureCounter)
+        .values({ key, count: 0, blockedUntil: null, expiresAt: now })
+        .orIgnore()
+        .execute();
+      const counter = await manager
+        .getRepository(LoginFailureCounter)
+        .createQueryBuilder('counter')
+        .where('counter.key = :key', { key })
+        .setLock('pessimistic_write')
+        .getOneOrFail();
+
+      if (counter.expiresAt <= now) {
+        counter.count = 0;
+        counter.blockedUntil = null;
+      }
+      counter.count += 1;
+
+      const freeAttempts = this.number('LOGIN_FREE_ATTEMPTS', 3);
+      if (counter.count >= lockoutThreshold) {
+        counter.blockedUntil = new Date(
+          now.getTime() + this.duration('LOGIN_LOCKOUT_DURATION', '15m'),
+        );
+      } else if (counter.count >= freeAttempts) {
+        const delay = Math.min(
+          this.duration('LOGIN_BACKOFF_BASE', '1s') *
+            2 ** (counter.count - freeAttempts),
+          this.duration('LOGIN_BACKOFF_MAX', '5m'),
+        );
+        counter.blockedUntil = new Date(now.getTime() + delay);
+      }
+
+      // the counter outlives its block so repeated failures keep escalating
+      counter.expiresAt = new Date(
+        Math.max(
+          now.getTime() + this.duration('LOGIN_FAILURE_WINDOW', '1h'),
+          counter.blockedUntil?.getTime() ?? 0,
+        ),
+      );
+      await manager.save(counter);
+    });
+  }
+
+  // Helper method to write an attempt to the login history
+  private async record(
+    email: string,
+    client: ClientInfo,
+    success: boolean,
+    reason: string | null,
+    profileId?: number,
+  ) {
+    await this.loginAttemptRepository.save({
+      email: email.toLowerCase(),
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      success,
+      reason,
+      profileId: profileId ?? null,
+    });
+  }
+
+  // Refuse the attempt while the account or the IP is backing off or locked out
+  async assertNotBlocked(email: string, client: ClientInfo): Promise<void> {
+    const counters = await this.counterRepository.findBy({
+      key: In([this.accountKey(email), this.ipKey(client.ipAddress)]),
+    });
+    const blockedUntil = Math.max(
+      0,
+      ...counters.map((counter) => counter.blockedUntil?.getTime() ?? 0),
+    );
+
+    if (blockedUntil > Date.now()) {
+      await this.record(email, client, false, 'blocked');
+      const retryAfter = Math.ceil((blockedUntil - Date.now()) / 1000);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: `Too many failed sign-in attempts. Try again in ${retryAfter} seconds`,
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  // Count a failed attempt against the account and the IP
+  async recordFailure(
+    email: string,
+    client: ClientInfo,
+    reason: string,
+    profileId?: number,
+  ): Promise<void> {
+    await Promise.all([
+      this.increment(
+        this.accountKey(email),
+        this.number('LOGIN_LOCKOUT_THRESHOLD', 10),
+      ),
+      this.increment(
+        this.ipKey(client.ipAddress),
+        this.number('LOGIN_IP_LOCKOUT_THRESHOLD', 50),
+      ),
+      this.record(email, client, false, reason, profileId),
+    ]);
+    // drop counters whose window has passed so the table does not keep every address ever seen
+    await this.counterRepository.delete({ expiresAt: LessThan(new Date()) });
+  }
+
+  // Record a completed sign-in and clear the account's failures
+  async recordSuccess(
+    email: string,
+    client: ClientInfo,
+    profileId: number,
+  ): Promise<void> {
+    await Promise.all([
+      this.counterRepository.delete({ key: this.accountKey(email) }),
+      this.record(email, client, true, null, profileId),
+    ]);
+  }
+
+  // Method for admins to lift an account lockout (and optionally an IP lockout)
+  async unlock(profileId: number, ipAddress?: string) {
+    const profile = await this.profileRepository.findOne({
+      where: { id: profileId },
+      select: ['id', 'email'],
+    });
+    if (!profile) {
+      throw new NotFoundException(`User with ID ${profileId} not found`);
+    }
+
+    await this.counterRepository.delete({
+      key: In(
+        ipAddress
+          ? [this.accountKey(profile.email), this.ipKey(ipAddress)]
+          : [this.accountKey(profile.email)],
+      ),
+    });
+    return { message: `User with id : ${profileId} unlocked successfully` };
+  }
+
+  // Method to query the login history, newest first
+  async findHistory(filters: LoginHistoryFilters): Promise<LoginAttempt[]> {
+    const where: FindOptionsWhere<LoginAttempt> = {};
+    if (filters.email) where.email = filters.email.toLowerCase();
+    if (filters.profileId) where.profileId = filters.profileId;
+    if (filters.ipAddress) where.ipAddress = filters.ipAddress;
+    if (filters.success !== undefined) where.success = filters.success;
+
+    return this.loginAttemptRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: Math.min(filters.limit ?? 100, 500),
+    });
+  }
+}
@@ -0,0 +1,212 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, Repository } from 'typeorm';
+import * as Bcrypt from 'bcrypt';
+import * as ms from 'ms';
+import { PasswordHistory } from './entities/password-history.entity';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { COMMON_PASSWORDS } from './utils/common-passwords';
+
+export type CharacterClass = 'lowercase' | 'uppercase' | 'digit' | 'symbol';
+
+const CHARACTER_CLASSES: Record<CharacterClass, RegExp> = {
+  lowercase: /\p{Ll}/u,
+  uppercase: /\p{Lu}/u,
+  digit: /\p{Nd}/u,
+  symbol: /[^\p{L}\p{Nd}]/u,
+};
+
+export type PasswordPolicyViolation = {
+  rule: string;
+  message: string;
+};
+
+// The personal details a password must not contain
+export type PasswordOwner = {
+  firstName?: string | null;
+  lastName?: string | null;
+  email?: string | null;
+};
+
+/*
+- Purpose: Keeps weak and recycled passwords out, wherever a password is set
+- How it works: New passwords are checked against PASSWORD_MIN_LENGTH, the character classes in
+  PASSWORD_REQUIRED_CHARACTER_CLASSES, a bundled list of common passwords and the owner's name and email.
+  Every password set is kept (hashed) in the password history so the last PASSWORD_HISTORY_SIZE passwords
+  cannot be reused. With PASSWORD_MAX_AGE set, older passwords have to be changed at the next sign-in.
+  Violations are reported together as a 400 with a list of { rule, message }.
+*/
+@Injectable()
+export class PasswordPolicyService {
+  constructor(
+    @InjectRepository(PasswordHistory)
+    private passwordHistoryRepository: Repository<PasswordHistory>,
+    @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to read a numeric setting
+  private number(key: string, defaultValue: number): number {
+    return Number(this.configService.get<string>(key, String(defaultValue)));
+  }
+
+  // The active policy, so clients can show the rules before the user types a password
+  getPolicy() {
+    const maxAge = this.configService.get<string>('PASSWORD_MAX_AGE');
+    return {
+      minLength: this.number('PASSWORD_MIN_LENGTH', 12),
+      requiredCharacterClasses: this.requiredCharacterClasses(),
+      rejectsCommonPasswords: true,
+      rejectsPersonalDetails: true,
+      historySize: this.number('PASSWORD_HISTORY_SIZE', 5),
+      maxAge: maxAge || null,
+    };
+  }
+
+  // Helper method to read PASSWORD_REQUIRED_CHARACTER_CLASSES (a comma separated list)
+  private requiredCharacterClasses(): CharacterClass[] {
+    return this.configService
+      .get<string>(
+        'PASSWORD_REQUIRED_CHARACTER_CLASSES',
+        'lowercase,uppercase,digit',
+      )
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name): name is CharacterClass => name in CHARACTER_CLASSES);
+  }
+
+  // The rules a password breaks, without the history check
+  validate(password: string, owner: PasswordOwner): PasswordPolicyViolation[] {
+    const violations: PasswordPolicyViolation[] = [];
+
+    const minLength = this.number('PASSWORD_MIN_LENGTH', 12);
+    if ([...password].length < minLength) {
+      violations.push({
+        rule: 'min-length',
+        message: `Password must be at least ${minLength} characters long`,
+      });
+    }
+
+    for (const name of this.requiredCharacterClasses()) {
+      if (!CHARACTER_CLASSES[name].test(password)) {
+        violations.push({
+          rule: `character-class:${name}`,
+          message: `Password must contain at least one ${name} character`,
+        });
+      }
+    }
+
+    const normalized = password.toLowerCase();
+    if (COMMON_PASSWORDS.has(normalized)) {
+      violations.push({
+        rule: 'common-password',
+        message: 'Password is too common',
+      });
+    }
+
+    // names and the email's local part, ignoring fragments too short to matter
+    const personalDetails = [
+      owner.firstName,
+      owner.lastName,
+      owner.email?.split('@')[0],
+    ]
+      .map((detail) => detail?.trim().toLowerCase())
+      .filter((detail): detail is string => !!detail && detail.length >= 3);
+    if (personalDetails.some((detail) => normalized.includes(detail))) {
+      violations.push({
+        rule: 'personal-details',
+        message: 'Password must not contain your name or email address',
+      });
+    }
+
+    return violations;
+  }
+
+  // Helper method to check a password against the profile's current and previous passwords
+  private async isReused(password: string, profileId: number) {
+    const historySize = this.number('PASSWORD_HISTORY_SIZE', 5);
+    if (historySize <= 0) {
+      return false;
+    }
+    const [profile, history] = await Promise.all([
+      this.profileRepository.findOne({
+        where: { id: profileId },
+        select: ['id', 'password'],
+      }),
+      this.passwordHistoryRepository.find({
+        where: { profileId },
+        order: { createdAt: 'DESC', id: 'DESC' },
+        take: historySize,
+      }),
+    ]);
+    // the current password counts too (profiles created before the history existed have no entries)
+    const hashes = new Set(history.map((entry) => entry.hashedPassword));
+    if (profile) hashes.add(profile.password);
+
+    for (const hash of hashes) {
+      if (await Bcrypt.compare(password, hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Check a new password and return its hash. Pass the profile id for an existing profile to enforce the history
+  async hashNewPassword(
+    password: string,
+    owner: PasswordOwner,
+    profileId?: number,
+  ): Promise<string> {
+    const violations = this.validate(password, owner);
+    if (profileId && (await this.isReused(password, profileId))) {
+      violations.push({
+        rule: 'history',
+        message: `Password must differ from your last ${this.number('PASSWORD_HISTORY_SIZE', 5)} passwords`,
+      });
+    }
+    if (violations.length) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'Password does not meet the password policy',
+        violations,
+      });
+    }
+
+    const salt = await Bcrypt.genSalt(10);
+    return Bcrypt.hash(password, salt);
+  }
+
+  // Add a newly set password to the history and drop entries beyond PASSWORD_HISTORY_SIZE
+  async remember(
+    profileId: number,
+    hashedPassword: string,
+    manager: EntityManager = this.passwordHistoryRepository.manager,
+  ): Promise<void> {
+    await manager.save(PasswordHistory, { profileId, hashedPassword });
+
+    const historySize = Math.max(this.number('PASSWORD_HISTORY_SIZE', 5), 1);
+    const stale = await manager.find(PasswordHistory, {
+      where: { profileId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: historySize,
+      select: ['id'],
+    });
+    if (stale.length) {
+      await manager.delete(
+        PasswordHistory,
+        stale.map((entry) => entry.id),
+      );
+    }
+  }
+
+  // Whether a password set at this time is past PASSWORD_MAX_AGE and has to be changed
+  isExpired(passwordChangedAt: Date | null | undefined): boolean {
+    const maxAge = this.configService.get<ms.StringValue>('PASSWORD_MAX_AGE');
+    if (!maxAge || !passwordChangedAt) {
+      return false;
+    }
+    return passwordChangedAt.getTime() + ms(maxAge) < Date.now();
+  }
+}
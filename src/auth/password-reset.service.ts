@@ -0,0 +1,126 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import * as ms from 'ms';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { SessionsService } from './sessions.service';
+import { MailService } from 'src/mail/mail.service';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { PasswordPolicyService } from './password-policy.service';
+
+/*
+- Purpose: Lets a user recover their account without an admin
+- How it works: A random one-time token is emailed to the user while only its sha256 hash is stored.
+  The token expires after PASSWORD_RESET_TOKEN_EXPIRATION_TIME and can be used once. A successful
+  reset signs the user out of every session.
+*/
+@Injectable()
+export class PasswordResetService {
+  constructor(
+    @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    @InjectRepository(PasswordResetToken)
+    private passwordResetTokenRepository: Repository<PasswordResetToken>,
+    private sessionsService: SessionsService,
+    private mailService: MailService,
+    private configService: ConfigService,
+    private passwordPolicyService: PasswordPolicyService,
+  ) {}
+
+  // Helper method to hash a reset token before it is stored or looked up
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Method to email a reset link. The response never reveals whether the email is registered
+  async forgotPassword(forgotPasswordDto: ForgotPasswordDto) {
+    const message =
+      'If an account exists for this email, a password reset link has been sent';
+
+    const foundUser = await this.profileRepository.findOne({
+      where: { email: forgotPasswordDto.email },
+      select: ['id', 'email', 'firstName'],
+    });
+    if (!foundUser) {
+      return { message };
+    }
+
+    // only the most recent link stays usable
+    await this.passwordResetTokenRepository.update(
+      { profileId: foundUser.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = randomBytes(32).toString('hex');
+    const ttl = ms(
+      this.configService.get<ms.StringValue>(
+        'PASSWORD_RESET_TOKEN_EXPIRATION_TIME',
+        '1h',
+      ),
+    );
+    await this.passwordResetTokenRepository.save({
+      profileId: foundUser.id,
+      hashedToken: this.hashToken(token),
+      expiresAt: new Date(Date.now() + ttl),
+    });
+
+    const resetUrl = `${this.configService.getOrThrow<string>('APP_FRONTEND_URL')}/reset-password?token=${token}`;
+    await this.mailService.sendPasswordReset(
+      foundUser.email,
+      foundUser.firstName,
+      resetUrl,
+    );
+
+    return { message };
+  }
+
+  // Method to set a new password using a reset token
+  async resetPassword(resetPasswordDto: ResetPasswordDto) {
+    const foundToken = await this.passwordResetTokenRepository.findOne({
+      where: { hashedToken: this.hashToken(resetPasswordDto.token) },
+      relations: ['profile'],
+    });
+
+    // check the password before the token is used up, so a rejected password can be retried with the same link
+    const hashedPassword = foundToken
+      ? await this.passwordPolicyService.hashNewPassword(
+          resetPasswordDto.password,
+          foundToken.profile,
+          foundToken.profileId,
+        )
+      : undefined;
+
+    // claim the token; the conditional update makes it single-use even under concurrent requests
+    const claimed = foundToken
+      ? await this.passwordResetTokenRepository.update(
+          {
+            id: foundToken.id,
+            usedAt: IsNull(),
+            expiresAt: MoreThan(new Date()),
+          },
+          { usedAt: new Date() },
+        )
+      : undefined;
+
+    if (!foundToken || !hashedPassword || !claimed || claimed.affected === 0) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.profileRepository.update(foundToken.profileId, {
+      password: hashedPassword,
+      passwordChangedAt: new Date(),
+    });
+    await this.passwordPolicyService.remember(
+      foundToken.profileId,
+      hashedPassword,
+    );
+
+    // invalidate every refresh token (and access token) issued before the reset
+    await this.sessionsService.revokeAll(foundToken.profileId);
+
+    return { message: 'Password has been reset successfully' };
+  }
+}
@@ -0,0 +1,175 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { Session } from './entities/session.entity';
+import { LogsService } from 'src/my-logs/logs.service';
+import { TokenDenylistService } from './token-denylist.service';
+
+const hash = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+describe('RefreshTokensService', () => {
+  let service: RefreshTokensService;
+  const refreshTokenRepository = {
+    save: jest.fn(),
+    findOneBy: jest.fn(),
+    update: jest.fn(),
+  };
+  const sessionRepository = { update: jest.fn() };
+  const logsService = { logToFile: jest.fn() };
+  const tokenDenylistService = {
+    denySession: jest.fn(),
+    denyAllForProfile: jest.fn(),
+  };
+
+  const storedToken = (overrides: Partial<RefreshToken> = {}) =>
+    ({
+      id: 'token-1',
+      familyId: 'family-1',
+      profileId: 7,
+      hashedToken: hash('signed-token'),
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: null,
+      revokedAt: null,
+      ...overrides,
+    }) as RefreshToken;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    refreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+    sessionRepository.update.mockResolvedValue({ affected: 1 });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RefreshTokensService,
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: refreshTokenRepository,
+        },
+        { provide: getRepositoryToken(Session), useValue: sessionRepository },
+        { provide: LogsService, useValue: logsService },
+        { provide: TokenDenylistService, useValue: tokenDenylistService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RefreshTokensService);
+  });
+
+  describe('store', () => {
+    it('saves a hash of the token, never the token itself', async () => {
+      const expiresAt = new Date();
+      await service.store('token-1', 'family-1', 7, 'signed-token', expiresAt);
+
+      expect(refreshTokenRepository.save).toHaveBeenCalledWith({
+        id: 'token-1',
+        familyId: 'family-1',
+        profileId: 7,
+        hashedToken: hash('signed-token'),
+        expiresAt,
+      });
+    });
+  });
+
+  describe('validate', () => {
+    it('returns the current member of a family', async () => {
+      const token = storedToken();
+      refreshTokenRepository.findOneBy.mockResolvedValue(token);
+
+      await expect(
+        service.validate('token-1', 7, 'signed-token'),
+      ).resolves.toBe(token);
+      expect(sessionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token that does not match the stored hash or profile', async () => {
+      refreshTokenRepository.findOneBy.mockResolvedValue(storedToken());
+
+      await expect(
+        service.validate('token-1', 7, 'another-token'),
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.validate('token-1', 8, 'signed-token'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(tokenDenylistService.denySession).not.toHaveBeenCalled();
+    });
+
+    it('rejects an expired token', async () => {
+      refreshTokenRepository.findOneBy.mockResolvedValue(
+        storedToken({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(
+        service.validate('token-1', 7, 'signed-token'),
+      ).rejects.toThrow('Refresh token expired');
+    });
+
+    it('revokes the whole family when a used token is presented again', async () => {
+      refreshTokenRepository.findOneBy.mockResolvedValue(
+        storedToken({ usedAt: new Date() }),
+      );
+
+      await expect(
+        service.validate('token-1', 7, 'signed-token'),
+      ).rejects.toThrow('Refresh token has already been used');
+      expect(refreshTokenRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ familyId: 'family-1' }),
+        { revokedAt: expect.any(Date) as Date },
+      );
+      expect(sessionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'family-1' }),
+        { revokedAt: expect.any(Date) as Date },
+      );
+      expect(tokenDenylistService.denySession).toHaveBeenCalledWith('family-1');
+      expect(logsService.logToFile).toHaveBeenCalledWith(
+        expect.stringContaining('refresh token reuse detected'),
+      );
+    });
+
+    it('revokes the whole family when a revoked token is presented again', async () => {
+      refreshTokenRepository.findOneBy.mockResolvedValue(
+        storedToken({ revokedAt: new Date() }),
+      );
+
+      await expect(
+        service.validate('token-1', 7, 'signed-token'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(tokenDenylistService.denySession).toHaveBeenCalledWith('family-1');
+    });
+  });
+
+  describe('markUsed', () => {
+    it('marks an unused token as replaced by its successor', async () => {
+      await service.markUsed(storedToken(), 'token-2');
+
+      expect(refreshTokenRepository.update).toHaveBeenCalledTimes(1);
+      expect(refreshTokenRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'token-1' }),
+        { usedAt: expect.any(Date) as Date, replacedById: 'token-2' },
+      );
+      expect(tokenDenylistService.denySession).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent rotation as reuse', async () => {
+      refreshTokenRepository.update
+        .mockResolvedValueOnce({ affected: 0 })
+        .mockResolvedValue({ affected: 1 });
+
+      await expect(service.markUsed(storedToken(), 'token-3')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(tokenDenylistService.denySession).toHaveBeenCalledWith('family-1');
+    });
+  });
+
+  describe('revokeAllForProfile', () => {
+    it('ends every session of the profile and returns how many', async () => {
+      sessionRepository.update.mockResolvedValue({ affected: 3 });
+
+      await expect(service.revokeAllForProfile(7)).resolves.toBe(3);
+      expect(tokenDenylistService.denyAllForProfile).toHaveBeenCalledWith(7);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { Session } from './entities/session.entity';
+import { LogsService } from 'src/my-logs/logs.service';
+import { TokenDenylistService } from './token-denylist.service';
+
+/*
+- Purpose: Persistent store for issued refresh tokens
+- How it works: Each refresh token is saved under its `jti` and belongs to a family started at sign-in
+  (the family id is the id of the Session created by that sign-in).
+  Tokens are single-use: rotating one marks it used. Presenting a used or revoked token again is treated
+  as a replay, so the whole family is revoked and a security event is logged.
+*/
+@Injectable()
+export class RefreshTokensService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    @InjectRepository(Session) private sessionRepository: Repository<Session>,
+    private logsService: LogsService,
+    private tokenDenylistService: TokenDenylistService,
+  ) {}
+
+  // Helper method to hash a token before it is stored or compared
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Save a freshly signed refresh token
+  async store(
+    id: string,
+    familyId: string,
+    profileId: number,
+    token: string,
+    expiresAt: Date,
+  ): Promise<RefreshToken> {
+    return this.refreshTokenRepository.save({
+      id,
+      familyId,
+      profileId,
+      hashedToken: this.hashToken(token),
+      expiresAt,
+    });
+  }
+
+  // Check that a presented refresh token is the current, unused member of its family
+  async validate(
+    id: string,
+    profileId: number,
+    token: string,
+  ): Promise<RefreshToken> {
+    const found = await this.refreshTokenRepository.findOneBy({ id });
+
+    if (
+      !found ||
+      found.profileId !== profileId ||
+      found.hashedToken !== this.hashToken(token)
+    ) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (found.usedAt || found.revokedAt) {
+      await this.handleReuse(found);
+    }
+
+    if (found.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    return found;
+  }
+
+  // Mark a token as used. The conditional update makes concurrent rotations of the same token lose
+  async markUsed(
+    token: Pick<RefreshToken, 'id' | 'familyId' | 'profileId'>,
+    replacedById: string,
+  ): Promise<void> {
+    const res = await this.refreshTokenRepository.update(
+      { id: token.id, usedAt: IsNull(), revokedAt: IsNull() },
+      { usedAt: new Date(), replacedById },
+    );
+
+    if (res.affected === 0) {
+      await this.handleReuse(token);
+    }
+  }
+
+  // Revoke every token in a family, ending the session it belongs to along with its access tokens
+  async revokeFamily(familyId: string): Promise<void> {
+    const revokedAt = new Date();
+    await this.refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt },
+    );
+    await this.sessionRepository.update(
+      { id: familyId, revokedAt: IsNull() },
+      { revokedAt },
+    );
+    await this.tokenDenylistService.denySession(familyId);
+  }
+
+  // Revoke every token issued to a profile, ending all of its sessions. Returns the number of sessions ended
+  async revokeAllForProfile(profileId: number): Promise<number> {
+    const revokedAt = new Date();
+    await this.refreshTokenRepository.update(
+      { profileId, revokedAt: IsNull() },
+      { revokedAt },
+    );
+    const res = await this.sessionRepository.update(
+      { profileId, revokedAt: IsNull() },
+      { revokedAt },
+    );
+    await this.tokenDenylistService.denyAllForProfile(profileId);
+    return res.affected ?? 0;
+  }
+
+  // A rotated or revoked token was presented again: kill the family and record it
+  private async handleReuse(
+    token: Pick<RefreshToken, 'id' | 'familyId' | 'profileId'>,
+  ): Promise<never> {
+    await this.revokeFamily(token.familyId);
+    await this.logsService.logToFile(
+      `SECURITY: refresh token reuse detected - profile ${token.profileId}, token ${token.id}, family ${token.familyId} revoked`,
+    );
+    throw new UnauthorizedException('Refresh token has already been used');
+  }
+}
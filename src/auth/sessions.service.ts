@@ -0,0 +1,74 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Session } from './entities/session.entity';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { ClientInfo } from './decorators/client-info.decorator';
+
+/*
+- Purpose: Tracks one session per sign-in so a user can stay signed in on several devices
+- How it works: A session is created at sign-in and its id is used as the refresh token family.
+  Revoking a session revokes that family, which leaves the user's other devices signed in.
+*/
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(Session) private sessionRepository: Repository<Session>,
+    private refreshTokensService: RefreshTokensService,
+  ) {}
+
+  // Start a new session for a successful sign-in
+  async create(
+    profileId: number,
+    client: ClientInfo,
+    deviceLabel?: string,
+  ): Promise<Session> {
+    const newSession = this.sessionRepository.create({
+      profileId,
+      deviceLabel,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+    });
+    return this.sessionRepository.save(newSession);
+  }
+
+  // Record activity on a session when its refresh token is rotated
+  async touch(sessionId: string): Promise<void> {
+    await this.sessionRepository.update(sessionId, { lastUsedAt: new Date() });
+  }
+
+  // List the active sessions of a profile, most recently used first
+  async findActive(profileId: number, currentSessionId?: string) {
+    const sessions = await this.sessionRepository.find({
+      where: { profileId, revokedAt: IsNull() },
+      order: { lastUsedAt: 'DESC' },
+    });
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  // Revoke a single session of a profile
+  async revoke(profileId: number, sessionId: string) {
+    const found = await this.sessionRepository.existsBy({
+      id: sessionId,
+      profileId,
+      revokedAt: IsNull(),
+    });
+    if (!found) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+    await this.refreshTokensService.revokeFamily(sessionId);
+    return { message: `Session with id : ${sessionId} revoked successfully` };
+  }
+
+  // Revoke every session of a profile
+  async revokeAll(profileId: number) {
+    const revoked =
+      await this.refreshTokensService.revokeAllForProfile(profileId);
+    return {
+      message: `${revoked} session(s) revoked for user with id : ${profileId}`,
+    };
+  }
+}
@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import {
+  createPublicKey,
+  generateKeyPair,
+  JsonWebKey,
+  randomUUID,
+} from 'crypto';
+import { SecretOrKeyProvider } from 'passport-jwt';
+import * as ms from 'ms';
+import { SigningAlgorithm, SigningKey } from './entities/signing-key.entity';
+import { decryptSecret, encryptSecret } from './utils/secret-box.util';
+
+type ActiveSigningKey = {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: string; // decrypted PEM
+  createdAt: Date;
+};
+
+export type Jwk = JsonWebKey & {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+};
+
+// How long a loaded key ring is trusted before it is re-read (picks up rotations done by other instances)
+const KEY_RING_REFRESH_INTERVAL = 60 * 1000;
+
+// Transaction level advisory lock that serializes rotations across instances
+const ROTATION_LOCK_ID = 7263011;
+
+/*
+- Purpose: Key ring for the asymmetric (RS256/ES256) signatures of access and refresh tokens
+- How it works: Key pairs are stored in the signing_key table with the private half encrypted. The newest
+  key without retiredAt signs new tokens and its kid goes into the token header. Rotating retires the
+  current key, which keeps verifying for JWT_SIGNING_KEY_GRACE_PERIOD so tokens signed before the rotation
+  stay valid. The public keys are published at /.well-known/jwks.json for other services.
+*/
+@Injectable()
+export class SigningKeysService implements OnModuleInit {
+  private activeKey: ActiveSigningKey | null = null;
+  private publicKeys = new Map<string, SigningKey>();
+  private loadedAt = 0;
+  // Rotation started by this instance, awaited by callers that find the key due at the same time
+  private rotation: Promise<unknown> | null = null;
+
+  constructor(
+    @InjectRepository(SigningKey)
+    private signingKeyRepository: Repository<SigningKey>,
+    private configService: ConfigService,
+    private jwtService: JwtService,
+  ) {}
+
+  async onModuleInit() {
+    await this.loadKeyRing();
+    if (!this.activeKey) {
+      await this.rotateOnce(null);
+    }
+  }
+
+  // Helper method to get the passphrase private keys are encrypted with
+  private encryptionKey(): string {
+    return this.configService.getOrThrow<string>(
+      'JWT_SIGNING_KEY_ENCRYPTION_KEY',
+    );
+  }
+
+  // Helper method to read the configured signing algorithm
+  private algorithm(): SigningAlgorithm {
+    const algorithm = this.configService.get<string>(
+      'JWT_SIGNING_ALGORITHM',
+      'RS256',
+    );
+    if (algorithm !== 'RS256' && algorithm !== 'ES256') {
+      throw new Error(`Unsupported JWT_SIGNING_ALGORITHM ${algorithm}`);
+    }
+    return algorithm;
+  }
+
+  // Helper method to generate a PEM encoded key pair for an algorithm
+  private generateKeys(
+    algorithm: SigningAlgorithm,
+  ): Promise<{ publicKey: string; privateKey: string }> {
+    const encoding = {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    } as const;
+    return new Promise((resolve, reject) => {
+      const done = (
+        error: Error | null,
+        publicKey: string,
+        privateKey: string,
+      ) => (error ? reject(error) : resolve({ publicKey, privateKey }));
+      if (algorithm === 'RS256') {
+        generateKeyPair('rsa', { modulusLength: 2048, ...encoding }, done);
+      } else {
+        generateKeyPair('ec', { namedCurve: 'P-256', ...encoding }, done);
+      }
+    });
+  }
+
+  // Helper method to (re)load the keys that still verify from the database
+  private async loadKeyRing() {
+    const keys = await this.signingKeyRepository
+      .createQueryBuilder('key')
+      .addSelect('key.privateKey')
+      .where('key.verifyUntil IS NULL OR key.verifyUntil > :now', {
+        now: new Date(),
+      })
+      .orderBy('key.createdAt', 'DESC')
+      .getMany();
+
+    const active = keys.find((key) => !key.retiredAt);
+    this.activeKey = active
+      ? {
+          kid: active.kid,
+          algorithm: active.algorithm,
+          privateKey: decryptSecret(active.privateKey, this.encryptionKey()),
+          createdAt: active.createdAt,
+        }
+      : null;
+    this.publicKeys = new Map(keys.map((key) => [key.kid, key]));
+    this.loadedAt = Date.now();
+  }
+
+  // Helper method to re-read the key ring once it is older than the refresh interval
+  private async refreshIfStale() {
+    if (Date.now() - this.loadedAt > KEY_RING_REFRESH_INTERVAL) {
+      await this.loadKeyRing();
+    }
+  }
+
+  // The key new tokens are signed with. Rotates first when the key is older than JWT_SIGNING_KEY_ROTATION_INTERVAL
+  async getSigningKey(): Promise<ActiveSigningKey> {
+    await this.refreshIfStale();
+    const rotationInterval = this.configService.get<ms.StringValue>(
+      'JWT_SIGNING_KEY_ROTATION_INTERVAL',
+    );
+    if (
+      !this.activeKey ||
+      (rotationInterval &&
+        Date.now() - this.activeKey.createdAt.getTime() > ms(rotationInterval))
+    ) {
+      await this.rotateOnce(this.activeKey?.kid ?? null);
+    }
+    if (!this.activeKey) {
+      throw new Error('No active JWT signing key');
+    }
+    return this.activeKey;
+  }
+
+  // The public key (PEM) for a kid, or null when it is unknown or past its grace period
+  async getVerificationKey(kid: string): Promise<string | null> {
+    await this.refreshIfStale();
+    let key = this.publicKeys.get(kid);
+    if (!key) {
+      // the key may have been created by another instance since the last load
+      await this.loadKeyRing();
+      key = this.publicKeys.get(kid);
+    }
+    if (!key || (key.verifyUntil && key.verifyUntil <= new Date())) {
+      return null;
+    }
+    return key.publicKey;
+  }
+
+  // Helper method to read the "kid" header of a token without verifying it
+  private readKeyId(token: string): string | null {
+    try {
+      const [header] = token.split('.');
+      const { kid } = JSON.parse(
+        Buffer.from(header, 'base64url').toString(),
+      ) as { kid?: unknown };
+      return typeof kid === 'string' ? kid : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Options for JwtService.signAsync that sign with the active key and put its kid in the header
+  async getSignOptions() {
+    const signingKey = await this.getSigningKey();
+    return {
+      privateKey: signingKey.privateKey,
+      algorithm: signingKey.algorithm,
+      keyid: signingKey.kid,
+    };
+  }
+
+  // Verify a token signed by the key ring (for tokens that are not checked by a passport strategy)
+  async verify<T extends object>(
+    token: string,
+    options: { audience?: string; issuer?: string } = {},
+  ): Promise<T> {
+    const kid = this.readKeyId(token);
+    const publicKey = kid ? await this.getVerificationKey(kid) : null;
+    if (!publicKey) {
+      throw new UnauthorizedException('Unknown or expired signing key');
+    }
+    try {
+      return await this.jwtService.verifyAsync<T>(token, {
+        publicKey,
+        algorithms: ['RS256', 'ES256'],
+        ...options,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+  }
+
+  // passport-jwt key provider: picks the public key named by the token's "kid" header
+  secretOrKeyProvider: SecretOrKeyProvider = (_request, rawJwtToken, done) => {
+    const kid = this.readKeyId(String(rawJwtToken));
+    if (!kid) {
+      return done(new UnauthorizedException('Token has no key id'));
+    }
+    this.getVerificationKey(kid)
+      .then((publicKey) =>
+        publicKey
+          ? done(null, publicKey)
+          : done(new UnauthorizedException('Unknown or expired signing key')),
+      )
+      .catch((error) => done(error));
+  };
+
+  // The JSON Web Key Set of every key that still verifies
+  async getJwks(): Promise<{ keys: Jwk[] }> {
+    await this.refreshIfStale();
+    return {
+      keys: [...this.publicKeys.values()].map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  // Helper method to rotate a key that is due, sharing a rotation that is already running in this instance
+  private rotateOnce(replacingKid: string | null) {
+    this.rotation ??= this.rotate(replacingKid).finally(() => {
+      this.rotation = null;
+    });
+    return this.rotation;
+  }
+
+  /*
+  Create a new signing key and retire the current one (it keeps verifying during the grace period).
+  Rotations are serialized with an advisory lock. With replacingKid (automatic rotation) nothing is
+  created when the active key is no longer that key, because another request or instance already rotated it.
+  */
+  async rotate(replacingKid?: string | null) {
+    let algorithm = this.algorithm();
+    const { publicKey, privateKey } = await this.generateKeys(algorithm);
+    const now = new Date();
+    const verifyUntil = new Date(
+      now.getTime() +
+        ms(
+          this.configService.get<ms.StringValue>(
+            'JWT_SIGNING_KEY_GRACE_PERIOD',
+            '7d',
+          ),
+        ),
+    );
+    let kid: string = randomUUID();
+    let createdAt = now;
+
+    await this.signingKeyRepository.manager.transaction(async (manager) => {
+      await manager.query('SELECT pg_advisory_xact_lock($1)', [
+        ROTATION_LOCK_ID,
+      ]);
+      const current = await manager.findOne(SigningKey, {
+        where: { retiredAt: IsNull() },
+        order: { createdAt: 'DESC' },
+      });
+      if (
+        replacingKid !== undefined &&
+        current &&
+        current.kid !== replacingKid
+      ) {
+        ({ kid, algorithm, createdAt } = current);
+        return;
+      }
+      await manager.update(
+        SigningKey,
+        { retiredAt: IsNull() },
+        { retiredAt: now, verifyUntil },
+      );
+      await manager.save(SigningKey, {
+        kid,
+        algorithm,
+        publicKey,
+        privateKey: encryptSecret(privateKey, this.encryptionKey()),
+        createdAt: now,
+      });
+      // keys past their grace period can no longer verify anything
+      await manager.delete(SigningKey, { verifyUntil: LessThan(now) });
+    });
+
+    await this.loadKeyRing();
+    return { kid, algorithm, createdAt };
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import { ApiKeysService } from '../api-keys.service';
+import { getClientInfo } from '../decorators/client-info.decorator';
+
+/*
+- Purpose: Authenticates integrations that send an API key instead of a JWT
+- How it works: Reads the X-API-Key header and resolves it through ApiKeysService. A missing or unusable key
+  fails this strategy so AtGuard can report the request as unauthorized
+*/
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private readonly apiKeysService: ApiKeysService) {
+    super();
+  }
+
+  async validate(req: Request) {
+    const key = req.get('X-API-Key');
+    if (!key) {
+      return false;
+    }
+    return this.apiKeysService.validate(
+      key.trim(),
+      getClientInfo(req).ipAddress,
+    );
+  }
+}
@@ -1,28 +1,55 @@
-import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { Strategy, ExtractJwt } from 'passport-jwt';
+import { Strategy } from 'passport-jwt';
+import { Role } from '../../profiles/entities/profile.entity';
+import { Permission } from '../../permissions/permission.enum';
+import { TokenDenylistService } from '../token-denylist.service';
+import { SigningKeysService } from '../signing-keys.service';
+import {
+  ACCESS_TOKEN_COOKIE,
+  fromBearerOrCookie,
+} from '../utils/auth-cookies.util';
 /*
 - Purpose: Validates short-lived access tokens
-- How it works: Extracts the JWT from the Authorization header, verifies it with the secret key, and attaches the payload to the request
+- How it works: Extracts the JWT from the Authorization header (or the access_token cookie in cookie mode), verifies it with the public key named by its kid header, and attaches the payload to the request
+- Tokens revoked through the TokenDenylistService are rejected, so AtGuard refuses them before they expire
 */
 
 export type JWTPayload = {
   sub: number;
   email: string;
-  role: string;
+  role: Role;
+  typ?: 'access'; // tells access tokens apart from refresh tokens signed by the same key
+  sid?: string; // id of the session the token was issued for
+  jti?: string;
+  iat?: number;
+  iatMs?: number; // issue time in milliseconds, compared with the revoke-all watermark (iat is only whole seconds)
+  exp?: number;
+  apiKeyId?: string; // set when the caller authenticated with an API key instead of a token (sub is then API_KEY_SUBJECT)
+  permissions?: Permission[]; // scope of that API key
+  act?: { sub: number; email: string }; // the admin behind an impersonation token (sub is then the impersonated profile)
 };
 
 @Injectable()
 export class AtStrategy extends PassportStrategy(Strategy, 'jwt-at') {
-  constructor(private readonly configServices: ConfigService) {
+  constructor(
+    private readonly tokenDenylistService: TokenDenylistService,
+    signingKeysService: SigningKeysService,
+  ) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(), //Bearer token extraction from Authorization header
-      secretOrKey: configServices.getOrThrow<string>('JWT_ACCESS_TOKEN_SECRET'), //Access token secret key
+      jwtFromRequest: fromBearerOrCookie(ACCESS_TOKEN_COOKIE), //Bearer token extraction from Authorization header, then the cookie
+      secretOrKeyProvider: signingKeysService.secretOrKeyProvider, // public key looked up by kid
+      algorithms: ['RS256', 'ES256'],
     });
   }
 
-  validate(payload: JWTPayload) {
+  async validate(payload: JWTPayload) {
+    if (payload.typ !== 'access') {
+      throw new UnauthorizedException('Invalid access token');
+    }
+    if (await this.tokenDenylistService.isDenied(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
     return payload; // Return the payload directly, which contains user information (attach request.user = payload;)
   }
 }
@@ -1,2 +1,3 @@
 export * from './at.strategy';
 export * from './rt.strategy';
+export * from './api-key.strategy';
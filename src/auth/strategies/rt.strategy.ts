@@ -1,19 +1,30 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { ExtractJwt, Strategy, StrategyOptionsWithRequest } from 'passport-jwt';
+import { Strategy, StrategyOptionsWithRequest } from 'passport-jwt';
 import { Request } from 'express';
-import { ConfigService } from '@nestjs/config';
+import { RefreshTokensService } from '../refresh-tokens.service';
+import { SigningKeysService } from '../signing-keys.service';
+import {
+  fromBearerOrCookie,
+  REFRESH_TOKEN_COOKIE,
+} from '../utils/auth-cookies.util';
+
+const extractRefreshToken = fromBearerOrCookie(REFRESH_TOKEN_COOKIE);
 
 /*
 - Purpose: Validates long-lived refresh tokens
-- How it works: Extracts the refresh token from the Authorization header and validates it using the and attaches the payload to the request
+- How it works: Extracts the refresh token from the Authorization header (or the refresh_token cookie in cookie mode) and validates it using the and attaches the payload to the request
 and includes it in the returned payload, which can be used later in the application.
+The token is also checked against the refresh token store, so rotated, revoked or replayed tokens are rejected here.
 */
 
 interface JwtPayload {
   sub: number;
   email: string;
   role: string;
+  typ: 'refresh';
+  jti: string; // refresh token id in the token store
+  fam: string; // refresh token family id
   [key: string]: any;
 }
 
@@ -23,29 +34,38 @@ interface JwtPayloadWithRt extends JwtPayload {
 
 @Injectable()
 export class RfStrategy extends PassportStrategy(Strategy, 'jwt-rt') {
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly refreshTokensService: RefreshTokensService,
+    signingKeysService: SigningKeysService,
+  ) {
     const options: StrategyOptionsWithRequest = {
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      secretOrKey: configService.getOrThrow('JWT_REFRESH_TOKEN_SECRET'),
+      jwtFromRequest: extractRefreshToken,
+      secretOrKeyProvider: signingKeysService.secretOrKeyProvider, // public key looked up by kid
+      algorithms: ['RS256', 'ES256'],
       passReqToCallback: true, // what allows us to access the request object in the validate method
     };
     super(options);
   }
 
-  validate(req: Request, payload: JwtPayload): JwtPayloadWithRt {
-    const authHeader = req.get('Authorization');
-    if (!authHeader) {
+  async validate(req: Request, payload: JwtPayload): Promise<JwtPayloadWithRt> {
+    const refreshToken = extractRefreshToken(req);
+    if (!refreshToken) {
       throw new Error('No refresh token provided');
     }
-    const refreshToken = authHeader.replace('Bearer ', '').trim();
-    if (!refreshToken) {
-      throw new Error('Invalid refresh token format');
+    if (payload.typ !== 'refresh' || !payload.jti || !payload.fam) {
+      throw new UnauthorizedException('Invalid refresh token');
     }
+    // reject tokens that are unknown, rotated, revoked or expired in the store
+    await this.refreshTokensService.validate(
+      payload.jti,
+      payload.sub,
+      refreshToken,
+    );
     return {
       ...payload, // attach request.user = payload;
       refreshToken,
     };
   }
 }
-// This strategy extracts the refresh token from the Authorization header, validates it, and attaches the payload to the request.
+// This strategy extracts the refresh token from the Authorization header or cookie, validates it, and attaches the payload to the request.
 // The validate method also extracts the refresh token from the request and includes it in the returned payload, which can be used later in the application.
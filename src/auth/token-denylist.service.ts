@@ -0,0 +1,86 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import * as ms from 'ms';
+import { JWTPayload } from './strategies/at.strategy';
+
+/*
+- Purpose: Revokes access tokens before they expire
+- How it works: Keeps revoked token ids (jti), revoked session ids and a per-user "tokens issued before"
+  watermark in the cache stores registered in AppModule (memory + Redis). Entries only need to live
+  as long as an access token can, so each one expires with the token lifetime.
+*/
+@Injectable()
+export class TokenDenylistService {
+  constructor(
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to get the access token lifetime in milliseconds
+  private accessTokenTtl(): number {
+    return ms(
+      this.configService.getOrThrow<ms.StringValue>(
+        'JWT_ACCESS_TOKEN_EXPIRATION_TIME',
+      ),
+    );
+  }
+
+  // Revoke a single access token until it expires on its own
+  async denyToken(jti: string, exp: number): Promise<void> {
+    const ttl = exp * 1000 - Date.now();
+    if (ttl > 0) {
+      await this.cacheManager.set(`auth:denylist:jti:${jti}`, true, ttl);
+    }
+  }
+
+  // Revoke every access token issued for a session
+  async denySession(sessionId: string): Promise<void> {
+    await this.cacheManager.set(
+      `auth:denylist:sid:${sessionId}`,
+      true,
+      this.accessTokenTtl(),
+    );
+  }
+
+  // Revoke every access token issued to a profile up to now (watermark in milliseconds)
+  async denyAllForProfile(profileId: number): Promise<void> {
+    await this.cacheManager.set(
+      `auth:denylist:issued-before:${profileId}`,
+      Date.now(),
+      this.accessTokenTtl(),
+    );
+  }
+
+  // Check whether an access token has been revoked
+  async isDenied(payload: JWTPayload): Promise<boolean> {
+    const [jtiDenied, sidDenied, issuedBefore, actorIssuedBefore] =
+      await Promise.all([
+        payload.jti
+          ? this.cacheManager.get<boolean>(`auth:denylist:jti:${payload.jti}`)
+          : undefined,
+        payload.sid
+          ? this.cacheManager.get<boolean>(`auth:denylist:sid:${payload.sid}`)
+          : undefined,
+        this.cacheManager.get<number>(
+          `auth:denylist:issued-before:${payload.sub}`,
+        ),
+        // an impersonation token also dies with the tokens of the admin behind it
+        payload.act
+          ? this.cacheManager.get<number>(
+              `auth:denylist:issued-before:${payload.act.sub}`,
+            )
+          : undefined,
+      ]);
+
+    // tokens without iatMs only know the second they were issued in, so one from the second of a revoke is denied
+    const issuedAt = payload.iatMs ?? (payload.iat ?? 0) * 1000;
+    return (
+      !!jtiDenied ||
+      !!sidDenied ||
+      (issuedBefore != null && issuedAt <= issuedBefore) ||
+      (actorIssuedBefore != null && issuedAt <= actorIssuedBefore)
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { FindOperator } from 'typeorm';
+import { TwoFactorService } from './two-factor.service';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { encryptSecret } from './utils/secret-box.util';
+import {
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+} from './utils/totp.util';
+
+const ENCRYPTION_KEY = 'test-two-factor-key';
+
+const hashCode = (code: string) =>
+  createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+
+type ProfileRow = Pick<
+  Profile,
+  | 'id'
+  | 'twoFactorSecret'
+  | 'twoFactorEnabledAt'
+  | 'twoFactorBackupCodes'
+  | 'twoFactorLastUsedStep'
+>;
+
+// Just enough of a FindOperator to evaluate Or(IsNull(), LessThan(step)) against a stored value
+const matches = (operator: FindOperator<number>, value: number | null) => {
+  const operands = operator.value as unknown as FindOperator<number>[];
+  return operands.some((operand) =>
+    operand.type === 'isNull'
+      ? value === null
+      : value !== null && value < operand.value,
+  );
+};
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let row: ProfileRow;
+  const secret = generateTotpSecret();
+
+  // An in-memory profile row behind the repository calls verifyCode makes
+  const profileRepository = {
+    findOne: jest.fn(() => Promise.resolve({ ...row })),
+    update: jest.fn(
+      (
+        criteria: { twoFactorLastUsedStep: FindOperator<number> },
+        values: Partial<ProfileRow>,
+      ) => {
+        if (
+          !matches(criteria.twoFactorLastUsedStep, row.twoFactorLastUsedStep)
+        ) {
+          return Promise.resolve({ affected: 0 });
+        }
+        row = { ...row, ...values };
+        return Promise.resolve({ affected: 1 });
+      },
+    ),
+    manager: {
+      transaction: jest.fn((work: (manager: unknown) => Promise<boolean>) =>
+        work({
+          getRepository: () => ({
+            createQueryBuilder: () => {
+              const builder = {
+                addSelect: () => builder,
+                where: () => builder,
+                setLock: () => builder,
+                getOne: () => Promise.resolve({ ...row }),
+              };
+              return builder;
+            },
+          }),
+          update: (
+            _entity: unknown,
+            _id: number,
+            values: Partial<ProfileRow>,
+          ) => {
+            row = { ...row, ...values };
+            return Promise.resolve({ affected: 1 });
+          },
+        }),
+      ),
+    },
+  };
+
+  beforeEach(async () => {
+    // pin the clock mid-step so a test never straddles a time step boundary
+    jest.useFakeTimers({ now: 1700000010 * 1000 });
+    row = {
+      id: 1,
+      twoFactorSecret: encryptSecret(secret, ENCRYPTION_KEY),
+      twoFactorEnabledAt: new Date(),
+      twoFactorBackupCodes: [hashCode('aaaa-bbbb'), hashCode('cccc-dddd')],
+      twoFactorLastUsedStep: null,
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: getRepositoryToken(Profile), useValue: profileRepository },
+        { provide: JwtService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: () => ENCRYPTION_KEY },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(TwoFactorService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('verifyCode', () => {
+    it('accepts the current TOTP code and records its time step', async () => {
+      await expect(service.verifyCode(1, generateTotp(secret))).resolves.toBe(
+        true,
+      );
+      expect(row.twoFactorLastUsedStep).toBe(getTimeStep());
+    });
+
+    it('refuses the same TOTP code a second time', async () => {
+      const code = generateTotp(secret);
+      await expect(service.verifyCode(1, code)).resolves.toBe(true);
+      await expect(service.verifyCode(1, code)).resolves.toBe(false);
+    });
+
+    it('refuses a code from a step older than the last one used', async () => {
+      const now = Date.now();
+      await expect(
+        service.verifyCode(1, generateTotp(secret, now)),
+      ).resolves.toBe(true);
+      await expect(
+        service.verifyCode(1, generateTotp(secret, now - 30 * 1000)),
+      ).resolves.toBe(false);
+    });
+
+    it('accepts a code from the previous step within the window', async () => {
+      await expect(
+        service.verifyCode(1, generateTotp(secret, Date.now() - 30 * 1000)),
+      ).resolves.toBe(true);
+    });
+
+    it('consumes a backup code so it only works once', async () => {
+      await expect(service.verifyCode(1, 'AAAA-BBBB')).resolves.toBe(true);
+      expect(row.twoFactorBackupCodes).toEqual([hashCode('cccc-dddd')]);
+      await expect(service.verifyCode(1, 'aaaa-bbbb')).resolves.toBe(false);
+    });
+
+    it('refuses every code while 2FA is not enabled', async () => {
+      row.twoFactorEnabledAt = null;
+      await expect(service.verifyCode(1, generateTotp(secret))).resolves.toBe(
+        false,
+      );
+      await expect(service.verifyCode(1, 'aaaa-bbbb')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { IsNull, LessThan, Or, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { Profile, Role } from 'src/profiles/entities/profile.entity';
+import {
+  buildOtpAuthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from './utils/totp.util';
+import { decryptSecret, encryptSecret } from './utils/secret-box.util';
+
+export type ChallengePurpose = '2fa' | '2fa-enroll' | 'password-change';
+
+type ChallengePayload = {
+  sub: number;
+  purpose: ChallengePurpose;
+  deviceLabel?: string;
+};
+
+const BACKUP_CODE_COUNT = 10;
+
+/*
+- Purpose: TOTP (RFC 6238) two-factor authentication for profiles
+- How it works: Enrollment stores an encrypted secret and returns an otpauth:// URI for the authenticator app.
+  Confirming with a valid code enables 2FA and returns single-use backup codes (stored as sha256 hashes).
+  During sign-in a short-lived challenge token stands in for the token pair until the second factor is given.
+  Roles listed in TWO_FACTOR_REQUIRED_ROLES cannot sign in or disable 2FA without it.
+*/
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to hash a backup code before it is stored or compared
+  private hashCode(code: string): string {
+    return createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex');
+  }
+
+  // Helper method to get the key TOTP secrets are encrypted with
+  private encryptionKey(): string {
+    return this.configService.getOrThrow<string>('TWO_FACTOR_ENCRYPTION_KEY');
+  }
+
+  // Helper method to generate a fresh set of backup codes and their hashes
+  private generateBackupCodes() {
+    const backupCodes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const code = randomBytes(4).toString('hex');
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+    return {
+      backupCodes,
+      hashedBackupCodes: backupCodes.map((code) => this.hashCode(code)),
+    };
+  }
+
+  // Helper method to load the 2FA columns of a profile
+  private async findProfile(profileId: number) {
+    const profile = await this.profileRepository.findOne({
+      where: { id: profileId },
+      select: [
+        'id',
+        'email',
+        'role',
+        'twoFactorSecret',
+        'twoFactorEnabledAt',
+        'twoFactorBackupCodes',
+        'twoFactorLastUsedStep',
+      ],
+    });
+    if (!profile) {
+      throw new NotFoundException(`User with ID ${profileId} not found`);
+    }
+    return profile;
+  }
+
+  // Whether a role must use 2FA (TWO_FACTOR_REQUIRED_ROLES, e.g. "admin,faculty")
+  isRequiredFor(role: Role): boolean {
+    return this.configService
+      .get<string>('TWO_FACTOR_REQUIRED_ROLES', Role.ADMIN)
+      .split(',')
+      .map((requiredRole) => requiredRole.trim())
+      .includes(role);
+  }
+
+  // Sign a short-lived challenge token handed out instead of the token pair
+  async createChallenge(
+    profileId: number,
+    purpose: ChallengePurpose,
+    deviceLabel?: string,
+  ): Promise<string> {
+    const payload: ChallengePayload = { sub: profileId, purpose, deviceLabel };
+    return this.jwtService.signAsync(payload, {
+      secret: this.configService.getOrThrow<string>(
+        'JWT_CHALLENGE_TOKEN_SECRET',
+      ),
+      expiresIn: this.configService.get<string>(
+        'CHALLENGE_TOKEN_EXPIRATION_TIME',
+        '5m',
+      ),
+    });
+  }
+
+  // Verify a challenge token and check it was issued for the expected step
+  async verifyChallenge(
+    token: string,
+    purpose: ChallengePurpose,
+  ): Promise<ChallengePayload> {
+    let payload: ChallengePayload;
+    try {
+      payload = await this.jwtService.verifyAsync<ChallengePayload>(token, {
+        secret: this.configService.getOrThrow<string>(
+          'JWT_CHALLENGE_TOKEN_SECRET',
+        ),
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+    if (payload.purpose !== purpose) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+    return payload;
+  }
+
+  // Start enrollment: store a new (not yet active) secret and return it for the authenticator app
+  async enroll(profileId: number) {
+    const profile = await this.findProfile(profileId);
+    if (profile.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.profileRepository.update(profileId, {
+      twoFactorSecret: encryptSecret(secret, this.encryptionKey()),
+    });
+
+    const otpauthUri = buildOtpAuthUri(
+      this.configService.get<string>('TWO_FACTOR_ISSUER', 'University API'),
+      profile.email,
+      secret,
+    );
+    // otpauthUri is the QR code payload; secret is for manual entry
+    return { secret, otpauthUri };
+  }
+
+  // Finish enrollment with a code from the app. Returns the backup codes, which are only shown once
+  async confirm(profileId: number, code: string) {
+    const profile = await this.findProfile(profileId);
+    if (profile.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!profile.twoFactorSecret) {
+      throw new BadRequestException(
+        'Two-factor enrollment has not been started',
+      );
+    }
+
+    const step = verifyTotp(
+      decryptSecret(profile.twoFactorSecret, this.encryptionKey()),
+      code,
+    );
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const { backupCodes, hashedBackupCodes } = this.generateBackupCodes();
+    await this.profileRepository.update(profileId, {
+      twoFactorEnabledAt: new Date(),
+      twoFactorBackupCodes: hashedBackupCodes,
+      twoFactorLastUsedStep: step,
+    });
+    return { backupCodes };
+  }
+
+  // Check a TOTP or backup code for a profile with 2FA enabled. Backup codes are consumed
+  async verifyCode(profileId: number, code: string): Promise<boolean> {
+    const profile = await this.findProfile(profileId);
+    if (!profile.twoFactorEnabledAt || !profile.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(
+      decryptSecret(profile.twoFactorSecret, this.encryptionKey()),
+      code.trim(),
+    );
+    if (step !== null) {
+      // a code is accepted only once: the conditional update refuses the same or an older time step
+      const res = await this.profileRepository.update(
+        {
+          id: profileId,
+          twoFactorLastUsedStep: Or(IsNull(), LessThan(step)),
+        },
+        { twoFactorLastUsedStep: step },
+      );
+      return res.affected !== 0;
+    }
+
+    // the profile row is locked while the code is claimed, so parallel sign-ins cannot both use it
+    const hashedCode = this.hashCode(code);
+    return this.profileRepository.manager.transaction(async (manager) => {
+      const locked = await manager
+        .getRepository(Profile)
+        .createQueryBuilder('profile')
+        .addSelect('profile.twoFactorBackupCodes')
+        .where('profile.id = :profileId', { profileId })
+        .setLock('pessimistic_write')
+        .getOne();
+      const backupCodes = locked?.twoFactorBackupCodes ?? [];
+      if (!backupCodes.includes(hashedCode)) {
+        return false;
+      }
+      await manager.update(Profile, profileId, {
+        twoFactorBackupCodes: backupCodes.filter((hash) => hash !== hashedCode),
+      });
+      return true;
+    });
+  }
+
+  // Turn 2FA off. Not allowed for roles where it is mandatory
+  async disable(profileId: number, code: string) {
+    const profile = await this.findProfile(profileId);
+    if (this.isRequiredFor(profile.role)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is mandatory for your role',
+      );
+    }
+    if (!profile.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(profileId, code))) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.profileRepository.update(profileId, {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorBackupCodes: null,
+      twoFactorLastUsedStep: null,
+    });
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  // Replace all backup codes, e.g. after most of them have been used
+  async regenerateBackupCodes(profileId: number, code: string) {
+    const profile = await this.findProfile(profileId);
+    if (!profile.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(profileId, code))) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const { backupCodes, hashedBackupCodes } = this.generateBackupCodes();
+    await this.profileRepository.update(profileId, {
+      twoFactorBackupCodes: hashedBackupCodes,
+    });
+    return { backupCodes };
+  }
+}
@@ -0,0 +1,42 @@
+import { Request } from 'express';
+import { ExtractJwt, JwtFromRequestFunction } from 'passport-jwt';
+
+/*
+- Purpose: Names and readers for the cookies used by browser clients in cookie mode (AUTH_COOKIES=enabled)
+- How it works: The access and refresh tokens travel in HttpOnly cookies. The CSRF token cookie is readable by
+  the SPA, which echoes it in the X-CSRF-Token header (double-submit). A Bearer header always wins over cookies.
+*/
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_TOKEN_COOKIE = 'csrf_token';
+export const CSRF_TOKEN_HEADER = 'X-CSRF-Token';
+// the refresh token cookie is only sent to the refresh endpoint (includes the global api/v1 prefix)
+export const REFRESH_TOKEN_COOKIE_PATH = '/api/v1/auth/refresh';
+
+// Helper to read a cookie parsed by cookie-parser
+export function readCookie(request: Request, name: string): string | null {
+  const cookies = request.cookies as Record<string, unknown> | undefined;
+  const value = cookies?.[name];
+  return typeof value === 'string' && value ? value : null;
+}
+
+// Whether the request authenticates with cookies rather than a Bearer header or an API key
+export function usesAuthCookies(request: Request): boolean {
+  return (
+    !request.get('Authorization') &&
+    !request.get('X-API-Key') &&
+    !!(
+      readCookie(request, ACCESS_TOKEN_COOKIE) ||
+      readCookie(request, REFRESH_TOKEN_COOKIE)
+    )
+  );
+}
+
+// passport-jwt extractor: the Bearer header, falling back to the given cookie
+export function fromBearerOrCookie(cookie: string): JwtFromRequestFunction {
+  return ExtractJwt.fromExtractors([
+    ExtractJwt.fromAuthHeaderAsBearerToken(),
+    (request: Request) => readCookie(request, cookie),
+  ]);
+}
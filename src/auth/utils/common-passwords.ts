@@ -0,0 +1,122 @@
+// Frequently used passwords that are refused regardless of the other policy rules (compared lower-cased)
+export const COMMON_PASSWORDS = new Set([
+  '123456',
+  '123456789',
+  '12345678',
+  '1234567890',
+  '12345',
+  '1234567',
+  '111111',
+  '123123',
+  '000000',
+  '654321',
+  '666666',
+  '121212',
+  '112233',
+  '123321',
+  '987654321',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'qwerty123456',
+  'asdfghjkl',
+  'azerty',
+  'zxcvbnm',
+  'password',
+  'password1',
+  'password12',
+  'password123',
+  'password1234',
+  'password!',
+  'passw0rd',
+  'p@ssw0rd',
+  'p@ssword',
+  'p@ssword1',
+  'p@ssw0rd123',
+  'pa$$w0rd',
+  'passwort',
+  'motdepasse',
+  'contraseña',
+  'iloveyou',
+  'iloveyou1',
+  'letmein',
+  'letmein123',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'welcome2024',
+  'welcome2025',
+  'welcome2026',
+  'admin',
+  'admin123',
+  'admin1234',
+  'administrator',
+  'root',
+  'toor',
+  'changeme',
+  'changeme123',
+  'default',
+  'secret',
+  'secret123',
+  'abc123',
+  'abcd1234',
+  'abcdef',
+  'abcdefg',
+  'a1b2c3d4',
+  'monkey',
+  'dragon',
+  'master',
+  'shadow',
+  'sunshine',
+  'princess',
+  'football',
+  'baseball',
+  'soccer',
+  'superman',
+  'batman',
+  'trustno1',
+  'starwars',
+  'pokemon',
+  'whatever',
+  'freedom',
+  'computer',
+  'internet',
+  'michael',
+  'jennifer',
+  'jordan23',
+  'charlie',
+  'hello123',
+  'hello1234',
+  'summer2024',
+  'summer2025',
+  'winter2024',
+  'winter2025',
+  'spring2025',
+  'autumn2025',
+  'university',
+  'university1',
+  'university123',
+  'student',
+  'student1',
+  'student123',
+  'teacher',
+  'teacher123',
+  'school123',
+  'college123',
+  'strongpassword',
+  'strongpassword123',
+  'newstrongpassword123',
+  'mypassword',
+  'mypassword1',
+  'qazwsx',
+  'qazwsxedc',
+  'zaq12wsx',
+  '!qaz2wsx',
+  'q1w2e3r4',
+  'q1w2e3r4t5y6',
+  'aa123456',
+  'aa12345678',
+]);
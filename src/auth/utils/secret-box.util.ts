@@ -0,0 +1,41 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+/*
+- Purpose: Encrypts secrets that must be readable again later (e.g. TOTP seeds) before they are stored
+- How it works: AES-256-GCM with a key derived from a configured passphrase. The output is
+  `iv.authTag.ciphertext`, each part base64url encoded.
+*/
+
+// Helper to turn any configured passphrase into a 32 byte key
+function deriveKey(passphrase: string): Buffer {
+  return createHash('sha256').update(passphrase).digest();
+}
+
+export function encryptSecret(plaintext: string, passphrase: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString('base64url'))
+    .join('.');
+}
+
+export function decryptSecret(encrypted: string, passphrase: string): string {
+  const [iv, authTag, ciphertext] = encrypted
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString('utf8');
+}
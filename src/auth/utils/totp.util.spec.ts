@@ -0,0 +1,59 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateHotp,
+  generateTotp,
+  getTimeStep,
+  verifyTotp,
+} from './totp.util';
+
+// RFC 6238 appendix B test secret ("12345678901234567890" as ASCII)
+const RFC_SECRET = Buffer.from('12345678901234567890');
+
+describe('totp.util', () => {
+  it('round-trips base32', () => {
+    const encoded = base32Encode(RFC_SECRET);
+    expect(encoded).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(encoded.toLowerCase())).toEqual(RFC_SECRET);
+  });
+
+  it('matches the RFC 4226 HOTP test vectors', () => {
+    expect(generateHotp(RFC_SECRET, 0)).toBe('755224');
+    expect(generateHotp(RFC_SECRET, 9)).toBe('520489');
+  });
+
+  it('matches the RFC 6238 SHA1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000, { digits: 8 })).toBe('94287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000, { digits: 8 })).toBe(
+      '07081804',
+    );
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1700000000 * 1000;
+    const current = getTimeStep(now);
+
+    it('returns the time step of the code', () => {
+      const code = generateTotp(RFC_SECRET, now);
+      expect(verifyTotp(RFC_SECRET, code, 1, {}, now)).toBe(current);
+    });
+
+    it('accepts codes from the steps either side of the window', () => {
+      const previous = generateHotp(RFC_SECRET, current - 1);
+      const next = generateHotp(RFC_SECRET, current + 1);
+      expect(verifyTotp(RFC_SECRET, previous, 1, {}, now)).toBe(current - 1);
+      expect(verifyTotp(RFC_SECRET, next, 1, {}, now)).toBe(current + 1);
+    });
+
+    it('refuses codes outside the window', () => {
+      const old = generateHotp(RFC_SECRET, current - 2);
+      expect(verifyTotp(RFC_SECRET, old, 1, {}, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, old, 2, {}, now)).toBe(current - 2);
+    });
+
+    it('refuses codes that are not all digits of the right length', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', 1, {}, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, {}, now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { InstitutionalEvent } from './entities/institutional-event.entity';
+import { CalendarEvent, renderCalendar } from './utils/ical.util';
+import { Student } from 'src/students/entities/student.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { EnrollmentStatus } from 'src/enrollments/entities/enrollment.entity';
+import { EnrollmentsService } from 'src/enrollments/enrollments.service';
+
+/*
+- Purpose: Secret iCalendar (.ics) feed URLs that calendar apps (Google, Outlook, ...) can subscribe to
+- How it works: Each profile can have one feed. The URL carries a random token instead of a bearer header, and only
+  a sha256 hash of the token is stored, so the URL is shown once when it is (re)generated. Regenerating replaces
+  the hash, which invalidates the old URL immediately. The feed lists the date span of every offering the
+  profile is enrolled in (enrolled or completed, as in students/:id/courses) or teaches, plus the institutional
+  events (holidays, exam periods) managed by admins.
+*/
+@Injectable()
+export class CalendarFeedsService {
+  constructor(
+    @InjectRepository(CalendarFeed)
+    private feedRepository: Repository<CalendarFeed>,
+    @InjectRepository(InstitutionalEvent)
+    private eventRepository: Repository<InstitutionalEvent>,
+    @InjectRepository(Student) private studentRepository: Repository<Student>,
+    @InjectRepository(Lecturer)
+    private lecturerRepository: Repository<Lecturer>,
+    @InjectRepository(CourseOffering)
+    private offeringRepository: Repository<CourseOffering>,
+    private enrollmentsService: EnrollmentsService,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to hash a token before it is stored or looked up
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // The caller's feed (without its URL, which is only shown when it is generated)
+  async getFeed(profileId: number): Promise<CalendarFeed> {
+    const feed = await this.feedRepository.findOneBy({ profileId });
+    if (!feed) {
+      throw new NotFoundException('No calendar feed has been generated yet');
+    }
+    return feed;
+  }
+
+  // Generate a new feed URL for the caller. A previous URL stops working
+  async regenerate(profileId: number) {
+    const token = randomBytes(32).toString('base64url');
+    await this.feedRepository.upsert(
+      {
+        profileId,
+        hashedToken: this.hashToken(token),
+        createdAt: new Date(),
+        lastFetchedAt: null,
+      },
+      ['profileId'],
+    );
+    // OAUTH_ISSUER is the public base URL of this API
+    const url = `${this.configService.get<string>('OAUTH_ISSUER', 'http://localhost:8000')}/api/v1/calendar/feeds/${token}.ics`;
+    return { ...(await this.getFeed(profileId)), url };
+  }
+
+  async revoke(profileId: number): Promise<string> {
+    const result = await this.feedRepository.delete({ profileId });
+    if (result.affected === 0) {
+      throw new NotFoundException('No calendar feed has been generated yet');
+    }
+    return 'Calendar feed has been revoked';
+  }
+
+  // Helper method to turn offerings into all-day events spanning their dates
+  private toOfferingEvents(offerings: CourseOffering[]): CalendarEvent[] {
+    return offerings.map((offering) => ({
+      uid: `offering-${offering.id}@university-api`,
+      title: `${offering.course.title} (${offering.section})`,
+      description: `Term ${offering.term.name}`,
+      categories: ['Course'],
+      startDate: offering.startDate ?? offering.term.startDate,
+      endDate: offering.endDate ?? offering.term.endDate,
+      updatedAt: offering.updatedAt,
+    }));
+  }
+
+  // Render the feed of a token, 404 for unknown or regenerated tokens
+  async render(token: string): Promise<string> {
+    const feed = await this.feedRepository.findOneBy({
+      hashedToken: this.hashToken(token),
+    });
+    if (!feed) {
+      throw new NotFoundException('Unknown calendar feed');
+    }
+    await this.feedRepository.update(feed.id, { lastFetchedAt: new Date() });
+
+    const offerings = new Map<number, CourseOffering>();
+    const student = await this.studentRepository.findOneBy({
+      profile: { id: feed.profileId },
+    });
+    if (student) {
+      const enrollments = await this.enrollmentsService.findStudentEnrollments(
+        student.id,
+      );
+      enrollments
+        .filter((enrollment) =>
+          [EnrollmentStatus.ENROLLED, EnrollmentStatus.COMPLETED].includes(
+            enrollment.status,
+          ),
+        )
+        .forEach(({ offering }) => offerings.set(offering.id, offering));
+    }
+    const lecturer = await this.lecturerRepository.findOneBy({
+      profile: { id: feed.profileId },
+    });
+    if (lecturer) {
+      const taught = await this.offeringRepository.find({
+        where: { lecturers: { id: lecturer.id } },
+        relations: ['course', 'term'],
+      });
+      taught.forEach((offering) => offerings.set(offering.id, offering));
+    }
+
+    const institutionalEvents = await this.eventRepository.find({
+      order: { startDate: 'ASC' },
+    });
+    return renderCalendar('University timetable', [
+      ...this.toOfferingEvents([...offerings.values()]),
+      ...institutionalEvents.map((event) => ({
+        uid: `event-${event.id}@university-api`,
+        title: event.title,
+        description: event.description,
+        categories: [event.type],
+        startDate: event.startDate,
+        endDate: event.endDate,
+        updatedAt: event.updatedAt,
+      })),
+    ]);
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Header,
+  ParseIntPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { InstitutionalEventsService } from './institutional-events.service';
+import {
+  CreateInstitutionalEventDto,
+  UpdateInstitutionalEventDto,
+} from './dto';
+import {
+  BlockWhileImpersonating,
+  GetCurrentUserId,
+  Public,
+  RequirePermissions,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import { NoCache } from 'src/http-cache.interceptor';
+
+@ApiTags('calendar')
+@ApiBearerAuth()
+@Controller('calendar')
+@UseGuards(AtGuard, PermissionsGuard)
+export class CalendarController {
+  constructor(
+    private readonly calendarFeedsService: CalendarFeedsService,
+    private readonly institutionalEventsService: InstitutionalEventsService,
+  ) {}
+
+  // http://localhost:8000/calendar/feed (the caller's feed, the URL is only shown when generated)
+  @NoCache()
+  @Get('feed')
+  getFeed(@GetCurrentUserId() userId: number) {
+    return this.calendarFeedsService.getFeed(userId);
+  }
+
+  // http://localhost:8000/calendar/feed (generates a new URL, the previous one stops working)
+  @BlockWhileImpersonating() // the URL is a secret of the profile owner
+  @Post('feed')
+  regenerateFeed(@GetCurrentUserId() userId: number) {
+    return this.calendarFeedsService.regenerate(userId);
+  }
+
+  // http://localhost:8000/calendar/feed
+  @Delete('feed')
+  revokeFeed(@GetCurrentUserId() userId: number) {
+    return this.calendarFeedsService.revoke(userId);
+  }
+
+  // http://localhost:8000/calendar/feeds/<token>.ics
+  // Public because calendar apps cannot send a bearer header, the token in the URL is the credential
+  @Public()
+  @NoCache()
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Get('feeds/:token')
+  renderFeed(@Param('token') token: string) {
+    return this.calendarFeedsService.render(token.replace(/\.ics$/, ''));
+  }
+
+  // Endpoints for managing institutional events (holidays, exam periods, ...)
+
+  // http://localhost:8000/calendar/events
+  @Get('events')
+  findEvents() {
+    return this.institutionalEventsService.findAll();
+  }
+
+  // http://localhost:8000/calendar/events
+  @RequirePermissions(Permission.INSTITUTIONAL_EVENTS_MANAGE)
+  @Post('events')
+  createEvent(
+    @Body() createInstitutionalEventDto: CreateInstitutionalEventDto,
+  ) {
+    return this.institutionalEventsService.create(createInstitutionalEventDto);
+  }
+
+  // http://localhost:8000/calendar/events/1
+  @RequirePermissions(Permission.INSTITUTIONAL_EVENTS_MANAGE)
+  @Patch('events/:id')
+  updateEvent(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateInstitutionalEventDto: UpdateInstitutionalEventDto,
+  ) {
+    return this.institutionalEventsService.update(
+      id,
+      updateInstitutionalEventDto,
+    );
+  }
+
+  // http://localhost:8000/calendar/events/1
+  @RequirePermissions(Permission.INSTITUTIONAL_EVENTS_MANAGE)
+  @Delete('events/:id')
+  removeEvent(@Param('id', ParseIntPipe) id: number) {
+    return this.institutionalEventsService.remove(id);
+  }
+}
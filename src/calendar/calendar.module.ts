@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { InstitutionalEvent } from './entities/institutional-event.entity';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { InstitutionalEventsService } from './institutional-events.service';
+import { CalendarController } from './calendar.controller';
+import { Student } from 'src/students/entities/student.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { EnrollmentsModule } from 'src/enrollments/enrollments.module';
+import { PermissionsGuard } from 'src/auth/guards';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([
+      CalendarFeed,
+      InstitutionalEvent,
+      Student,
+      Lecturer,
+      CourseOffering,
+    ]),
+    EnrollmentsModule,
+  ],
+  controllers: [CalendarController],
+  providers: [
+    CalendarFeedsService,
+    InstitutionalEventsService,
+    PermissionsGuard,
+  ],
+})
+export class CalendarModule {}
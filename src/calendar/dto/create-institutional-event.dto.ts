@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { InstitutionalEventType } from '../entities/institutional-event.entity';
+
+export class CreateInstitutionalEventDto {
+  @ApiProperty({
+    description: 'The title shown in calendars',
+    example: 'Winter break',
+  })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiProperty({
+    description: 'More details about the event',
+    example: 'The campus is closed',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: 'The kind of event',
+    enum: InstitutionalEventType,
+    example: InstitutionalEventType.HOLIDAY,
+    default: InstitutionalEventType.OTHER,
+    required: false,
+  })
+  @IsEnum(InstitutionalEventType)
+  @IsOptional()
+  type?: InstitutionalEventType;
+
+  @ApiProperty({
+    description: 'The first day of the event',
+    example: '2025-12-20',
+    type: String,
+    format: 'date',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({
+    description: 'The last day of the event (inclusive)',
+    example: '2026-01-04',
+    type: String,
+    format: 'date',
+  })
+  @IsDateString()
+  endDate: string;
+}
@@ -0,0 +1,2 @@
+export * from './create-institutional-event.dto';
+export * from './update-institutional-event.dto';
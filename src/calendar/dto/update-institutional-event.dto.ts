@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateInstitutionalEventDto } from './create-institutional-event.dto';
+
+export class UpdateInstitutionalEventDto extends PartialType(
+  CreateInstitutionalEventDto,
+) {}
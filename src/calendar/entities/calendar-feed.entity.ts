@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  OneToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+// A profile's secret iCalendar feed URL (one per profile, regenerating replaces the token)
+@Entity()
+export class CalendarFeed {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column({ select: false })
+  hashedToken: string; // sha256 of the token in the feed URL
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastFetchedAt: Date | null;
+
+  @Column({ unique: true })
+  profileId: number;
+
+  @OneToOne(() => Profile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'profileId' })
+  profile: Relation<Profile>;
+}
@@ -0,0 +1,43 @@
+import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+
+export enum InstitutionalEventType {
+  HOLIDAY = 'holiday',
+  EXAM_PERIOD = 'exam-period',
+  OTHER = 'other', // e.g. orientation week, graduation
+}
+
+// A date range published to everyone's calendar feed
+@Entity()
+export class InstitutionalEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: InstitutionalEventType,
+    default: InstitutionalEventType.OTHER,
+  })
+  type: InstitutionalEventType;
+
+  @Column('date')
+  startDate: string;
+
+  @Column('date')
+  endDate: string; // last day, inclusive
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
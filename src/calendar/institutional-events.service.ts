@@ -0,0 +1,66 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { InstitutionalEvent } from './entities/institutional-event.entity';
+import {
+  CreateInstitutionalEventDto,
+  UpdateInstitutionalEventDto,
+} from './dto';
+
+@Injectable()
+export class InstitutionalEventsService {
+  constructor(
+    @InjectRepository(InstitutionalEvent)
+    private eventRepository: Repository<InstitutionalEvent>,
+  ) {}
+
+  // Helper method to check the event dates are in order
+  private assertValidDates(
+    event: Pick<InstitutionalEvent, 'startDate' | 'endDate'>,
+  ) {
+    if (new Date(event.endDate) < new Date(event.startDate)) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+  }
+
+  async create(
+    createInstitutionalEventDto: CreateInstitutionalEventDto,
+  ): Promise<InstitutionalEvent> {
+    this.assertValidDates(createInstitutionalEventDto);
+    return this.eventRepository.save(createInstitutionalEventDto);
+  }
+
+  async findAll(): Promise<InstitutionalEvent[]> {
+    return this.eventRepository.find({ order: { startDate: 'ASC' } });
+  }
+
+  async findOne(id: number): Promise<InstitutionalEvent> {
+    const event = await this.eventRepository.findOneBy({ id });
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${id} not found`);
+    }
+    return event;
+  }
+
+  async update(
+    id: number,
+    updateInstitutionalEventDto: UpdateInstitutionalEventDto,
+  ): Promise<InstitutionalEvent> {
+    const event = await this.findOne(id);
+    this.assertValidDates({ ...event, ...updateInstitutionalEventDto });
+    await this.eventRepository.update(id, updateInstitutionalEventDto);
+    return this.findOne(id);
+  }
+
+  async remove(id: number): Promise<string> {
+    const result = await this.eventRepository.delete(id);
+    if (result.affected === 0) {
+      throw new NotFoundException(`Event with ID ${id} not found`);
+    }
+    return `Event with id ${id} has been removed`;
+  }
+}
@@ -0,0 +1,88 @@
+// An all-day event spanning one or more days
+export type CalendarEvent = {
+  uid: string;
+  title: string;
+  description?: string | null;
+  categories?: string[];
+  startDate: string; // "YYYY-MM-DD"
+  endDate: string; // last day, inclusive
+  updatedAt: Date;
+};
+
+// Lines longer than this many octets are folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// Helper to escape TEXT values (backslash, semicolon, comma and newlines)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Helper to fold a content line, continuation lines start with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+// Helper to get the day after a date (DTEND of an all-day event is exclusive)
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Render a VCALENDAR document with the events as all-day VEVENTs
+export function renderCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//University API//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatTimestamp(event.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.startDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay(event.endDate))}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(event.description
+        ? [`DESCRIPTION:${escapeText(event.description)}`]
+        : []),
+      ...(event.categories?.length
+        ? [`CATEGORIES:${event.categories.map(escapeText).join(',')}`]
+        : []),
+      'TRANSP:TRANSPARENT', // spans are informational, they do not make the day busy
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
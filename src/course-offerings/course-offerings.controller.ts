@@ -0,0 +1,225 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  ParseEnumPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { CourseOfferingsService } from './course-offerings.service';
+import { CreateCourseOfferingDto, UpdateCourseOfferingDto } from './dto';
+import {
+  RequirePermissions,
+  CheckPolicies,
+  GetCurrentUserId,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard, PoliciesGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import {
+  TaughtOfferingPolicy,
+  RequisiteOverridePolicy,
+} from 'src/permissions/policies';
+import { EnrollmentsService } from 'src/enrollments/enrollments.service';
+import { NoCache } from 'src/http-cache.interceptor';
+import { TimetableService } from 'src/timetable/timetable.service';
+import { CreateMeetingTimeDto, UpdateMeetingTimeDto } from 'src/timetable/dto';
+import { EnrollmentStatus } from 'src/enrollments/entities/enrollment.entity';
+import {
+  EnrollmentChangeDto,
+  UpdateEnrollmentStatusDto,
+} from 'src/enrollments/dto';
+
+@ApiTags('course-offerings')
+@ApiBearerAuth()
+@Controller('course-offerings')
+@UseGuards(AtGuard, PermissionsGuard, PoliciesGuard)
+export class CourseOfferingsController {
+  constructor(
+    private readonly courseOfferingsService: CourseOfferingsService,
+    private readonly enrollmentsService: EnrollmentsService,
+    private readonly timetableService: TimetableService,
+  ) {}
+
+  // http://localhost:8000/course-offerings
+  @RequirePermissions(Permission.OFFERINGS_CREATE)
+  @Post()
+  create(@Body() createCourseOfferingDto: CreateCourseOfferingDto) {
+    return this.courseOfferingsService.create(createCourseOfferingDto);
+  }
+
+  // http://localhost:8000/course-offerings?termId=1&courseId=2
+  @ApiQuery({ name: 'termId', required: false, type: Number })
+  @ApiQuery({ name: 'courseId', required: false, type: Number })
+  @RequirePermissions(Permission.OFFERINGS_READ)
+  @Get()
+  findAll(
+    @Query('termId', new ParseIntPipe({ optional: true })) termId?: number,
+    @Query('courseId', new ParseIntPipe({ optional: true })) courseId?: number,
+  ) {
+    return this.courseOfferingsService.findAll({ termId, courseId });
+  }
+
+  // http://localhost:8000/course-offerings/1
+  @RequirePermissions(Permission.OFFERINGS_READ)
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.courseOfferingsService.findOne(id);
+  }
+
+  // http://localhost:8000/course-offerings/1
+  @RequirePermissions(Permission.OFFERINGS_UPDATE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateCourseOfferingDto: UpdateCourseOfferingDto,
+  ) {
+    return this.courseOfferingsService.update(id, updateCourseOfferingDto);
+  }
+
+  // http://localhost:8000/course-offerings/1
+  @RequirePermissions(Permission.OFFERINGS_DELETE)
+  @Delete(':id')
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.courseOfferingsService.remove(id);
+  }
+
+  // Endpoints for scheduling the offering's meeting times
+
+  // http://localhost:8000/course-offerings/1/meetings
+  @RequirePermissions(Permission.OFFERINGS_READ)
+  @Get(':id/meetings')
+  getMeetings(@Param('id', ParseIntPipe) id: number) {
+    return this.timetableService.getMeetings(id);
+  }
+
+  // http://localhost:8000/course-offerings/1/meetings (409 when the room or a lecturer is already booked)
+  @RequirePermissions(Permission.OFFERINGS_UPDATE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Post(':id/meetings')
+  addMeeting(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createMeetingTimeDto: CreateMeetingTimeDto,
+  ) {
+    return this.timetableService.addMeeting(id, createMeetingTimeDto);
+  }
+
+  // http://localhost:8000/course-offerings/1/meetings/2
+  @RequirePermissions(Permission.OFFERINGS_UPDATE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Patch(':offeringId/meetings/:meetingId')
+  updateMeeting(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('meetingId', ParseIntPipe) meetingId: number,
+    @Body() updateMeetingTimeDto: UpdateMeetingTimeDto,
+  ) {
+    return this.timetableService.updateMeeting(
+      offeringId,
+      meetingId,
+      updateMeetingTimeDto,
+    );
+  }
+
+  // http://localhost:8000/course-offerings/1/meetings/2
+  @RequirePermissions(Permission.OFFERINGS_UPDATE)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Delete(':offeringId/meetings/:meetingId')
+  removeMeeting(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('meetingId', ParseIntPipe) meetingId: number,
+  ) {
+    return this.timetableService.removeMeeting(offeringId, meetingId);
+  }
+
+  // Endpoints for managing offering enrollments
+
+  // http://localhost:8000/course-offerings/1/students
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @NoCache()
+  @Get(':id/students')
+  getEnrolledStudents(@Param('id', ParseIntPipe) id: number) {
+    return this.enrollmentsService.getOfferingStudents(id);
+  }
+
+  // http://localhost:8000/course-offerings/1/waitlist (in promotion order)
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @NoCache()
+  @Get(':id/waitlist')
+  getWaitlist(@Param('id', ParseIntPipe) id: number) {
+    return this.enrollmentsService.getWaitlist(id);
+  }
+
+  // http://localhost:8000/course-offerings/1/enrollments?status=dropped
+  // Every enrollment in the offering, including dropped ones, with its status history
+  @ApiQuery({ name: 'status', required: false, enum: EnrollmentStatus })
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @NoCache()
+  @Get(':id/enrollments')
+  getEnrollments(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('status', new ParseEnumPipe(EnrollmentStatus, { optional: true }))
+    status?: EnrollmentStatus,
+  ) {
+    return this.enrollmentsService.findOfferingEnrollments({ id }, status);
+  }
+
+  // http://localhost:8000/course-offerings/1/students/2 (waitlists the student when the offering is full)
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtOfferingPolicy, RequisiteOverridePolicy)
+  @Post(':offeringId/students/:studentId')
+  enroll(
+    @GetCurrentUserId() actorId: number,
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('studentId', ParseIntPipe) studentId: number,
+    @Body() enrollmentChangeDto: EnrollmentChangeDto,
+  ) {
+    return this.enrollmentsService.enroll(offeringId, studentId, {
+      actorId,
+      reason: enrollmentChangeDto.reason,
+      overrideRequisites: enrollmentChangeDto.overrideRequisites,
+    });
+  }
+
+  // http://localhost:8000/course-offerings/1/students/2 (drops, or withdraws after the add/drop deadline)
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Delete(':offeringId/students/:studentId')
+  unenroll(
+    @GetCurrentUserId() actorId: number,
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('studentId', ParseIntPipe) studentId: number,
+    @Body() enrollmentChangeDto: EnrollmentChangeDto,
+  ) {
+    return this.enrollmentsService.unenroll(offeringId, studentId, {
+      actorId,
+      reason: enrollmentChangeDto.reason,
+    });
+  }
+
+  // http://localhost:8000/course-offerings/1/students/2 (e.g. mark completed or reinstate)
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Patch(':offeringId/students/:studentId')
+  updateEnrollmentStatus(
+    @GetCurrentUserId() actorId: number,
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('studentId', ParseIntPipe) studentId: number,
+    @Body() updateEnrollmentStatusDto: UpdateEnrollmentStatusDto,
+  ) {
+    return this.enrollmentsService.updateStatus(
+      offeringId,
+      studentId,
+      updateEnrollmentStatusDto.status,
+      { actorId, reason: updateEnrollmentStatusDto.reason },
+    );
+  }
+}
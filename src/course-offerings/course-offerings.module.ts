@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { CourseOffering } from './entities/course-offering.entity';
+import { CourseOfferingsService } from './course-offerings.service';
+import { CourseOfferingsController } from './course-offerings.controller';
+import { Course } from 'src/courses/entities/course.entity';
+import { AcademicTerm } from 'src/academic-terms/entities/academic-term.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { EnrollmentsModule } from 'src/enrollments/enrollments.module';
+import { TimetableModule } from 'src/timetable/timetable.module';
+import { PermissionsGuard } from 'src/auth/guards';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([CourseOffering, Course, AcademicTerm, Lecturer]),
+    EnrollmentsModule,
+    TimetableModule,
+  ],
+  controllers: [CourseOfferingsController],
+  providers: [CourseOfferingsService, PermissionsGuard],
+  exports: [CourseOfferingsService], // used by the student and course enrollment endpoints
+})
+export class CourseOfferingsModule {}
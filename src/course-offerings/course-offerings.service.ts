@@ -0,0 +1,230 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, Repository } from 'typeorm';
+import { CourseOffering } from './entities/course-offering.entity';
+import { CreateCourseOfferingDto, UpdateCourseOfferingDto } from './dto';
+import { Course } from 'src/courses/entities/course.entity';
+import {
+  AcademicTerm,
+  TermStatus,
+} from 'src/academic-terms/entities/academic-term.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { EnrollmentsService } from 'src/enrollments/enrollments.service';
+import { TimetableService } from 'src/timetable/timetable.service';
+
+export type CourseOfferingFilters = {
+  termId?: number;
+  courseId?: number;
+};
+
+/*
+- Purpose: Runs catalog courses in academic terms
+- How it works: An offering links a Course to an AcademicTerm (one row per section) with its own lecturers
+  and enrollments (see EnrollmentsService), so a course can run every term while past terms keep their
+  enrollments. Course-based enrollment (students/:id/courses/:courseId, courses/:id/students/:studentId)
+  resolves the course's open offering with findOpenOffering. Meeting times and rooms are scheduled by
+  TimetableService.
+*/
+@Injectable()
+export class CourseOfferingsService {
+  constructor(
+    @InjectRepository(CourseOffering)
+    private offeringRepository: Repository<CourseOffering>,
+    @InjectRepository(Course) private courseRepository: Repository<Course>,
+    @InjectRepository(AcademicTerm)
+    private termRepository: Repository<AcademicTerm>,
+    @InjectRepository(Lecturer)
+    private lecturerRepository: Repository<Lecturer>,
+    private enrollmentsService: EnrollmentsService,
+    private timetableService: TimetableService,
+  ) {}
+
+  // Helper method to load lecturers by id and fail on unknown ids
+  private async findLecturers(lecturerIds: number[]): Promise<Lecturer[]> {
+    const lecturers = await this.lecturerRepository.findBy({
+      id: In(lecturerIds),
+    });
+    if (lecturers.length !== lecturerIds.length) {
+      const foundIds = lecturers.map((lecturer) => lecturer.id);
+      const missingIds = lecturerIds.filter((id) => !foundIds.includes(id));
+      throw new NotFoundException(
+        `Lecturers with IDs ${missingIds.join(', ')} not found`,
+      );
+    }
+    return lecturers;
+  }
+
+  // Helper method to check the offering dates fall inside its term
+  private assertWithinTerm(
+    term: AcademicTerm,
+    dates: { startDate?: string | null; endDate?: string | null },
+  ) {
+    const startDate = dates.startDate ?? term.startDate;
+    const endDate = dates.endDate ?? term.endDate;
+    if (
+      new Date(startDate) < new Date(term.startDate) ||
+      new Date(endDate) > new Date(term.endDate) ||
+      new Date(endDate) < new Date(startDate)
+    ) {
+      throw new BadRequestException(
+        `Offering dates must lie within the term (${term.startDate} - ${term.endDate})`,
+      );
+    }
+  }
+
+  async create(
+    createCourseOfferingDto: CreateCourseOfferingDto,
+  ): Promise<CourseOffering> {
+    const course = await this.courseRepository.findOneBy({
+      id: createCourseOfferingDto.courseId,
+    });
+    if (!course) {
+      throw new NotFoundException(
+        `Course with ID ${createCourseOfferingDto.courseId} not found`,
+      );
+    }
+    const term = await this.termRepository.findOneBy({
+      id: createCourseOfferingDto.termId,
+    });
+    if (!term) {
+      throw new NotFoundException(
+        `Term with ID ${createCourseOfferingDto.termId} not found`,
+      );
+    }
+    this.assertWithinTerm(term, createCourseOfferingDto);
+
+    const section = createCourseOfferingDto.section ?? 'A';
+    if (
+      await this.offeringRepository.existsBy({
+        courseId: course.id,
+        termId: term.id,
+        section,
+      })
+    ) {
+      throw new ConflictException(
+        `Section ${section} of course ${course.id} already runs in term ${term.name}`,
+      );
+    }
+
+    // without explicit lecturers the section is taught by the lecturers assigned to the course
+    const lecturers = createCourseOfferingDto.lecturerIds
+      ? await this.findLecturers(createCourseOfferingDto.lecturerIds)
+      : await this.lecturerRepository.find({
+          where: { courses: { id: course.id } },
+        });
+
+    const saved = await this.offeringRepository.save({
+      course,
+      term,
+      section,
+      startDate: createCourseOfferingDto.startDate ?? null,
+      endDate: createCourseOfferingDto.endDate ?? null,
+      capacity: createCourseOfferingDto.capacity ?? null,
+      lecturers,
+    });
+    return this.findOne(saved.id);
+  }
+
+  async findAll(filters: CourseOfferingFilters): Promise<CourseOffering[]> {
+    const where: FindOptionsWhere<CourseOffering> = {};
+    if (filters.termId) where.termId = filters.termId;
+    if (filters.courseId) where.courseId = filters.courseId;
+
+    return this.offeringRepository.find({
+      where,
+      relations: ['course', 'term', 'lecturers', 'lecturers.profile'],
+      order: { termId: 'DESC', courseId: 'ASC', section: 'ASC' },
+    });
+  }
+
+  async findOne(id: number): Promise<CourseOffering> {
+    const offering = await this.offeringRepository.findOne({
+      where: { id },
+      relations: ['course', 'term', 'lecturers', 'lecturers.profile'],
+    });
+    if (!offering) {
+      throw new NotFoundException(`Course offering with ID ${id} not found`);
+    }
+    return offering;
+  }
+
+  async update(
+    id: number,
+    updateCourseOfferingDto: UpdateCourseOfferingDto,
+  ): Promise<CourseOffering> {
+    const offering = await this.findOne(id);
+    this.assertWithinTerm(offering.term, {
+      startDate: updateCourseOfferingDto.startDate ?? offering.startDate,
+      endDate: updateCourseOfferingDto.endDate ?? offering.endDate,
+    });
+
+    if (updateCourseOfferingDto.section) {
+      offering.section = updateCourseOfferingDto.section;
+    }
+    if (updateCourseOfferingDto.startDate) {
+      offering.startDate = updateCourseOfferingDto.startDate;
+    }
+    if (updateCourseOfferingDto.endDate) {
+      offering.endDate = updateCourseOfferingDto.endDate;
+    }
+    if (updateCourseOfferingDto.lecturerIds) {
+      await this.timetableService.assertNoLecturerClashes(
+        id,
+        updateCourseOfferingDto.lecturerIds,
+      );
+      offering.lecturers = await this.findLecturers(
+        updateCourseOfferingDto.lecturerIds,
+      );
+    }
+    if (updateCourseOfferingDto.capacity !== undefined) {
+      offering.capacity = updateCourseOfferingDto.capacity; // null falls back to the course's capacity
+    }
+    await this.offeringRepository.save(offering);
+    if (updateCourseOfferingDto.capacity !== undefined) {
+      await this.enrollmentsService.fillFromWaitlist(id);
+    }
+    return this.findOne(id);
+  }
+
+  async remove(id: number): Promise<string> {
+    const hasEnrollments = await this.offeringRepository
+      .createQueryBuilder('offering')
+      .innerJoin('offering.enrollments', 'enrollment')
+      .where('offering.id = :id', { id })
+      .getExists();
+    if (hasEnrollments) {
+      throw new ConflictException(
+        `Course offering with ID ${id} has enrollments and cannot be removed`,
+      );
+    }
+    const result = await this.offeringRepository.delete(id);
+    if (result.affected === 0) {
+      throw new NotFoundException(`Course offering with ID ${id} not found`);
+    }
+    return `Course offering with id ${id} has been removed`;
+  }
+
+  // The offering of a course that students can enroll in right now
+  async findOpenOffering(courseId: number): Promise<CourseOffering> {
+    const offerings = await this.offeringRepository.find({
+      where: { courseId, term: { status: TermStatus.OPEN } },
+      relations: ['term'],
+    });
+    if (offerings.length === 0) {
+      throw new BadRequestException(
+        `Course with ID ${courseId} has no offering open for enrollment`,
+      );
+    }
+    if (offerings.length > 1) {
+      throw new ConflictException(
+        `Course with ID ${courseId} has several open offerings (${offerings.map((offering) => offering.id).join(', ')}); enroll in one of them directly`,
+      );
+    }
+    return offerings[0];
+  }
+}
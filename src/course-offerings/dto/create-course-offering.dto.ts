@@ -0,0 +1,89 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class CreateCourseOfferingDto {
+  @ApiProperty({
+    description: 'The ID of the catalog course',
+    example: 1,
+  })
+  @IsInt()
+  courseId: number;
+
+  @ApiProperty({
+    description: 'The ID of the academic term the course runs in',
+    example: 1,
+  })
+  @IsInt()
+  termId: number;
+
+  @ApiProperty({
+    description:
+      'The section label, to run the course more than once in a term',
+    example: 'A',
+    default: 'A',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  section?: string;
+
+  @ApiProperty({
+    description:
+      'The first day of the offering, when it starts after the term starts',
+    example: '2025-09-01',
+    type: String,
+    format: 'date',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiProperty({
+    description:
+      'The last day of the offering, when it ends before the term ends',
+    example: '2025-10-24',
+    type: String,
+    format: 'date',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  @ApiProperty({
+    description:
+      "The number of seats in this offering. Defaults to the course's capacity",
+    example: 30,
+    type: Number,
+    nullable: true,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number | null;
+
+  @ApiProperty({
+    description:
+      'The IDs of the lecturers teaching this offering. Defaults to the lecturers assigned to the course',
+    example: [1],
+    type: [Number],
+    required: false,
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @IsOptional()
+  lecturerIds?: number[];
+}
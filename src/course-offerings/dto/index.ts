@@ -0,0 +1,2 @@
+export * from './create-course-offering.dto';
+export * from './update-course-offering.dto';
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCourseOfferingDto } from './create-course-offering.dto';
+
+// The course and term of an offering are fixed; create another offering instead
+export class UpdateCourseOfferingDto extends PartialType(
+  OmitType(CreateCourseOfferingDto, ['courseId', 'termId'] as const),
+) {}
@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  ManyToMany,
+  OneToMany,
+  JoinColumn,
+  JoinTable,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Course } from '../../courses/entities/course.entity';
+import { AcademicTerm } from '../../academic-terms/entities/academic-term.entity';
+import { Lecturer } from '../../lecturer/entities/lecturer.entity';
+import { Enrollment } from '../../enrollments/entities/enrollment.entity';
+import { MeetingTime } from '../../timetable/entities/meeting-time.entity';
+
+// A section of a catalog course running in one academic term
+@Entity()
+@Index(['courseId', 'termId', 'section'], { unique: true })
+export class CourseOffering {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ default: 'A' })
+  section: string; // tells apart several sections of the same course in a term
+
+  // Dates of this offering when it does not span the whole term (e.g. a half-term module)
+  @Column('date', { nullable: true })
+  startDate: string | null;
+
+  @Column('date', { nullable: true })
+  endDate: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  capacity: number | null; // seats in this section, null to use the course's capacity
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @Column()
+  courseId: number;
+
+  // a course with offerings cannot be deleted, the offerings carry enrollment history
+  @ManyToOne(() => Course, (course) => course.offerings, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'courseId' })
+  course: Relation<Course>;
+
+  @Column()
+  termId: number;
+
+  // terms with offerings are archived instead of deleted
+  @ManyToOne(() => AcademicTerm, (term) => term.offerings, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'termId' })
+  term: Relation<AcademicTerm>;
+
+  // Lecturers teaching this section
+  @ManyToMany(() => Lecturer)
+  @JoinTable() // will create course_offering_lecturers_lecturer join table
+  lecturers: Relation<Lecturer[]>;
+
+  // Students' enrollments in this section, including dropped and past ones
+  @OneToMany(() => Enrollment, (enrollment) => enrollment.offering)
+  enrollments: Relation<Enrollment[]>;
+
+  // When and where the section meets
+  @OneToMany(() => MeetingTime, (meetingTime) => meetingTime.offering)
+  meetingTimes: Relation<MeetingTime[]>;
+}
@@ -0,0 +1,148 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { CourseRequisitesService } from './course-requisites.service';
+import { Course } from './entities/course.entity';
+import {
+  CourseRequisite,
+  RequisiteType,
+} from './entities/course-requisite.entity';
+
+describe('CourseRequisitesService', () => {
+  let service: CourseRequisitesService;
+  let requisites: Pick<
+    CourseRequisite,
+    'courseId' | 'requiredCourseId' | 'type' | 'groupNumber'
+  >[];
+
+  const course = (id: number) => ({ id, title: `Course ${id}`, credits: 5 });
+
+  const courseRepository = {
+    findOneBy: ({ id }: { id: number }) => Promise.resolve(course(id)),
+    findBy: ({ id }: { id: FindOperator<number[]> }) =>
+      Promise.resolve(
+        (id.value as unknown as number[]).map((courseId) => course(courseId)),
+      ),
+  };
+  const requisiteRepository = {
+    // findBy({ courseId: Not(courseId) }): the requirements of every other course
+    findBy: ({ courseId }: { courseId: FindOperator<number> }) =>
+      Promise.resolve(
+        requisites.filter((requisite) => requisite.courseId !== courseId.value),
+      ),
+    find: () => Promise.resolve([]),
+    manager: {
+      transaction: (
+        work: (manager: {
+          delete: () => Promise<void>;
+          save: (entity: unknown, rows: typeof requisites) => Promise<void>;
+        }) => Promise<void>,
+      ) =>
+        work({
+          delete: () => Promise.resolve(),
+          save: (_entity, rows) => {
+            requisites.push(...rows);
+            return Promise.resolve();
+          },
+        }),
+    },
+  };
+
+  // Helper to store a requirement of one course on another
+  const requires = (
+    courseId: number,
+    requiredCourseId: number,
+    type = RequisiteType.PREREQUISITE,
+  ) => requisites.push({ courseId, requiredCourseId, type, groupNumber: 1 });
+
+  beforeEach(async () => {
+    requisites = [];
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        CourseRequisitesService,
+        {
+          provide: getRepositoryToken(CourseRequisite),
+          useValue: requisiteRepository,
+        },
+        { provide: getRepositoryToken(Course), useValue: courseRepository },
+      ],
+    }).compile();
+
+    service = moduleRef.get(CourseRequisitesService);
+  });
+
+  describe('setRequisites', () => {
+    it('stores requirements that keep the graph acyclic', async () => {
+      requires(2, 3);
+
+      await service.setRequisites(1, {
+        prerequisites: [{ courseIds: [2] }],
+        corequisites: [],
+      });
+
+      expect(requisites).toContainEqual({
+        courseId: 1,
+        requiredCourseId: 2,
+        type: RequisiteType.PREREQUISITE,
+        groupNumber: 1,
+      });
+    });
+
+    it('refuses a course that requires itself', async () => {
+      await expect(
+        service.setRequisites(1, {
+          prerequisites: [{ courseIds: [1] }],
+          corequisites: [],
+        }),
+      ).rejects.toThrow('A course cannot require itself');
+    });
+
+    it('refuses a prerequisite that closes a cycle through other courses', async () => {
+      requires(2, 3);
+      requires(3, 1);
+
+      await expect(
+        service.setRequisites(1, {
+          prerequisites: [{ courseIds: [2] }],
+          corequisites: [],
+        }),
+      ).rejects.toThrow('Requirement cycle between courses 1 -> 2 -> 3 -> 1');
+    });
+
+    it('refuses a corequisite whose cycle contains a prerequisite', async () => {
+      requires(2, 1);
+
+      await expect(
+        service.setRequisites(1, {
+          prerequisites: [],
+          corequisites: [{ courseIds: [2] }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('allows mutual corequisites', async () => {
+      requires(2, 1, RequisiteType.COREQUISITE);
+
+      await expect(
+        service.setRequisites(1, {
+          prerequisites: [],
+          corequisites: [{ courseIds: [2] }],
+        }),
+      ).resolves.toMatchObject({ id: 1 });
+    });
+
+    it('keeps the current requirements when a cycle is refused', async () => {
+      requires(2, 1);
+
+      await expect(
+        service.setRequisites(1, {
+          prerequisites: [{ courseIds: [2] }],
+          corequisites: [],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(requisites).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import { Course } from './entities/course.entity';
+import {
+  CourseRequisite,
+  RequisiteType,
+} from './entities/course-requisite.entity';
+import { SetCourseRequisitesDto } from './dto/set-course-requisites.dto';
+import { groupRequisites } from './utils/requisite-groups.util';
+
+type RequisiteEdge = { requiredCourseId: number; type: RequisiteType };
+
+export type RequisiteTreeNode = {
+  id: number;
+  title: string;
+  credits: number;
+  prerequisites: { anyOf: RequisiteTreeNode[] }[]; // every group must be met
+  corequisites: { anyOf: Pick<Course, 'id' | 'title'>[] }[];
+};
+
+/*
+- Purpose: Manages the prerequisite and corequisite requirements between courses
+- How it works: Requirements are stored as CourseRequisite rows in numbered groups (AND of OR groups). Setting
+  them replaces all groups of the course after checking the requirement graph stays acyclic: a cycle that
+  contains a prerequisite could never be met, while mutual corequisites (taken together) are allowed.
+  The checks at enrollment time live in EnrollmentsService.
+*/
+@Injectable()
+export class CourseRequisitesService {
+  constructor(
+    @InjectRepository(CourseRequisite)
+    private requisiteRepository: Repository<CourseRequisite>,
+    @InjectRepository(Course) private courseRepository: Repository<Course>,
+  ) {}
+
+  // Helper method to load a course or fail
+  private async findCourse(courseId: number): Promise<Course> {
+    const course = await this.courseRepository.findOneBy({ id: courseId });
+    if (!course) {
+      throw new NotFoundException(`Course with ID ${courseId} not found`);
+    }
+    return course;
+  }
+
+  // Helper method to find a path of requirements from one course to another that contains a prerequisite
+  private findCycle(
+    graph: Map<number, RequisiteEdge[]>,
+    from: number,
+    to: number,
+    viaPrerequisite: boolean,
+  ): number[] | null {
+    const visited = new Set<string>();
+    const visit = (
+      courseId: number,
+      hasPrerequisite: boolean,
+      path: number[],
+    ): number[] | null => {
+      if (courseId === to) {
+        return hasPrerequisite ? path : null;
+      }
+      const key = `${courseId}:${hasPrerequisite}`;
+      if (visited.has(key)) return null;
+      visited.add(key);
+      for (const edge of graph.get(courseId) ?? []) {
+        const cycle = visit(
+          edge.requiredCourseId,
+          hasPrerequisite || edge.type === RequisiteType.PREREQUISITE,
+          [...path, edge.requiredCourseId],
+        );
+        if (cycle) return cycle;
+      }
+      return null;
+    };
+    return visit(from, viaPrerequisite, [from]);
+  }
+
+  // Helper method to reject new requirements of a course that would close a cycle
+  private async assertNoCycle(courseId: number, edges: RequisiteEdge[]) {
+    const graph = new Map<number, RequisiteEdge[]>();
+    const others = await this.requisiteRepository.findBy({
+      courseId: Not(courseId),
+    });
+    for (const requisite of others) {
+      graph.set(requisite.courseId, [
+        ...(graph.get(requisite.courseId) ?? []),
+        requisite,
+      ]);
+    }
+
+    for (const edge of edges) {
+      const cycle = this.findCycle(
+        graph,
+        edge.requiredCourseId,
+        courseId,
+        edge.type === RequisiteType.PREREQUISITE,
+      );
+      if (cycle) {
+        throw new BadRequestException(
+          `Requirement cycle between courses ${[courseId, ...cycle].join(' -> ')}`,
+        );
+      }
+    }
+  }
+
+  // Replace the prerequisite and corequisite groups of a course
+  async setRequisites(
+    courseId: number,
+    setCourseRequisitesDto: SetCourseRequisitesDto,
+  ): Promise<RequisiteTreeNode> {
+    await this.findCourse(courseId);
+
+    const groups = [
+      ...setCourseRequisitesDto.prerequisites.map((group, index) => ({
+        type: RequisiteType.PREREQUISITE,
+        groupNumber: index + 1,
+        courseIds: group.courseIds,
+      })),
+      ...setCourseRequisitesDto.corequisites.map((group, index) => ({
+        type: RequisiteType.COREQUISITE,
+        groupNumber: index + 1,
+        courseIds: group.courseIds,
+      })),
+    ];
+    const rows = groups.flatMap(({ type, groupNumber, courseIds }) =>
+      courseIds.map((requiredCourseId) => ({
+        courseId,
+        type,
+        groupNumber,
+        requiredCourseId,
+      })),
+    );
+
+    const requiredIds = [...new Set(rows.map((row) => row.requiredCourseId))];
+    if (requiredIds.includes(courseId)) {
+      throw new BadRequestException('A course cannot require itself');
+    }
+    const found = await this.courseRepository.findBy({ id: In(requiredIds) });
+    if (found.length !== requiredIds.length) {
+      const foundIds = found.map((course) => course.id);
+      const missingIds = requiredIds.filter((id) => !foundIds.includes(id));
+      throw new NotFoundException(
+        `Courses with IDs ${missingIds.join(', ')} not found`,
+      );
+    }
+    await this.assertNoCycle(courseId, rows);
+
+    await this.requisiteRepository.manager.transaction(async (manager) => {
+      await manager.delete(CourseRequisite, { courseId });
+      await manager.save(CourseRequisite, rows);
+    });
+    return this.getTree(courseId);
+  }
+
+  // The course with its prerequisite groups expanded down the chain, and its corequisite groups
+  async getTree(courseId: number): Promise<RequisiteTreeNode> {
+    const course = await this.findCourse(courseId);
+    const requisites = await this.requisiteRepository.find({
+      relations: ['requiredCourse'],
+      order: { requiredCourseId: 'ASC' },
+    });
+    const byCourse = new Map<number, CourseRequisite[]>();
+    for (const requisite of requisites) {
+      byCourse.set(requisite.courseId, [
+        ...(byCourse.get(requisite.courseId) ?? []),
+        requisite,
+      ]);
+    }
+
+    // path guards against cycles left in the data, which setRequisites never creates
+    const build = (node: Course, path: Set<number>): RequisiteTreeNode => {
+      const own = byCourse.get(node.id) ?? [];
+      const inner = new Set(path).add(node.id);
+      return {
+        id: node.id,
+        title: node.title,
+        credits: node.credits,
+        prerequisites: groupRequisites(own, RequisiteType.PREREQUISITE).map(
+          (group) => ({
+            anyOf: group
+              .filter((requisite) => !inner.has(requisite.requiredCourseId))
+              .map((requisite) => build(requisite.requiredCourse, inner)),
+          }),
+        ),
+        corequisites: groupRequisites(own, RequisiteType.COREQUISITE).map(
+          (group) => ({
+            anyOf: group.map(({ requiredCourse }) => ({
+              id: requiredCourse.id,
+              title: requiredCourse.title,
+            })),
+          }),
+        ),
+      };
+    };
+    return build(course, new Set());
+  }
+}
@@ -4,29 +4,47 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   ParseIntPipe,
+  ParseEnumPipe,
   Query,
   UseGuards,
 } from '@nestjs/common';
 import { CoursesService } from './courses.service';
+import { CourseRequisitesService } from './course-requisites.service';
 import { CreateCourseDto } from './dto/create-course.dto';
 import { UpdateCourseDto } from './dto/update-course.dto';
-import { Roles } from 'src/auth/decorators';
-import { AtGuard, RolesGuard } from 'src/auth/guards';
-import { Role } from '../profiles/entities/profile.entity';
+import { SetCourseRequisitesDto } from './dto/set-course-requisites.dto';
+import {
+  RequirePermissions,
+  CheckPolicies,
+  GetCurrentUserId,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard, PoliciesGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import { NoCache } from 'src/http-cache.interceptor';
+import {
+  TaughtCoursePolicy,
+  RequisiteOverridePolicy,
+} from 'src/permissions/policies';
 import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { EnrollmentChangeDto } from 'src/enrollments/dto';
+import { EnrollmentStatus } from 'src/enrollments/entities/enrollment.entity';
 
 @ApiTags('courses')
 @ApiBearerAuth()
 @Controller('courses')
-@UseGuards(AtGuard, RolesGuard)
+@UseGuards(AtGuard, PermissionsGuard, PoliciesGuard)
 export class CoursesController {
-  constructor(private readonly coursesService: CoursesService) {}
+  constructor(
+    private readonly coursesService: CoursesService,
+    private readonly courseRequisitesService: CourseRequisitesService,
+  ) {}
 
   // http://localhost:3000/courses
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.COURSES_CREATE)
   @Post()
   create(@Body() createCourseDto: CreateCourseDto) {
     return this.coursesService.create(createCourseDto);
@@ -38,21 +56,22 @@ export class CoursesController {
     required: false,
     description: 'Filter course by search',
   })
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  @RequirePermissions(Permission.COURSES_READ)
   @Get()
   findAll(@Query('search') search?: string) {
     return this.coursesService.findAll(search);
   }
 
   // http://localhost:3000/courses/1
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  @RequirePermissions(Permission.COURSES_READ)
   @Get(':id')
   findOne(@Param('id', ParseIntPipe) id: number) {
     return this.coursesService.findOne(id);
   }
 
   // http://localhost:3000/courses/1
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.COURSES_UPDATE)
+  @CheckPolicies(TaughtCoursePolicy)
   @Patch(':id')
   update(
     @Param('id', ParseIntPipe) id: number,
@@ -62,38 +81,102 @@ export class CoursesController {
   }
 
   // http://localhost:3000/courses/1
-  @Roles(Role.ADMIN)
+  @RequirePermissions(Permission.COURSES_DELETE)
   @Delete(':id')
   remove(@Param('id', ParseIntPipe) id: number) {
     return this.coursesService.remove(id);
   }
 
+  // Endpoints for managing course requisites
+
+  // http://localhost:3000/courses/1/prerequisites (the prerequisite chain as a tree, with corequisites)
+  @RequirePermissions(Permission.COURSES_READ)
+  @Get(':id/prerequisites')
+  getPrerequisites(@Param('id', ParseIntPipe) id: number) {
+    return this.courseRequisitesService.getTree(id);
+  }
+
+  // http://localhost:3000/courses/1/prerequisites (replaces the prerequisite and corequisite groups)
+  @RequirePermissions(Permission.COURSES_UPDATE)
+  @CheckPolicies(TaughtCoursePolicy)
+  @Put(':id/prerequisites')
+  setPrerequisites(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() setCourseRequisitesDto: SetCourseRequisitesDto,
+  ) {
+    return this.courseRequisitesService.setRequisites(
+      id,
+      setCourseRequisitesDto,
+    );
+  }
+
   // Endpoints for managing course enrollments
 
-  // http://localhost:3000/courses/1/students
-  @Roles(Role.ADMIN)
+  // http://localhost:3000/courses/1/students?termId=1
+  @ApiQuery({
+    name: 'termId',
+    required: false,
+    type: Number,
+    description: 'Only students enrolled in this term',
+  })
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtCoursePolicy)
+  @NoCache()
   @Get(':id/students')
-  getEnrolledStudents(@Param('id', ParseIntPipe) id: number) {
-    return this.coursesService.getEnrolledStudents(id);
+  getEnrolledStudents(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('termId', new ParseIntPipe({ optional: true })) termId?: number,
+  ) {
+    return this.coursesService.getEnrolledStudents(id, termId);
+  }
+
+  // http://localhost:3000/courses/1/enrollments?termId=1&status=dropped
+  // Every enrollment in the course, including dropped ones, with its status history
+  @ApiQuery({ name: 'termId', required: false, type: Number })
+  @ApiQuery({ name: 'status', required: false, enum: EnrollmentStatus })
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtCoursePolicy)
+  @NoCache()
+  @Get(':id/enrollments')
+  getEnrollments(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('termId', new ParseIntPipe({ optional: true })) termId?: number,
+    @Query('status', new ParseEnumPipe(EnrollmentStatus, { optional: true }))
+    status?: EnrollmentStatus,
+  ) {
+    return this.coursesService.getEnrollments(id, termId, status);
   }
 
-  // http://localhost:3000/courses/1/students/2
-  @Roles(Role.ADMIN)
+  // http://localhost:3000/courses/1/students/2 (enrolls in the course's open offering, or its waitlist when full)
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtCoursePolicy, RequisiteOverridePolicy)
   @Post(':courseId/students/:studentId')
   addStudentToCourse(
+    @GetCurrentUserId() actorId: number,
     @Param('courseId', ParseIntPipe) courseId: number,
     @Param('studentId', ParseIntPipe) studentId: number,
+    @Body() enrollmentChangeDto: EnrollmentChangeDto,
   ) {
-    return this.coursesService.addStudentToCourse(courseId, studentId);
+    return this.coursesService.addStudentToCourse(courseId, studentId, {
+      actorId,
+      reason: enrollmentChangeDto.reason,
+      overrideRequisites: enrollmentChangeDto.overrideRequisites,
+    });
   }
 
-  // http://localhost:3000/courses/1/students/2
-  @Roles(Role.ADMIN)
+  // http://localhost:3000/courses/1/students/2 (drops, or withdraws after the add/drop deadline)
+  @RequirePermissions(Permission.COURSES_MANAGE_ENROLLMENTS)
+  @CheckPolicies(TaughtCoursePolicy)
   @Delete(':courseId/students/:studentId')
   removeStudentFromCourse(
+    @GetCurrentUserId() actorId: number,
     @Param('courseId', ParseIntPipe) courseId: number,
     @Param('studentId', ParseIntPipe) studentId: number,
+    @Body() enrollmentChangeDto: EnrollmentChangeDto,
   ) {
-    return this.coursesService.removeStudentFromCourse(courseId, studentId);
+    return this.coursesService.removeStudentFromCourse(courseId, studentId, {
+      actorId,
+      reason: enrollmentChangeDto.reason,
+    });
   }
 }
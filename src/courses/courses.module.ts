@@ -2,19 +2,31 @@ import { Module } from '@nestjs/common';
 import { CoursesService } from './courses.service';
 import { CoursesController } from './courses.controller';
 import { Course } from './entities/course.entity';
+import { CourseRequisite } from './entities/course-requisite.entity';
+import { CourseRequisitesService } from './course-requisites.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DatabaseModule } from 'src/database/database.module';
 import { Department } from '../departments/entities/department.entity';
 import { Student } from '../students/entities/student.entity';
 import { Profile } from '../profiles/entities/profile.entity';
-import { RolesGuard } from 'src/auth/guards';
+import { PermissionsGuard } from 'src/auth/guards';
+import { CourseOfferingsModule } from 'src/course-offerings/course-offerings.module';
+import { EnrollmentsModule } from 'src/enrollments/enrollments.module';
 
 @Module({
   imports: [
     DatabaseModule,
-    TypeOrmModule.forFeature([Course, Department, Student, Profile]),
+    TypeOrmModule.forFeature([
+      Course,
+      CourseRequisite,
+      Department,
+      Student,
+      Profile,
+    ]),
+    CourseOfferingsModule,
+    EnrollmentsModule,
   ],
-  providers: [CoursesService, RolesGuard],
+  providers: [CoursesService, CourseRequisitesService, PermissionsGuard],
   controllers: [CoursesController],
 })
 export class CoursesModule {}
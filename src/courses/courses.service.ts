@@ -1,4 +1,8 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { CreateCourseDto } from './dto/create-course.dto';
 import { UpdateCourseDto } from './dto/update-course.dto';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -6,6 +10,15 @@ import { Course } from './entities/course.entity';
 import { Repository, Like } from 'typeorm';
 import { Department } from '../departments/entities/department.entity';
 import { Student } from '../students/entities/student.entity';
+import { CourseOfferingsService } from '../course-offerings/course-offerings.service';
+import {
+  Enrollment,
+  EnrollmentStatus,
+} from '../enrollments/entities/enrollment.entity';
+import {
+  EnrollmentChange,
+  EnrollmentsService,
+} from '../enrollments/enrollments.service';
 
 @Injectable()
 export class CoursesService {
@@ -13,8 +26,8 @@ export class CoursesService {
     @InjectRepository(Course) private courseRepository: Repository<Course>,
     @InjectRepository(Department)
     private departmentRepository: Repository<Department>,
-    @InjectRepository(Student)
-    private studentRepository: Repository<Student>,
+    private courseOfferingsService: CourseOfferingsService,
+    private enrollmentsService: EnrollmentsService,
   ) {}
 
   async create(createCourseDto: CreateCourseDto): Promise<Course> {
@@ -35,8 +48,7 @@ export class CoursesService {
       description: createCourseDto.description,
       credits: createCourseDto.credits,
       duration: createCourseDto.duration,
-      startDate: createCourseDto.startDate,
-      endDate: createCourseDto.endDate,
+      capacity: createCourseDto.capacity ?? null,
       department: department, // Assign the actual department entity
     });
 
@@ -51,18 +63,18 @@ export class CoursesService {
           { title: Like(`%${search}%`) },
           { description: Like(`%${search}%`) },
         ],
-        relations: ['department', 'students'],
+        relations: ['department', 'offerings', 'offerings.term'],
       });
     }
     return this.courseRepository.find({
-      relations: ['department', 'students'],
+      relations: ['department', 'offerings', 'offerings.term'],
     });
   }
 
   async findOne(id: number): Promise<Course> {
     const course = await this.courseRepository.findOne({
       where: { id },
-      relations: ['department', 'students'], // Added students relation
+      relations: ['department', 'offerings', 'offerings.term'], // the terms the course runs in
     });
 
     if (!course) {
@@ -105,17 +117,39 @@ export class CoursesService {
       course.description = updateCourseDto.description;
     if (updateCourseDto.credits) course.credits = updateCourseDto.credits;
     if (updateCourseDto.duration) course.duration = updateCourseDto.duration;
-    if (updateCourseDto.startDate) course.startDate = updateCourseDto.startDate;
-    if (updateCourseDto.endDate) course.endDate = updateCourseDto.endDate;
+    if (updateCourseDto.capacity !== undefined)
+      course.capacity = updateCourseDto.capacity; // null removes the limit
 
     // Save the updated course
     await this.courseRepository.save(course);
 
+    // More seats in offerings without their own capacity go to their waitlists
+    if (updateCourseDto.capacity !== undefined) {
+      const offerings = await this.courseOfferingsService.findAll({
+        courseId: id,
+      });
+      for (const offering of offerings) {
+        if (offering.capacity === null) {
+          await this.enrollmentsService.fillFromWaitlist(offering.id);
+        }
+      }
+    }
+
     // Return the updated course
     return this.findOne(id);
   }
 
   async remove(id: number): Promise<void> {
+    const hasOfferings = await this.courseRepository
+      .createQueryBuilder('course')
+      .innerJoin('course.offerings', 'offering')
+      .where('course.id = :id', { id })
+      .getExists();
+    if (hasOfferings) {
+      throw new ConflictException(
+        `Course with ID ${id} has offerings and cannot be removed`,
+      );
+    }
     const result = await this.courseRepository.delete(id);
 
     if (result.affected === 0) {
@@ -125,84 +159,64 @@ export class CoursesService {
 
   // New methods for managing course enrollments
 
-  async getEnrolledStudents(courseId: number): Promise<Student[]> {
-    const course = await this.courseRepository.findOne({
-      where: { id: courseId },
-      relations: ['students', 'students.profile'], // Include profile information
-    });
-
-    if (!course) {
+  // Helper method to fail when the course does not exist
+  private async assertCourseExists(courseId: number) {
+    const courseExists = await this.courseRepository.existsBy({ id: courseId });
+    if (!courseExists) {
       throw new NotFoundException(`Course with ID ${courseId} not found`);
     }
-
-    return course.students || [];
   }
 
-  async addStudentToCourse(
+  // Students enrolled in the course's offerings, optionally limited to one term
+  async getEnrolledStudents(
     courseId: number,
-    studentId: number,
-  ): Promise<Course> {
-    // Find the course with students relation
-    const course = await this.courseRepository.findOne({
-      where: { id: courseId },
-      relations: ['students'],
+    termId?: number,
+  ): Promise<Student[]> {
+    await this.assertCourseExists(courseId);
+    return this.enrollmentsService.findEnrolledStudents({
+      courseId,
+      ...(termId && { termId }),
     });
+  }
 
-    if (!course) {
-      throw new NotFoundException(`Course with ID ${courseId} not found`);
-    }
-
-    // Find the student
-    const student = await this.studentRepository.findOneBy({ id: studentId });
-    if (!student) {
-      throw new NotFoundException(`Student with ID ${studentId} not found`);
-    }
-
-    // Initialize students array if it doesn't exist
-    if (!course.students) {
-      course.students = [];
-    }
-
-    // Check if student is already enrolled
-    const isAlreadyEnrolled = course.students.some(
-      (enrolledStudent) => enrolledStudent.id === studentId,
+  // Every enrollment in the course's offerings (including dropped ones) with its status history
+  async getEnrollments(
+    courseId: number,
+    termId?: number,
+    status?: EnrollmentStatus,
+  ): Promise<Enrollment[]> {
+    await this.assertCourseExists(courseId);
+    return this.enrollmentsService.findOfferingEnrollments(
+      { courseId, ...(termId && { termId }) },
+      status,
     );
+  }
 
-    if (!isAlreadyEnrolled) {
-      course.students.push(student);
-      await this.courseRepository.save(course);
-    }
-
-    return course;
+  // Enrolls the student in the course's offering that is open for enrollment
+  async addStudentToCourse(
+    courseId: number,
+    studentId: number,
+    change: EnrollmentChange,
+  ): Promise<Enrollment> {
+    const offering =
+      await this.courseOfferingsService.findOpenOffering(courseId);
+    return this.enrollmentsService.enroll(offering.id, studentId, change);
   }
 
+  // Drops (or withdraws) the student from the course's open offering they are enrolled in
   async removeStudentFromCourse(
     courseId: number,
     studentId: number,
-  ): Promise<Course> {
-    // Find the course with students relation
-    const course = await this.courseRepository.findOne({
-      where: { id: courseId },
-      relations: ['students'],
-    });
-
-    if (!course) {
-      throw new NotFoundException(`Course with ID ${courseId} not found`);
-    }
-
-    // Check if the course has any enrolled students
-    if (!course.students || course.students.length === 0) {
-      throw new NotFoundException(
-        `Course with ID ${courseId} has no enrolled students`,
-      );
-    }
-
-    // Filter out the student to remove
-    course.students = course.students.filter(
-      (student) => student.id !== studentId,
+    change: EnrollmentChange,
+  ): Promise<Enrollment> {
+    const enrollment = await this.enrollmentsService.findCurrentEnrollment(
+      courseId,
+      studentId,
+    );
+    return this.enrollmentsService.unenroll(
+      enrollment.offeringId,
+      studentId,
+      change,
     );
-
-    // Save the updated course
-    return this.courseRepository.save(course);
   }
 }
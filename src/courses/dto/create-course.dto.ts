@@ -1,11 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import {
-  IsString,
-  IsNotEmpty,
-  IsOptional,
-  IsInt,
-  IsDateString,
-} from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsInt, Min } from 'class-validator';
 
 export class CreateCourseDto {
   @ApiProperty({
@@ -50,24 +44,15 @@ export class CreateCourseDto {
   duration?: string; // e.g., "6 weeks"
 
   @ApiProperty({
-    description: 'The start date of the course',
-    example: '2023-09-01T00:00:00.000Z',
-    type: String,
-    format: 'date-time',
+    description:
+      'The number of seats in each offering of the course (students beyond it are waitlisted). Omit or null for no limit',
+    example: 30,
+    type: Number,
+    nullable: true,
     required: false,
   })
-  @IsDateString()
-  @IsOptional()
-  startDate?: string;
-
-  @ApiProperty({
-    description: 'The end date of the course',
-    example: '2023-12-15T00:00:00.000Z',
-    type: String,
-    format: 'date-time',
-    required: false,
-  })
-  @IsDateString()
+  @IsInt()
+  @Min(1)
   @IsOptional()
-  endDate?: string;
+  capacity?: number | null;
 }
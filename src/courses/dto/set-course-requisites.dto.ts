@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  ValidateNested,
+} from 'class-validator';
+
+export class RequisiteGroupDto {
+  @ApiProperty({
+    description:
+      'Alternative courses: completing any one of them meets the group',
+    example: [2, 3],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  courseIds: number[];
+}
+
+export class SetCourseRequisitesDto {
+  @ApiProperty({
+    description:
+      'Prerequisite groups, all of which must be met by completed courses. Replaces the current prerequisites',
+    type: [RequisiteGroupDto],
+    example: [{ courseIds: [1] }, { courseIds: [2, 3] }],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RequisiteGroupDto)
+  prerequisites: RequisiteGroupDto[];
+
+  @ApiProperty({
+    description:
+      'Corequisite groups, all of which must be met by completed courses or enrollments in the same term. Replaces the current corequisites',
+    type: [RequisiteGroupDto],
+    example: [{ courseIds: [4] }],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RequisiteGroupDto)
+  corequisites: RequisiteGroupDto[];
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Course } from './course.entity';
+
+export enum RequisiteType {
+  PREREQUISITE = 'prerequisite', // completed before enrolling
+  COREQUISITE = 'corequisite', // completed before or taken in the same term
+}
+
+// One course in a requirement group of another course. The groups of a type are ANDed,
+// the courses within a group are ORed: (A or B) and C is groups [A, B] and [C]
+@Entity()
+@Index(['courseId', 'type', 'groupNumber', 'requiredCourseId'], {
+  unique: true,
+})
+export class CourseRequisite {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: RequisiteType })
+  type: RequisiteType;
+
+  @Column('int')
+  groupNumber: number; // courses sharing a group number are alternatives
+
+  @Column()
+  courseId: number; // the course that has the requirement
+
+  @ManyToOne(() => Course, (course) => course.requisites, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'courseId' })
+  course: Relation<Course>;
+
+  @Index()
+  @Column()
+  requiredCourseId: number;
+
+  @ManyToOne(() => Course, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'requiredCourseId' })
+  requiredCourse: Relation<Course>;
+}
@@ -3,13 +3,13 @@ import {
   PrimaryGeneratedColumn,
   Column,
   ManyToOne,
-  ManyToMany,
   OneToMany,
   Relation,
 } from 'typeorm';
 import { Department } from '../../departments/entities/department.entity';
-import { Student } from '../../students/entities/student.entity';
 import { Lecturer } from '../../lecturer/entities/lecturer.entity';
+import { CourseOffering } from '../../course-offerings/entities/course-offering.entity';
+import { CourseRequisite } from './course-requisite.entity';
 
 @Entity()
 export class Course {
@@ -28,11 +28,8 @@ export class Course {
   @Column({ nullable: true })
   duration: string;
 
-  @Column('date', { nullable: true })
-  startDate: string;
-
-  @Column('date', { nullable: true })
-  endDate: string;
+  @Column({ type: 'int', nullable: true })
+  capacity: number | null; // seats per offering (offerings can override it), null for no limit
 
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt: Date;
@@ -47,8 +44,13 @@ export class Course {
   @ManyToOne(() => Department, (department) => department.courses)
   department: Relation<Department>; // properly reference the department entity
 
-  @ManyToMany(() => Student, (student) => student.courses)
-  students: Relation<Student[]>;
+  // The terms this course runs in (dates and enrollments live on the offering)
+  @OneToMany(() => CourseOffering, (offering) => offering.course)
+  offerings: Relation<CourseOffering[]>;
+
+  // Prerequisite and corequisite groups of this course
+  @OneToMany(() => CourseRequisite, (requisite) => requisite.course)
+  requisites: Relation<CourseRequisite[]>;
 
   @OneToMany(() => Lecturer, (lecture) => lecture.courses)
   lecturers: Relation<Lecturer[]>;
@@ -0,0 +1,22 @@
+import {
+  CourseRequisite,
+  RequisiteType,
+} from '../entities/course-requisite.entity';
+
+// Groups a course's requisites of one type by group number (groups are ANDed, their courses ORed)
+export function groupRequisites(
+  requisites: CourseRequisite[],
+  type: RequisiteType,
+): CourseRequisite[][] {
+  const groups = new Map<number, CourseRequisite[]>();
+  for (const requisite of requisites) {
+    if (requisite.type !== type) continue;
+    groups.set(requisite.groupNumber, [
+      ...(groups.get(requisite.groupNumber) ?? []),
+      requisite,
+    ]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, group]) => group);
+}
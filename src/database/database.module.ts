@@ -16,6 +16,8 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
         database: configService.getOrThrow<string>('DB_NAME'),
         entities: [__dirname + '/../**/*.entity{.ts,.js}'],
         synchronize: configService.getOrThrow<boolean>('DB_SYNC', true),
+        migrations: [__dirname + '/migrations/*{.ts,.js}'], // data fixes that synchronize cannot make, run once at startup
+        migrationsRun: true,
         logging: configService.getOrThrow<boolean>('DB_LOGGING', false),
         ssl: true, // Enable SSL for production
       }),
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/*
+- Purpose: Profiles created before email verification existed have no emailVerifiedAt, so with the default
+  AUTH_UNVERIFIED_SIGNIN=deny every one of them (admins included) would be refused at sign-in
+- How it works: Runs once at startup (migrationsRun) and marks every existing profile as verified. Migrations run
+  before synchronize, so the column is added here first; a fresh database has no profiles and is skipped
+*/
+export class BackfillEmailVerifiedAt1792400400000
+  implements MigrationInterface
+{
+  name = 'BackfillEmailVerifiedAt1792400400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('profile'))) {
+      return;
+    }
+    await queryRunner.query(
+      `ALTER TABLE "profile" ADD COLUMN IF NOT EXISTS "emailVerifiedAt" TIMESTAMP DEFAULT NULL`,
+    );
+    await queryRunner.query(
+      `UPDATE "profile" SET "emailVerifiedAt" = now() WHERE "emailVerifiedAt" IS NULL`,
+    );
+  }
+
+  // The backfill cannot be told apart from real verifications, so it is not undone
+  public async down(): Promise<void> {}
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/*
+- Purpose: Profile updates used to accept passwordChangedAt from the request body, so a date in the future could
+  have been planted to dodge PASSWORD_MAX_AGE indefinitely
+- How it works: Runs once at startup (migrationsRun) and resets any passwordChangedAt that lies in the future to
+  now, so the password age of those profiles starts counting again
+*/
+export class ClampFuturePasswordChangedAt1792404000000
+  implements MigrationInterface
+{
+  name = 'ClampFuturePasswordChangedAt1792404000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // migrations run before synchronize: nothing to clamp on a fresh database
+    if (!(await queryRunner.hasColumn('profile', 'passwordChangedAt'))) {
+      return;
+    }
+    await queryRunner.query(
+      `UPDATE "profile" SET "passwordChangedAt" = now() WHERE "passwordChangedAt" > now()`,
+    );
+  }
+
+  // The planted dates are not worth restoring
+  public async down(): Promise<void> {}
+}
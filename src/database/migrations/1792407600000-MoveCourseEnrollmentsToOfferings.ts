@@ -0,0 +1,102 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const LEGACY_JOIN_TABLE = 'student_courses_course';
+
+/*
+- Purpose: Academic terms moved course dates onto course offerings and replaced the student <-> course join table
+  with enrollment rows. Without this, synchronize drops course.startDate/endDate and the enrollments are lost
+- How it works: Migrations run before synchronize, so on a database that still has the old schema this creates the
+  academic_term, course_offering and enrollment tables (synchronize adds their indices and foreign keys afterwards),
+  puts every course that has dates or students into one closed "Legacy" term with the course's dates, copies each
+  join row into an enrolled enrollment, then drops the old columns and table. Fresh databases are skipped
+*/
+export class MoveCourseEnrollmentsToOfferings1792407600000
+  implements MigrationInterface
+{
+  name = 'MoveCourseEnrollmentsToOfferings1792407600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const hasDates = await queryRunner.hasColumn('course', 'startDate');
+    const hasJoinTable = await queryRunner.hasTable(LEGACY_JOIN_TABLE);
+    if (!hasDates && !hasJoinTable) {
+      return;
+    }
+
+    if (!(await queryRunner.hasTable('academic_term'))) {
+      await queryRunner.query(
+        `CREATE TYPE "academic_term_status_enum" AS ENUM('planned', 'open', 'closed', 'archived')`,
+      );
+      await queryRunner.query(
+        `CREATE TABLE "academic_term" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "startDate" date NOT NULL, "endDate" date NOT NULL, "addDropDeadline" date NOT NULL, "status" "academic_term_status_enum" NOT NULL DEFAULT 'planned', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_7b17dac59645103012db5b168e5" PRIMARY KEY ("id"))`,
+      );
+    }
+    if (!(await queryRunner.hasTable('course_offering'))) {
+      await queryRunner.query(
+        `CREATE TABLE "course_offering" ("id" SERIAL NOT NULL, "section" character varying NOT NULL DEFAULT 'A', "startDate" date, "endDate" date, "capacity" integer, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "courseId" integer NOT NULL, "termId" integer NOT NULL, CONSTRAINT "PK_2686d7ebc4e100a0673759c7be5" PRIMARY KEY ("id"))`,
+      );
+    }
+    if (!(await queryRunner.hasTable('enrollment'))) {
+      await queryRunner.query(
+        `CREATE TYPE "enrollment_status_enum" AS ENUM('enrolled', 'waitlisted', 'dropped', 'withdrawn', 'completed')`,
+      );
+      await queryRunner.query(
+        `CREATE TABLE "enrollment" ("id" SERIAL NOT NULL, "status" "enrollment_status_enum" NOT NULL DEFAULT 'enrolled', "reason" text, "enrolledAt" TIMESTAMP, "endedAt" TIMESTAMP, "waitlistedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "studentId" integer NOT NULL, "offeringId" integer NOT NULL, "changedById" integer, CONSTRAINT "PK_7e200c699fa93865cdcdd025885" PRIMARY KEY ("id"))`,
+      );
+    }
+
+    // Courses that become an offering of the legacy term
+    const legacyCourse = [
+      ...(hasDates
+        ? [`c."startDate" IS NOT NULL OR c."endDate" IS NOT NULL`]
+        : []),
+      ...(hasJoinTable
+        ? [
+            `EXISTS (SELECT 1 FROM "${LEGACY_JOIN_TABLE}" sc WHERE sc."courseId" = c."id")`,
+          ]
+        : []),
+    ].join(' OR ');
+    const [{ count }] = (await queryRunner.query(
+      `SELECT COUNT(*)::int AS "count" FROM "course" c WHERE ${legacyCourse}`,
+    )) as { count: number }[];
+
+    if (count > 0) {
+      const startDate = hasDates
+        ? `COALESCE(MIN(c."startDate"), CURRENT_DATE)`
+        : 'CURRENT_DATE';
+      const endDate = hasDates
+        ? `GREATEST(COALESCE(MAX(c."endDate"), MAX(c."startDate"), CURRENT_DATE), ${startDate})`
+        : 'CURRENT_DATE';
+      const [{ id: termId }] = (await queryRunner.query(
+        `INSERT INTO "academic_term" ("name", "startDate", "endDate", "addDropDeadline", "status")
+         SELECT 'Legacy', ${startDate}, ${endDate}, ${startDate}, 'closed' FROM "course" c WHERE ${legacyCourse}
+         RETURNING "id"`,
+      )) as { id: number }[];
+      await queryRunner.query(
+        `INSERT INTO "course_offering" ("courseId", "termId", "startDate", "endDate")
+         SELECT c."id", $1, ${hasDates ? `c."startDate", c."endDate"` : 'NULL, NULL'} FROM "course" c WHERE ${legacyCourse}`,
+        [termId],
+      );
+      if (hasJoinTable) {
+        await queryRunner.query(
+          `INSERT INTO "enrollment" ("studentId", "offeringId", "status", "enrolledAt", "reason")
+           SELECT sc."studentId", o."id", 'enrolled', now(), 'Carried over from the course enrollments before academic terms'
+           FROM "${LEGACY_JOIN_TABLE}" sc
+           JOIN "course_offering" o ON o."courseId" = sc."courseId" AND o."termId" = $1`,
+          [termId],
+        );
+      }
+    }
+
+    if (hasJoinTable) {
+      await queryRunner.query(`DROP TABLE "${LEGACY_JOIN_TABLE}"`);
+    }
+    if (hasDates) {
+      await queryRunner.query(
+        `ALTER TABLE "course" DROP COLUMN "startDate", DROP COLUMN "endDate"`,
+      );
+    }
+  }
+
+  // The legacy term and its offerings may have been edited since, so they are not folded back into courses
+  public async down(): Promise<void> {}
+}
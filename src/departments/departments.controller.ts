@@ -12,19 +12,19 @@ import {
 } from '@nestjs/common';
 import { DepartmentsService } from './departments.service';
 import { CreateDepartmentDto, UpdateDepartmentDto } from './dto';
-import { Roles } from 'src/auth/decorators';
-import { AtGuard, RolesGuard } from 'src/auth/guards';
-import { Role } from '../profiles/entities/profile.entity';
+import { RequirePermissions } from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
 import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
 
 @ApiTags('departments')
 @ApiBearerAuth()
 @Controller('departments')
-@UseGuards(AtGuard, RolesGuard)
+@UseGuards(AtGuard, PermissionsGuard)
 export class DepartmentsController {
   constructor(private readonly departmentsService: DepartmentsService) {}
 
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.DEPARTMENTS_CREATE)
   @Post()
   create(@Body() createDepartmentDto: CreateDepartmentDto) {
     return this.departmentsService.create(createDepartmentDto);
@@ -35,19 +35,19 @@ export class DepartmentsController {
     required: false,
     description: 'Filter department by search',
   })
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  @RequirePermissions(Permission.DEPARTMENTS_READ)
   @Get()
   findAll(@Query('search') search?: string) {
     return this.departmentsService.findAll(search);
   }
 
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  @RequirePermissions(Permission.DEPARTMENTS_READ)
   @Get(':id')
   findOne(@Param('id', ParseIntPipe) id: number) {
     return this.departmentsService.findOne(id);
   }
 
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.DEPARTMENTS_UPDATE)
   @Patch(':id')
   update(
     @Param('id', ParseIntPipe) id: number,
@@ -56,7 +56,7 @@ export class DepartmentsController {
     return this.departmentsService.update(id, updateDepartmentDto);
   }
 
-  @Roles(Role.ADMIN)
+  @RequirePermissions(Permission.DEPARTMENTS_DELETE)
   @Delete(':id')
   remove(@Param('id', ParseIntPipe) id: number) {
     return this.departmentsService.remove(id);
@@ -5,11 +5,11 @@ import { DatabaseModule } from 'src/database/database.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Department } from './entities/department.entity';
 import { Profile } from '../profiles/entities/profile.entity';
-import { RolesGuard } from 'src/auth/guards';
+import { PermissionsGuard } from 'src/auth/guards';
 
 @Module({
   imports: [DatabaseModule, TypeOrmModule.forFeature([Department, Profile])],
   controllers: [DepartmentsController],
-  providers: [DepartmentsService, RolesGuard],
+  providers: [DepartmentsService, PermissionsGuard],
 })
 export class DepartmentsModule {}
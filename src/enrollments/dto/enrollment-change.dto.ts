@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class EnrollmentChangeDto {
+  @ApiProperty({
+    description:
+      'Why the enrollment is changed (kept in the enrollment history)',
+    example: 'Schedule conflict with a required course',
+    required: false,
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+
+  @ApiProperty({
+    description:
+      'Enroll even when the course prerequisites/corequisites are not met (needs enrollments:override-requisites and a reason)',
+    example: false,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  overrideRequisites?: boolean;
+}
@@ -0,0 +1,2 @@
+export * from './enrollment-change.dto';
+export * from './update-enrollment-status.dto';
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { EnrollmentStatus } from '../entities/enrollment.entity';
+import { EnrollmentChangeDto } from './enrollment-change.dto';
+
+export class UpdateEnrollmentStatusDto extends EnrollmentChangeDto {
+  @ApiProperty({
+    description: 'The new status of the enrollment',
+    enum: EnrollmentStatus,
+    example: EnrollmentStatus.COMPLETED,
+  })
+  @IsEnum(EnrollmentStatus)
+  status: EnrollmentStatus;
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Enrollment } from './entities/enrollment.entity';
+import { EnrollmentStatusChange } from './entities/enrollment-status-change.entity';
+import { EnrollmentsService } from './enrollments.service';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { CourseRequisite } from 'src/courses/entities/course-requisite.entity';
+import { TimetableModule } from 'src/timetable/timetable.module';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([
+      Enrollment,
+      EnrollmentStatusChange,
+      CourseOffering,
+      Student,
+      CourseRequisite,
+    ]),
+    TimetableModule,
+  ],
+  providers: [EnrollmentsService],
+  exports: [EnrollmentsService], // used by the offering, student and course enrollment endpoints
+})
+export class EnrollmentsModule {}
@@ -0,0 +1,202 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { EnrollmentsService } from './enrollments.service';
+import { Enrollment, EnrollmentStatus } from './entities/enrollment.entity';
+import { EnrollmentStatusChange } from './entities/enrollment-status-change.entity';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { TermStatus } from 'src/academic-terms/entities/academic-term.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { TimetableService } from 'src/timetable/timetable.service';
+
+type Where = Record<string, unknown>;
+
+// Helper to check a stored row against a find condition (plain values and In(...))
+function matches(row: object, where: Where): boolean {
+  return Object.entries(where).every(([key, expected]) => {
+    const value = (row as Where)[key];
+    if (expected instanceof FindOperator && expected.type === 'in') {
+      return (expected.value as unknown as unknown[]).includes(value);
+    }
+    return value === expected;
+  });
+}
+
+describe('EnrollmentsService', () => {
+  let service: EnrollmentsService;
+  let offering: CourseOffering;
+  let enrollments: Enrollment[];
+  let history: Partial<EnrollmentStatusChange>[];
+
+  // An in-memory EntityManager covering the calls made while the offering is locked
+  const manager = {
+    getRepository: () => ({
+      createQueryBuilder: () => {
+        const builder = {
+          innerJoinAndSelect: () => builder,
+          where: () => builder,
+          setLock: () => builder,
+          getOne: () => Promise.resolve(offering),
+        };
+        return builder;
+      },
+    }),
+    findOneBy: (_entity: unknown, where: Where) =>
+      Promise.resolve(enrollments.find((row) => matches(row, where)) ?? null),
+    countBy: (_entity: unknown, where: Where) =>
+      Promise.resolve(enrollments.filter((row) => matches(row, where)).length),
+    find: (
+      _entity: unknown,
+      options: { where: Where; order: unknown; take?: number },
+    ) =>
+      Promise.resolve(
+        enrollments
+          .filter((row) => matches(row, options.where))
+          .sort(
+            (a, b) =>
+              a.waitlistedAt!.getTime() - b.waitlistedAt!.getTime() ||
+              a.id - b.id,
+          )
+          .slice(0, options.take),
+      ),
+    save: (entity: unknown, row: object) => {
+      if (entity === EnrollmentStatusChange) {
+        history.push(row);
+      }
+      return Promise.resolve(row);
+    },
+  };
+
+  const enrollmentRepository = {
+    manager: {
+      transaction: (work: (m: typeof manager) => Promise<unknown>) =>
+        work(manager),
+    },
+    findOne: ({ where }: { where: { id: number } }) =>
+      Promise.resolve(enrollments.find((row) => row.id === where.id)),
+  };
+
+  // Helper to add an enrollment to the in-memory table
+  const addEnrollment = (
+    id: number,
+    status: EnrollmentStatus,
+    waitlistedAt: Date | null = null,
+  ) => {
+    enrollments.push({
+      id,
+      offeringId: 1,
+      studentId: id,
+      status,
+      waitlistedAt,
+    } as Enrollment);
+  };
+
+  const statusOf = (id: number) =>
+    enrollments.find((row) => row.id === id)?.status;
+
+  beforeEach(async () => {
+    offering = {
+      id: 1,
+      capacity: 2,
+      endDate: null,
+      course: { capacity: null },
+      term: {
+        name: 'Test term',
+        status: TermStatus.OPEN,
+        addDropDeadline: '2999-12-31',
+        endDate: '2999-12-31',
+      },
+    } as unknown as CourseOffering;
+    enrollments = [];
+    history = [];
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        EnrollmentsService,
+        {
+          provide: getRepositoryToken(Enrollment),
+          useValue: enrollmentRepository,
+        },
+        { provide: getRepositoryToken(CourseOffering), useValue: {} },
+        { provide: getRepositoryToken(Student), useValue: {} },
+        { provide: TimetableService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(EnrollmentsService);
+  });
+
+  describe('waitlist promotion', () => {
+    it('gives a dropped seat to the student who joined the waitlist first', async () => {
+      addEnrollment(1, EnrollmentStatus.ENROLLED);
+      addEnrollment(2, EnrollmentStatus.ENROLLED);
+      addEnrollment(3, EnrollmentStatus.WAITLISTED, new Date('2030-01-02'));
+      addEnrollment(4, EnrollmentStatus.WAITLISTED, new Date('2030-01-01'));
+
+      await service.unenroll(1, 1, { actorId: 1 });
+
+      expect(statusOf(1)).toBe(EnrollmentStatus.DROPPED);
+      expect(statusOf(4)).toBe(EnrollmentStatus.ENROLLED);
+      expect(statusOf(3)).toBe(EnrollmentStatus.WAITLISTED);
+      expect(history).toContainEqual(
+        expect.objectContaining({
+          enrollmentId: 4,
+          fromStatus: EnrollmentStatus.WAITLISTED,
+          toStatus: EnrollmentStatus.ENROLLED,
+          reason: 'Promoted from the waitlist',
+          actorId: null,
+        }),
+      );
+    });
+
+    it('promotes as many students as there are free seats', async () => {
+      offering.capacity = 3;
+      addEnrollment(1, EnrollmentStatus.ENROLLED);
+      addEnrollment(2, EnrollmentStatus.WAITLISTED, new Date('2030-01-01'));
+      addEnrollment(3, EnrollmentStatus.WAITLISTED, new Date('2030-01-02'));
+      addEnrollment(4, EnrollmentStatus.WAITLISTED, new Date('2030-01-03'));
+
+      await service.fillFromWaitlist(1);
+
+      expect(statusOf(2)).toBe(EnrollmentStatus.ENROLLED);
+      expect(statusOf(3)).toBe(EnrollmentStatus.ENROLLED);
+      expect(statusOf(4)).toBe(EnrollmentStatus.WAITLISTED);
+    });
+
+    it('promotes everyone when the offering has no capacity', async () => {
+      offering.capacity = null;
+      addEnrollment(1, EnrollmentStatus.WAITLISTED, new Date('2030-01-01'));
+      addEnrollment(2, EnrollmentStatus.WAITLISTED, new Date('2030-01-02'));
+
+      await service.fillFromWaitlist(1);
+
+      expect(statusOf(1)).toBe(EnrollmentStatus.ENROLLED);
+      expect(statusOf(2)).toBe(EnrollmentStatus.ENROLLED);
+    });
+
+    it('counts completed enrollments as occupied seats', async () => {
+      addEnrollment(1, EnrollmentStatus.ENROLLED);
+      addEnrollment(2, EnrollmentStatus.ENROLLED);
+      addEnrollment(3, EnrollmentStatus.WAITLISTED, new Date('2030-01-01'));
+
+      await service.updateStatus(1, 1, EnrollmentStatus.COMPLETED, {
+        actorId: 1,
+      });
+
+      expect(statusOf(1)).toBe(EnrollmentStatus.COMPLETED);
+      expect(statusOf(3)).toBe(EnrollmentStatus.WAITLISTED);
+    });
+
+    it('keeps a seat freed after the add/drop deadline free', async () => {
+      offering.term.addDropDeadline = '2000-01-01';
+      addEnrollment(1, EnrollmentStatus.ENROLLED);
+      addEnrollment(2, EnrollmentStatus.ENROLLED);
+      addEnrollment(3, EnrollmentStatus.WAITLISTED, new Date('2030-01-01'));
+
+      await service.unenroll(1, 1, { actorId: 1 });
+
+      expect(statusOf(1)).toBe(EnrollmentStatus.WITHDRAWN);
+      expect(statusOf(3)).toBe(EnrollmentStatus.WAITLISTED);
+    });
+  });
+});
@@ -0,0 +1,605 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, In, Repository } from 'typeorm';
+import { Enrollment, EnrollmentStatus } from './entities/enrollment.entity';
+import { EnrollmentStatusChange } from './entities/enrollment-status-change.entity';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { TermStatus } from 'src/academic-terms/entities/academic-term.entity';
+import { Student } from 'src/students/entities/student.entity';
+import {
+  CourseRequisite,
+  RequisiteType,
+} from 'src/courses/entities/course-requisite.entity';
+import { groupRequisites } from 'src/courses/utils/requisite-groups.util';
+import { TimetableService } from 'src/timetable/timetable.service';
+
+// Who changes an enrollment and why (kept in the enrollment history)
+export type EnrollmentChange = {
+  actorId: number | null;
+  reason?: string | null;
+  overrideRequisites?: boolean; // checked by RequisiteOverridePolicy
+  concurrentCourseIds?: number[]; // courses enrolled in by the same request, they count for corequisites
+};
+
+// Statuses in which the student holds (or waits for) a place in the offering
+export const ACTIVE_ENROLLMENT_STATUSES = [
+  EnrollmentStatus.ENROLLED,
+  EnrollmentStatus.WAITLISTED,
+];
+
+// The statuses an enrollment can move to from each status
+const ALLOWED_TRANSITIONS: Record<EnrollmentStatus, EnrollmentStatus[]> = {
+  [EnrollmentStatus.ENROLLED]: [
+    EnrollmentStatus.DROPPED,
+    EnrollmentStatus.WITHDRAWN,
+    EnrollmentStatus.COMPLETED,
+  ],
+  [EnrollmentStatus.WAITLISTED]: [
+    EnrollmentStatus.ENROLLED,
+    EnrollmentStatus.DROPPED,
+  ],
+  [EnrollmentStatus.DROPPED]: [
+    EnrollmentStatus.ENROLLED,
+    EnrollmentStatus.WAITLISTED,
+  ],
+  [EnrollmentStatus.WITHDRAWN]: [EnrollmentStatus.ENROLLED], // reinstated by staff
+  [EnrollmentStatus.COMPLETED]: [],
+};
+
+// Helper to get today's date in the format of 'date' columns
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/*
+- Purpose: Keeps track of students' places in course offerings and of every change to them
+- How it works: One Enrollment row per student and offering carries the current status. Enrolling, dropping and
+  staff changes move it between statuses (see ALLOWED_TRANSITIONS) instead of inserting or deleting rows, and
+  each move is written to EnrollmentStatusChange with the actor and reason. Leaving before the term's add/drop
+  deadline is a drop, leaving after it is a withdrawal (it stays on the record).
+- Capacity: An offering has offering.capacity seats (or the course's capacity, null = no limit). Students who
+  enroll in a full offering are waitlisted in order of waitlistedAt, and freed seats go to the head of the
+  waitlist while the enrollment window is open. Every change locks the offering row (SELECT ... FOR UPDATE) so
+  concurrent requests cannot hand out the same seat twice.
+- Requisites: Enrolling checks the course's prerequisite groups against the student's completed courses (completed
+  enrollments, or enrollments whose offering has ended) and its corequisite groups against completed or current
+  enrollments. Staff with enrollments:override-requisites can skip the check with a reason, which is flagged in
+  the history.
+- Timetable: Enrolling (or joining the waitlist) is refused when the offering meets at the same time as another of
+  the student's active enrollments (see TimetableService).
+*/
+@Injectable()
+export class EnrollmentsService {
+  constructor(
+    @InjectRepository(Enrollment)
+    private enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(CourseOffering)
+    private offeringRepository: Repository<CourseOffering>,
+    @InjectRepository(Student) private studentRepository: Repository<Student>,
+    private timetableService: TimetableService,
+  ) {}
+
+  // Helper method to fail when the offering does not exist
+  private async findOffering(offeringId: number): Promise<CourseOffering> {
+    const offering = await this.offeringRepository.findOneBy({
+      id: offeringId,
+    });
+    if (!offering) {
+      throw new NotFoundException(
+        `Course offering with ID ${offeringId} not found`,
+      );
+    }
+    return offering;
+  }
+
+  // Helper method to lock an offering for the rest of the transaction and load it with its course and term
+  private async lockOffering(
+    manager: EntityManager,
+    offeringId: number,
+  ): Promise<CourseOffering> {
+    const offering = await manager
+      .getRepository(CourseOffering)
+      .createQueryBuilder('offering')
+      .innerJoinAndSelect('offering.course', 'course')
+      .innerJoinAndSelect('offering.term', 'term')
+      .where('offering.id = :offeringId', { offeringId })
+      .setLock('pessimistic_write', undefined, ['offering'])
+      .getOne();
+    if (!offering) {
+      throw new NotFoundException(
+        `Course offering with ID ${offeringId} not found`,
+      );
+    }
+    return offering;
+  }
+
+  // Helper method to check whether students can enroll in or drop the offering today
+  private isEnrollmentOpen(offering: CourseOffering): boolean {
+    return (
+      offering.term.status === TermStatus.OPEN &&
+      today() <= offering.term.addDropDeadline
+    );
+  }
+
+  // Helper method to refuse enrolling outside the term's enrollment window
+  private assertEnrollmentOpen(offering: CourseOffering) {
+    if (offering.term.status !== TermStatus.OPEN) {
+      throw new BadRequestException(
+        `Term ${offering.term.name} is not open for enrollment`,
+      );
+    }
+    if (today() > offering.term.addDropDeadline) {
+      throw new BadRequestException(
+        `The add/drop deadline of term ${offering.term.name} (${offering.term.addDropDeadline}) has passed`,
+      );
+    }
+  }
+
+  // Helper method to refuse status changes that are not in ALLOWED_TRANSITIONS
+  private assertTransition(enrollment: Enrollment, status: EnrollmentStatus) {
+    if (!ALLOWED_TRANSITIONS[enrollment.status].includes(status)) {
+      throw new ConflictException(
+        `An enrollment cannot change from ${enrollment.status} to ${status}`,
+      );
+    }
+  }
+
+  // Helper method to count the free seats of a locked offering (Infinity without a capacity)
+  private async countFreeSeats(
+    manager: EntityManager,
+    offering: CourseOffering,
+  ): Promise<number> {
+    const capacity = offering.capacity ?? offering.course.capacity;
+    if (capacity === null) {
+      return Infinity;
+    }
+    // completed students keep their seat, so finalizing grades does not free seats for the waitlist
+    const occupied = await manager.countBy(Enrollment, {
+      offeringId: offering.id,
+      status: In([EnrollmentStatus.ENROLLED, EnrollmentStatus.COMPLETED]),
+    });
+    return Math.max(capacity - occupied, 0);
+  }
+
+  // Helper method to check the student meets the requisite groups of the offering's course.
+  // Returns whether the check failed but was overridden
+  private async checkRequisites(
+    manager: EntityManager,
+    offering: CourseOffering,
+    studentId: number,
+    change: EnrollmentChange,
+  ): Promise<boolean> {
+    const requisites = await manager.find(CourseRequisite, {
+      where: { courseId: offering.courseId },
+      relations: ['requiredCourse'],
+    });
+    if (requisites.length === 0) {
+      return false;
+    }
+
+    const enrollments = await manager.find(Enrollment, {
+      where: { studentId },
+      relations: ['offering', 'offering.term'],
+    });
+    const completed = new Set(
+      enrollments
+        .filter(
+          (enrollment) =>
+            enrollment.status === EnrollmentStatus.COMPLETED ||
+            (enrollment.status === EnrollmentStatus.ENROLLED &&
+              (enrollment.offering.endDate ??
+                enrollment.offering.term.endDate) < today()),
+        )
+        .map((enrollment) => enrollment.offering.courseId),
+    );
+    const takenOrTaking = new Set([
+      ...completed,
+      ...enrollments
+        .filter((enrollment) =>
+          ACTIVE_ENROLLMENT_STATUSES.includes(enrollment.status),
+        )
+        .map((enrollment) => enrollment.offering.courseId),
+      ...(change.concurrentCourseIds ?? []),
+    ]);
+
+    const unmet = [
+      ...groupRequisites(requisites, RequisiteType.PREREQUISITE)
+        .filter(
+          (group) =>
+            !group.some((requisite) =>
+              completed.has(requisite.requiredCourseId),
+            ),
+        )
+        .map((group) => ({ type: RequisiteType.PREREQUISITE, group })),
+      ...groupRequisites(requisites, RequisiteType.COREQUISITE)
+        .filter(
+          (group) =>
+            !group.some((requisite) =>
+              takenOrTaking.has(requisite.requiredCourseId),
+            ),
+        )
+        .map((group) => ({ type: RequisiteType.COREQUISITE, group })),
+    ];
+    if (unmet.length === 0) {
+      return false;
+    }
+    if (change.overrideRequisites) {
+      if (!change.reason?.trim()) {
+        throw new BadRequestException(
+          'A reason is required to override course requisites',
+        );
+      }
+      return true;
+    }
+    throw new BadRequestException({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Course requisites are not met',
+      unmet: unmet.map(({ type, group }) => ({
+        type,
+        anyOf: group.map(({ requiredCourse }) => ({
+          id: requiredCourse.id,
+          title: requiredCourse.title,
+        })),
+      })),
+    });
+  }
+
+  // Helper method to save a new status together with its history entry
+  private async transition(
+    manager: EntityManager,
+    enrollment: Enrollment,
+    status: EnrollmentStatus,
+    change: EnrollmentChange,
+    requisitesOverridden = false,
+  ): Promise<Enrollment> {
+    const fromStatus = enrollment.id ? enrollment.status : null;
+    const now = new Date();
+
+    enrollment.status = status;
+    enrollment.reason = change.reason ?? null;
+    enrollment.changedById = change.actorId;
+    if (status === EnrollmentStatus.ENROLLED) {
+      enrollment.enrolledAt = now;
+      enrollment.endedAt = null;
+      enrollment.waitlistedAt = null;
+    } else if (status === EnrollmentStatus.WAITLISTED) {
+      enrollment.waitlistedAt = now;
+      enrollment.endedAt = null;
+    } else {
+      enrollment.endedAt = now;
+      enrollment.waitlistedAt = null;
+    }
+
+    const saved = await manager.save(Enrollment, enrollment);
+    await manager.save(EnrollmentStatusChange, {
+      enrollmentId: saved.id,
+      fromStatus,
+      toStatus: status,
+      reason: change.reason ?? null,
+      actorId: change.actorId,
+      requisitesOverridden,
+    });
+    return saved;
+  }
+
+  // Helper method to give the free seats of a locked offering to the head of its waitlist
+  private async promoteFromWaitlist(
+    manager: EntityManager,
+    offering: CourseOffering,
+  ) {
+    // after the add/drop deadline the class list is settled, a freed seat stays free
+    if (!this.isEnrollmentOpen(offering)) {
+      return;
+    }
+    const freeSeats = await this.countFreeSeats(manager, offering);
+    if (freeSeats === 0) {
+      return;
+    }
+    const next = await manager.find(Enrollment, {
+      where: { offeringId: offering.id, status: EnrollmentStatus.WAITLISTED },
+      order: { waitlistedAt: 'ASC', id: 'ASC' },
+      ...(Number.isFinite(freeSeats) && { take: freeSeats }),
+    });
+    for (const enrollment of next) {
+      await this.transition(manager, enrollment, EnrollmentStatus.ENROLLED, {
+        actorId: null,
+        reason: 'Promoted from the waitlist',
+      });
+    }
+  }
+
+  // Helper method to fill in the waitlist position of waitlisted enrollments
+  private async withWaitlistPositions(
+    enrollments: Enrollment[],
+  ): Promise<Enrollment[]> {
+    for (const enrollment of enrollments) {
+      if (enrollment.status !== EnrollmentStatus.WAITLISTED) {
+        continue;
+      }
+      enrollment.waitlistPosition = await this.enrollmentRepository
+        .createQueryBuilder('enrollment')
+        .where('enrollment.offeringId = :offeringId', {
+          offeringId: enrollment.offeringId,
+        })
+        .andWhere('enrollment.status = :status', {
+          status: EnrollmentStatus.WAITLISTED,
+        })
+        .andWhere(
+          '(enrollment.waitlistedAt, enrollment.id) <= (:waitlistedAt, :id)',
+          { waitlistedAt: enrollment.waitlistedAt, id: enrollment.id },
+        )
+        .getCount();
+    }
+    return enrollments;
+  }
+
+  // An enrollment with its offering, student and history (oldest change first)
+  async findOne(id: number): Promise<Enrollment> {
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: { id },
+      relations: [
+        'offering',
+        'offering.course',
+        'offering.term',
+        'student',
+        'student.profile',
+        'history',
+      ],
+      order: { history: { createdAt: 'ASC', id: 'ASC' } },
+    });
+    if (!enrollment) {
+      throw new NotFoundException(`Enrollment with ID ${id} not found`);
+    }
+    const [withPosition] = await this.withWaitlistPositions([enrollment]);
+    return withPosition;
+  }
+
+  // Enroll a student in an offering, or waitlist them when it is full
+  // (no-op when they already hold or wait for a place)
+  async enroll(
+    offeringId: number,
+    studentId: number,
+    change: EnrollmentChange,
+  ): Promise<Enrollment> {
+    const studentExists = await this.studentRepository.existsBy({
+      id: studentId,
+    });
+    if (!studentExists) {
+      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    }
+
+    const enrollment = await this.enrollmentRepository.manager.transaction(
+      async (manager) => {
+        const offering = await this.lockOffering(manager, offeringId);
+        this.assertEnrollmentOpen(offering);
+
+        const existing = await manager.findOneBy(Enrollment, {
+          offeringId,
+          studentId,
+        });
+        if (existing && ACTIVE_ENROLLMENT_STATUSES.includes(existing.status)) {
+          return existing;
+        }
+
+        // students already waiting get free seats first
+        const isWaitlistEmpty = !(await manager.existsBy(Enrollment, {
+          offeringId,
+          status: EnrollmentStatus.WAITLISTED,
+        }));
+        const status =
+          isWaitlistEmpty && (await this.countFreeSeats(manager, offering)) > 0
+            ? EnrollmentStatus.ENROLLED
+            : EnrollmentStatus.WAITLISTED;
+        if (existing) {
+          this.assertTransition(existing, status);
+        }
+        const requisitesOverridden = await this.checkRequisites(
+          manager,
+          offering,
+          studentId,
+          change,
+        );
+        await this.timetableService.assertNoStudentClashes(
+          manager,
+          offeringId,
+          studentId,
+        );
+        return this.transition(
+          manager,
+          existing ?? manager.create(Enrollment, { offeringId, studentId }),
+          status,
+          change,
+          requisitesOverridden,
+        );
+      },
+    );
+    return this.findOne(enrollment.id);
+  }
+
+  // Take a student out of an offering: a drop until the add/drop deadline, a withdrawal after it.
+  // A freed seat goes to the next waitlisted student
+  async unenroll(
+    offeringId: number,
+    studentId: number,
+    change: EnrollmentChange,
+  ): Promise<Enrollment> {
+    const enrollment = await this.enrollmentRepository.manager.transaction(
+      async (manager) => {
+        const offering = await this.lockOffering(manager, offeringId);
+        if (offering.term.status !== TermStatus.OPEN) {
+          throw new BadRequestException(
+            `Enrollments in term ${offering.term.name} are frozen`,
+          );
+        }
+        if (today() > (offering.endDate ?? offering.term.endDate)) {
+          throw new BadRequestException(
+            `Course offering ${offeringId} has already ended`,
+          );
+        }
+
+        const enrollment = await manager.findOneBy(Enrollment, {
+          offeringId,
+          studentId,
+          status: In(ACTIVE_ENROLLMENT_STATUSES),
+        });
+        if (!enrollment) {
+          throw new NotFoundException(
+            `Student with ID ${studentId} is not enrolled in course offering ${offeringId}`,
+          );
+        }
+
+        // a waitlisted student never held a place, so leaving is always a drop
+        const status =
+          enrollment.status === EnrollmentStatus.WAITLISTED ||
+          today() <= offering.term.addDropDeadline
+            ? EnrollmentStatus.DROPPED
+            : EnrollmentStatus.WITHDRAWN;
+        const saved = await this.transition(
+          manager,
+          enrollment,
+          status,
+          change,
+        );
+        await this.promoteFromWaitlist(manager, offering);
+        return saved;
+      },
+    );
+    return this.findOne(enrollment.id);
+  }
+
+  // Staff change of an enrollment's status (e.g. completed, reinstated), outside the enrollment window rules.
+  // Moving a student off the waitlist this way ignores the capacity
+  async updateStatus(
+    offeringId: number,
+    studentId: number,
+    status: EnrollmentStatus,
+    change: EnrollmentChange,
+  ): Promise<Enrollment> {
+    const enrollment = await this.enrollmentRepository.manager.transaction(
+      async (manager) => {
+        const offering = await this.lockOffering(manager, offeringId);
+        const enrollment = await manager.findOneBy(Enrollment, {
+          offeringId,
+          studentId,
+        });
+        if (!enrollment) {
+          throw new NotFoundException(
+            `Student with ID ${studentId} has no enrollment in course offering ${offeringId}`,
+          );
+        }
+        this.assertTransition(enrollment, status);
+        const saved = await this.transition(
+          manager,
+          enrollment,
+          status,
+          change,
+        );
+        await this.promoteFromWaitlist(manager, offering);
+        return saved;
+      },
+    );
+    return this.findOne(enrollment.id);
+  }
+
+  // Give seats freed by a capacity increase to the waitlist
+  async fillFromWaitlist(offeringId: number): Promise<void> {
+    await this.enrollmentRepository.manager.transaction(async (manager) => {
+      const offering = await this.lockOffering(manager, offeringId);
+      await this.promoteFromWaitlist(manager, offering);
+    });
+  }
+
+  // The offering's waitlist in promotion order
+  async getWaitlist(offeringId: number): Promise<Enrollment[]> {
+    await this.findOffering(offeringId);
+    const waitlist = await this.enrollmentRepository.find({
+      where: { offeringId, status: EnrollmentStatus.WAITLISTED },
+      relations: ['student', 'student.profile'],
+      order: { waitlistedAt: 'ASC', id: 'ASC' },
+    });
+    waitlist.forEach((enrollment, index) => {
+      enrollment.waitlistPosition = index + 1;
+    });
+    return waitlist;
+  }
+
+  // The student's active enrollment in an open-term offering of a course
+  async findCurrentEnrollment(
+    courseId: number,
+    studentId: number,
+  ): Promise<Enrollment> {
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: {
+        studentId,
+        status: In(ACTIVE_ENROLLMENT_STATUSES),
+        offering: { courseId, term: { status: TermStatus.OPEN } },
+      },
+      relations: ['offering', 'offering.term'],
+    });
+    if (!enrollment) {
+      throw new NotFoundException(
+        `Student with ID ${studentId} is not enrolled in an open offering of course ${courseId}`,
+      );
+    }
+    return enrollment;
+  }
+
+  // Students currently enrolled in the offerings matching the filter
+  async findEnrolledStudents(
+    offering: FindOptionsWhere<CourseOffering>,
+  ): Promise<Student[]> {
+    return this.studentRepository.find({
+      where: { enrollments: { status: EnrollmentStatus.ENROLLED, offering } },
+      relations: ['profile'],
+    });
+  }
+
+  async getOfferingStudents(offeringId: number): Promise<Student[]> {
+    await this.findOffering(offeringId);
+    return this.findEnrolledStudents({ id: offeringId });
+  }
+
+  // Every enrollment (any status) in the offerings matching the filter, with students and history
+  async findOfferingEnrollments(
+    offering: FindOptionsWhere<CourseOffering>,
+    status?: EnrollmentStatus,
+  ): Promise<Enrollment[]> {
+    const enrollments = await this.enrollmentRepository.find({
+      where: { offering, ...(status && { status }) },
+      relations: [
+        'offering',
+        'offering.term',
+        'student',
+        'student.profile',
+        'history',
+      ],
+      order: { id: 'ASC', history: { createdAt: 'ASC', id: 'ASC' } },
+    });
+    return this.withWaitlistPositions(enrollments);
+  }
+
+  // Every enrollment of a student, newest term first, with its history and waitlist positions
+  async findStudentEnrollments(studentId: number): Promise<Enrollment[]> {
+    const enrollments = await this.enrollmentRepository.find({
+      where: { studentId },
+      relations: [
+        'offering',
+        'offering.course',
+        'offering.term',
+        'grade',
+        'history',
+      ],
+      order: {
+        offering: { term: { startDate: 'DESC' } },
+        history: { createdAt: 'ASC', id: 'ASC' },
+      },
+    });
+    return this.withWaitlistPositions(enrollments);
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Enrollment } from './enrollment.entity';
+import { EnrollmentStatus } from './enrollment-status.enum';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+// One row per status change of an enrollment, so the full history survives later changes
+@Entity()
+export class EnrollmentStatusChange {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: EnrollmentStatus, nullable: true })
+  fromStatus: EnrollmentStatus | null; // null for the first enrollment
+
+  @Column({ type: 'enum', enum: EnrollmentStatus })
+  toStatus: EnrollmentStatus;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null; // the justification when requisitesOverridden
+
+  @Column({ default: false })
+  requisitesOverridden: boolean; // enrolled without meeting the course's prerequisites/corequisites
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Index()
+  @Column()
+  enrollmentId: number;
+
+  @ManyToOne(() => Enrollment, (enrollment) => enrollment.history, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'enrollmentId' })
+  enrollment: Relation<Enrollment>;
+
+  @Column({ type: 'int', nullable: true })
+  actorId: number | null;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'actorId' })
+  actor: Relation<Profile>;
+}
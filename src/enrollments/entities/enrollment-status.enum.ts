@@ -0,0 +1,9 @@
+// Kept out of enrollment.entity.ts, which imports enrollment-status-change.entity.ts, so both entities can
+// use it while their imports are still resolving
+export enum EnrollmentStatus {
+  ENROLLED = 'enrolled',
+  WAITLISTED = 'waitlisted',
+  DROPPED = 'dropped', // left before the add/drop deadline, not on the transcript
+  WITHDRAWN = 'withdrawn', // left after the add/drop deadline
+  COMPLETED = 'completed',
+}
@@ -0,0 +1,92 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  OneToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Student } from '../../students/entities/student.entity';
+import { CourseOffering } from '../../course-offerings/entities/course-offering.entity';
+import { Profile } from '../../profiles/entities/profile.entity';
+import { EnrollmentStatusChange } from './enrollment-status-change.entity';
+import { Grade } from '../../grades/entities/grade.entity';
+import { EnrollmentStatus } from './enrollment-status.enum';
+
+export { EnrollmentStatus };
+
+// A student's place in a course offering. Rows are never deleted when a student leaves; the status changes
+@Entity()
+@Index(['studentId', 'offeringId'], { unique: true })
+export class Enrollment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({
+    type: 'enum',
+    enum: EnrollmentStatus,
+    default: EnrollmentStatus.ENROLLED,
+  })
+  status: EnrollmentStatus;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null; // given for the latest status change
+
+  @Column({ type: 'timestamp', nullable: true })
+  enrolledAt: Date | null; // when the student last got a seat
+
+  @Column({ type: 'timestamp', nullable: true })
+  endedAt: Date | null; // when the student dropped, withdrew or completed
+
+  @Column({ type: 'timestamp', nullable: true })
+  waitlistedAt: Date | null; // orders the waitlist, first come first served
+
+  // Place on the offering's waitlist (1 = promoted next), only set on waitlisted enrollments
+  waitlistPosition?: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @Column()
+  studentId: number;
+
+  @ManyToOne(() => Student, (student) => student.enrollments, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'studentId' })
+  student: Relation<Student>;
+
+  @Column()
+  offeringId: number;
+
+  // enrollments (and their grades and history) keep their offering from being deleted
+  @ManyToOne(() => CourseOffering, (offering) => offering.enrollments, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'offeringId' })
+  offering: Relation<CourseOffering>;
+
+  @Column({ type: 'int', nullable: true })
+  changedById: number | null; // the profile behind the latest status change
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'changedById' })
+  changedBy: Relation<Profile>;
+
+  @OneToMany(() => EnrollmentStatusChange, (change) => change.enrollment)
+  history: Relation<EnrollmentStatusChange[]>;
+
+  @OneToOne(() => Grade, (grade) => grade.enrollment)
+  grade: Relation<Grade>;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class RecordGradeDto {
+  @ApiProperty({
+    description: 'A letter of the grading scale (see GET /grades/scale)',
+    example: 'B+',
+  })
+  @IsString()
+  @IsNotEmpty()
+  letter: string;
+
+  @ApiProperty({
+    description: 'Why the grade is changed. Required once the grade is final',
+    example: 'Re-marked final exam after appeal',
+    required: false,
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
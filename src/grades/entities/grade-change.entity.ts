@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Grade } from './grade.entity';
+import { Profile } from '../../profiles/entities/profile.entity';
+
+// Audit trail of a grade: one row each time its letter is set or it is finalized
+@Entity()
+export class GradeChange {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  fromLetter: string | null; // null when the grade is first recorded
+
+  @Column()
+  toLetter: string;
+
+  @Column({ default: false })
+  finalized: boolean; // the grade was already final (or is being finalized) at the time of the change
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null; // required for changes to finalized grades
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Index()
+  @Column()
+  gradeId: number;
+
+  @ManyToOne(() => Grade, (grade) => grade.history, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'gradeId' })
+  grade: Relation<Grade>;
+
+  @Column({ type: 'int', nullable: true })
+  actorId: number | null;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'actorId' })
+  actor: Relation<Profile>;
+}
@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  OneToOne,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Relation,
+} from 'typeorm';
+import { Enrollment } from '../../enrollments/entities/enrollment.entity';
+import { Profile } from '../../profiles/entities/profile.entity';
+import { GradeChange } from './grade-change.entity';
+
+// The final grade of an enrollment (a student in a course offering)
+@Entity()
+export class Grade {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  letter: string; // a letter of the GRADING_SCALE
+
+  @Column({ type: 'decimal', precision: 3, scale: 2 })
+  points: number; // grade points of the letter when it was recorded
+
+  @Column({ type: 'timestamp', nullable: true })
+  finalizedAt: Date | null; // counts towards the GPA once finalized, changes need a reason after that
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @Column({ unique: true })
+  enrollmentId: number;
+
+  @OneToOne(() => Enrollment, (enrollment) => enrollment.grade, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'enrollmentId' })
+  enrollment: Relation<Enrollment>;
+
+  @Column({ type: 'int', nullable: true })
+  recordedById: number | null; // the profile that set the current letter
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'recordedById' })
+  recordedBy: Relation<Profile>;
+
+  @OneToMany(() => GradeChange, (change) => change.grade)
+  history: Relation<GradeChange[]>;
+}
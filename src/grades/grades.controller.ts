@@ -0,0 +1,101 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { GradesService } from './grades.service';
+import { RecordGradeDto } from './dto';
+import {
+  RequirePermissions,
+  CheckPolicies,
+  GetCurrentUserId,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard, PoliciesGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import { NoCache } from 'src/http-cache.interceptor';
+import {
+  StudentAccessPolicy,
+  TaughtOfferingPolicy,
+} from 'src/permissions/policies';
+
+@ApiTags('grades')
+@ApiBearerAuth()
+@Controller('grades')
+@UseGuards(AtGuard, PermissionsGuard, PoliciesGuard)
+export class GradesController {
+  constructor(private readonly gradesService: GradesService) {}
+
+  // http://localhost:8000/grades/scale
+  @Get('scale')
+  getScale() {
+    return this.gradesService.getScale();
+  }
+
+  // http://localhost:8000/grades/offerings/1
+  @RequirePermissions(Permission.GRADES_RECORD)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @NoCache()
+  @Get('offerings/:offeringId')
+  getGradebook(@Param('offeringId', ParseIntPipe) offeringId: number) {
+    return this.gradesService.getGradebook(offeringId);
+  }
+
+  // http://localhost:8000/grades/offerings/1/students/2
+  @RequirePermissions(Permission.GRADES_RECORD)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @Put('offerings/:offeringId/students/:studentId')
+  recordGrade(
+    @GetCurrentUserId() actorId: number,
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('studentId', ParseIntPipe) studentId: number,
+    @Body() recordGradeDto: RecordGradeDto,
+  ) {
+    return this.gradesService.recordGrade(
+      offeringId,
+      studentId,
+      recordGradeDto,
+      actorId,
+    );
+  }
+
+  // http://localhost:8000/grades/offerings/1/students/2/history
+  @RequirePermissions(Permission.GRADES_RECORD)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @NoCache()
+  @Get('offerings/:offeringId/students/:studentId/history')
+  getHistory(
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+    @Param('studentId', ParseIntPipe) studentId: number,
+  ) {
+    return this.gradesService.getHistory(offeringId, studentId);
+  }
+
+  // http://localhost:8000/grades/offerings/1/finalize
+  @RequirePermissions(Permission.GRADES_RECORD)
+  @CheckPolicies(TaughtOfferingPolicy)
+  @HttpCode(HttpStatus.OK)
+  @Post('offerings/:offeringId/finalize')
+  finalize(
+    @GetCurrentUserId() actorId: number,
+    @Param('offeringId', ParseIntPipe) offeringId: number,
+  ) {
+    return this.gradesService.finalize(offeringId, actorId);
+  }
+
+  // http://localhost:8000/grades/students/1 (grades per term with term and cumulative GPA)
+  @RequirePermissions(Permission.STUDENTS_READ)
+  @CheckPolicies(StudentAccessPolicy)
+  @NoCache()
+  @Get('students/:id')
+  getStudentGrades(@Param('id', ParseIntPipe) id: number) {
+    return this.gradesService.getStudentGrades(id);
+  }
+}
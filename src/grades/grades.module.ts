@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Grade } from './entities/grade.entity';
+import { GradeChange } from './entities/grade-change.entity';
+import { GradesService } from './grades.service';
+import { GradesController } from './grades.controller';
+import { Enrollment } from 'src/enrollments/entities/enrollment.entity';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { EnrollmentsModule } from 'src/enrollments/enrollments.module';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([
+      Grade,
+      GradeChange,
+      Enrollment,
+      CourseOffering,
+      Student,
+    ]),
+    EnrollmentsModule,
+  ],
+  controllers: [GradesController],
+  providers: [GradesService],
+  exports: [GradesService],
+})
+export class GradesModule {}
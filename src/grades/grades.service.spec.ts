@@ -0,0 +1,112 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { GradesService } from './grades.service';
+import { Grade } from './entities/grade.entity';
+import { GradeChange } from './entities/grade-change.entity';
+import { Enrollment } from 'src/enrollments/entities/enrollment.entity';
+import { EnrollmentsService } from 'src/enrollments/enrollments.service';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { Student } from 'src/students/entities/student.entity';
+
+describe('GradesService', () => {
+  let service: GradesService;
+  const enrollmentRepository = { find: jest.fn() };
+  const studentRepository = { existsBy: jest.fn() };
+
+  // Helper to build a graded enrollment of a course in a term
+  const gradedEnrollment = (
+    termId: number,
+    courseId: number,
+    credits: number,
+    letter: string,
+    points: number,
+    finalized = true,
+  ) => ({
+    offering: {
+      id: courseId * 10 + termId,
+      termId,
+      term: { id: termId, name: `Term ${termId}` },
+      course: { id: courseId, title: `Course ${courseId}`, credits },
+    },
+    grade: { letter, points, finalizedAt: finalized ? new Date() : null },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    studentRepository.existsBy.mockResolvedValue(true);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        GradesService,
+        { provide: getRepositoryToken(Grade), useValue: {} },
+        { provide: getRepositoryToken(GradeChange), useValue: {} },
+        {
+          provide: getRepositoryToken(Enrollment),
+          useValue: enrollmentRepository,
+        },
+        { provide: getRepositoryToken(CourseOffering), useValue: {} },
+        { provide: getRepositoryToken(Student), useValue: studentRepository },
+        { provide: EnrollmentsService, useValue: {} },
+        { provide: ConfigService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(GradesService);
+  });
+
+  describe('getStudentGrades', () => {
+    it('computes the GPA per term and cumulatively from finalized grades', async () => {
+      enrollmentRepository.find.mockResolvedValue([
+        gradedEnrollment(1, 1, 6, 'A', 4),
+        gradedEnrollment(1, 2, 3, 'C', 2),
+        gradedEnrollment(2, 3, 3, 'B', 3),
+        { offering: gradedEnrollment(2, 4, 3, 'A', 4).offering, grade: null },
+      ]);
+
+      const grades = await service.getStudentGrades(7);
+
+      expect(grades.terms).toEqual([
+        expect.objectContaining({ credits: 9, gpa: 3.33 }),
+        expect.objectContaining({ credits: 3, gpa: 3 }),
+      ]);
+      expect(grades.terms[1].courses).toHaveLength(1);
+      expect(grades.cumulative).toEqual({ credits: 12, gpa: 3.25 });
+    });
+
+    it('lists grades that are not finalized without counting them', async () => {
+      enrollmentRepository.find.mockResolvedValue([
+        gradedEnrollment(1, 1, 5, 'A', 4),
+        gradedEnrollment(1, 2, 5, 'F', 0, false),
+      ]);
+
+      const grades = await service.getStudentGrades(7);
+
+      expect(grades.terms[0].courses).toContainEqual(
+        expect.objectContaining({ courseId: 2, finalized: false }),
+      );
+      expect(grades.terms[0]).toMatchObject({ credits: 5, gpa: 4 });
+      expect(grades.cumulative).toEqual({ credits: 5, gpa: 4 });
+    });
+
+    it('has no GPA before any grade is finalized', async () => {
+      enrollmentRepository.find.mockResolvedValue([
+        gradedEnrollment(1, 1, 5, 'B', 3, false),
+      ]);
+
+      const grades = await service.getStudentGrades(7);
+
+      expect(grades.terms[0].gpa).toBeNull();
+      expect(grades.cumulative).toEqual({ credits: 0, gpa: null });
+    });
+
+    it('fails for an unknown student', async () => {
+      studentRepository.existsBy.mockResolvedValue(false);
+
+      await expect(service.getStudentGrades(7)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
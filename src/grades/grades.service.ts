@@ -0,0 +1,351 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Grade } from './entities/grade.entity';
+import { GradeChange } from './entities/grade-change.entity';
+import { RecordGradeDto } from './dto';
+import { computeGpa } from './utils/gpa.util';
+import {
+  Enrollment,
+  EnrollmentStatus,
+} from 'src/enrollments/entities/enrollment.entity';
+import { EnrollmentsService } from 'src/enrollments/enrollments.service';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { Student } from 'src/students/entities/student.entity';
+
+export type GradeScaleEntry = { letter: string; points: number };
+
+export type StudentGrades = {
+  studentId: number;
+  terms: {
+    term: { id: number; name: string };
+    courses: {
+      offeringId: number;
+      courseId: number;
+      title: string;
+      credits: number;
+      letter: string;
+      points: number;
+      finalized: boolean;
+    }[];
+    credits: number; // finalized credits of the term
+    gpa: number | null;
+  }[];
+  cumulative: { credits: number; gpa: number | null };
+};
+
+const DEFAULT_GRADING_SCALE =
+  'A=4.0,A-=3.7,B+=3.3,B=3.0,B-=2.7,C+=2.3,C=2.0,C-=1.7,D+=1.3,D=1.0,F=0';
+
+// Enrollments that can be graded (withdrawn and dropped students get no grade)
+const GRADABLE_STATUSES = [
+  EnrollmentStatus.ENROLLED,
+  EnrollmentStatus.COMPLETED,
+];
+
+/*
+- Purpose: Gradebook of course offerings and the students' GPA
+- How it works: Lecturers record one letter grade per enrollment from the GRADING_SCALE, which gives its points.
+  Grades can be changed freely until the offering is finalized; finalizing completes the enrollments and makes
+  the grades count towards the GPA, and later changes need a reason. Every change is kept in GradeChange.
+  The GPA is the credit-weighted average of finalized grade points; Student.gpa holds the cumulative GPA and
+  is recomputed whenever a finalized grade changes.
+*/
+@Injectable()
+export class GradesService {
+  constructor(
+    @InjectRepository(Grade) private gradeRepository: Repository<Grade>,
+    @InjectRepository(GradeChange)
+    private gradeChangeRepository: Repository<GradeChange>,
+    @InjectRepository(Enrollment)
+    private enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(CourseOffering)
+    private offeringRepository: Repository<CourseOffering>,
+    @InjectRepository(Student) private studentRepository: Repository<Student>,
+    private enrollmentsService: EnrollmentsService,
+    private configService: ConfigService,
+  ) {}
+
+  // The configured grading scale, e.g. GRADING_SCALE=A=4.0,B=3.0,C=2.0,D=1.0,F=0
+  getScale(): GradeScaleEntry[] {
+    return this.configService
+      .get<string>('GRADING_SCALE', DEFAULT_GRADING_SCALE)
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [letter, points] = entry.split('=').map((part) => part.trim());
+        const value = Number(points);
+        if (!letter || !points || Number.isNaN(value) || value < 0) {
+          throw new Error(`Invalid GRADING_SCALE entry ${entry}`);
+        }
+        return { letter, points: value };
+      });
+  }
+
+  // Helper method to look up the points of a letter of the grading scale
+  private pointsFor(letter: string): number {
+    const scale = this.getScale();
+    const entry = scale.find((grade) => grade.letter === letter);
+    if (!entry) {
+      throw new BadRequestException(
+        `Unknown grade ${letter}, expected one of ${scale.map((grade) => grade.letter).join(', ')}`,
+      );
+    }
+    return entry.points;
+  }
+
+  // Helper method to fail when the offering does not exist
+  private async assertOfferingExists(offeringId: number) {
+    const offeringExists = await this.offeringRepository.existsBy({
+      id: offeringId,
+    });
+    if (!offeringExists) {
+      throw new NotFoundException(
+        `Course offering with ID ${offeringId} not found`,
+      );
+    }
+  }
+
+  // Helper method to store the cumulative GPA of a student's finalized grades on the student
+  private async refreshGpa(manager: EntityManager, studentId: number) {
+    const grades = await manager.find(Grade, {
+      where: { enrollment: { studentId } },
+      relations: [
+        'enrollment',
+        'enrollment.offering',
+        'enrollment.offering.course',
+      ],
+    });
+    const gpa = computeGpa(
+      grades
+        .filter((grade) => grade.finalizedAt)
+        .map((grade) => ({
+          points: grade.points,
+          credits: grade.enrollment.offering.course.credits,
+        })),
+    );
+    await manager.update(Student, studentId, { gpa });
+  }
+
+  // A grade with its enrollment and change history (oldest first)
+  async findGrade(id: number): Promise<Grade> {
+    const grade = await this.gradeRepository.findOne({
+      where: { id },
+      relations: [
+        'enrollment',
+        'enrollment.offering',
+        'enrollment.offering.course',
+        'enrollment.offering.term',
+        'history',
+      ],
+      order: { history: { createdAt: 'ASC', id: 'ASC' } },
+    });
+    if (!grade) {
+      throw new NotFoundException(`Grade with ID ${id} not found`);
+    }
+    return grade;
+  }
+
+  // The offering's gradebook: its enrolled, completed and withdrawn students with their grades
+  async getGradebook(offeringId: number): Promise<Enrollment[]> {
+    await this.assertOfferingExists(offeringId);
+    return this.enrollmentRepository.find({
+      where: {
+        offeringId,
+        status: In([...GRADABLE_STATUSES, EnrollmentStatus.WITHDRAWN]),
+      },
+      relations: ['student', 'student.profile', 'grade'],
+      order: { id: 'ASC' },
+    });
+  }
+
+  // Record or change the grade of a student in an offering
+  async recordGrade(
+    offeringId: number,
+    studentId: number,
+    recordGradeDto: RecordGradeDto,
+    actorId: number,
+  ): Promise<Grade> {
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: { offeringId, studentId },
+      relations: ['grade'],
+    });
+    if (!enrollment) {
+      throw new NotFoundException(
+        `Student with ID ${studentId} has no enrollment in course offering ${offeringId}`,
+      );
+    }
+    if (!GRADABLE_STATUSES.includes(enrollment.status)) {
+      throw new BadRequestException(
+        `Only enrolled students can be graded (the enrollment is ${enrollment.status})`,
+      );
+    }
+
+    const points = this.pointsFor(recordGradeDto.letter);
+    const current = enrollment.grade;
+    if (current?.letter === recordGradeDto.letter) {
+      return this.findGrade(current.id);
+    }
+    if (current?.finalizedAt && !recordGradeDto.reason?.trim()) {
+      throw new BadRequestException(
+        'A reason is required to change a finalized grade',
+      );
+    }
+
+    const saved = await this.gradeRepository.manager.transaction(
+      async (manager) => {
+        const grade =
+          current ?? manager.create(Grade, { enrollmentId: enrollment.id });
+        grade.letter = recordGradeDto.letter;
+        grade.points = points;
+        grade.recordedById = actorId;
+        const saved = await manager.save(Grade, grade);
+        await manager.save(GradeChange, {
+          gradeId: saved.id,
+          fromLetter: current?.letter ?? null,
+          toLetter: saved.letter,
+          finalized: Boolean(saved.finalizedAt),
+          reason: recordGradeDto.reason ?? null,
+          actorId,
+        });
+        if (saved.finalizedAt) {
+          await this.refreshGpa(manager, studentId);
+        }
+        return saved;
+      },
+    );
+    return this.findGrade(saved.id);
+  }
+
+  // Finalize every grade of an offering: they count towards the GPA and the enrollments are completed
+  async finalize(offeringId: number, actorId: number): Promise<Enrollment[]> {
+    await this.assertOfferingExists(offeringId);
+    const enrollments = await this.enrollmentRepository.find({
+      where: { offeringId, status: In(GRADABLE_STATUSES) },
+      relations: ['grade'],
+    });
+    const ungraded = enrollments.filter((enrollment) => !enrollment.grade);
+    if (ungraded.length > 0) {
+      throw new BadRequestException(
+        `Students with IDs ${ungraded.map((enrollment) => enrollment.studentId).join(', ')} have no grade yet`,
+      );
+    }
+
+    const pending = enrollments.filter(
+      (enrollment) => !enrollment.grade.finalizedAt,
+    );
+    await this.gradeRepository.manager.transaction(async (manager) => {
+      const now = new Date();
+      for (const { grade } of pending) {
+        await manager.update(Grade, grade.id, { finalizedAt: now });
+        await manager.save(GradeChange, {
+          gradeId: grade.id,
+          fromLetter: grade.letter,
+          toLetter: grade.letter,
+          finalized: true,
+          reason: 'Grade finalized',
+          actorId,
+        });
+      }
+      for (const { studentId } of pending) {
+        await this.refreshGpa(manager, studentId);
+      }
+    });
+
+    for (const enrollment of enrollments) {
+      if (enrollment.status === EnrollmentStatus.ENROLLED) {
+        await this.enrollmentsService.updateStatus(
+          offeringId,
+          enrollment.studentId,
+          EnrollmentStatus.COMPLETED,
+          { actorId, reason: 'Final grade recorded' },
+        );
+      }
+    }
+    return this.getGradebook(offeringId);
+  }
+
+  // The change history of a student's grade in an offering
+  async getHistory(
+    offeringId: number,
+    studentId: number,
+  ): Promise<GradeChange[]> {
+    const grade = await this.gradeRepository.findOneBy({
+      enrollment: { offeringId, studentId },
+    });
+    if (!grade) {
+      throw new NotFoundException(
+        `Student with ID ${studentId} has no grade in course offering ${offeringId}`,
+      );
+    }
+    return this.gradeChangeRepository.find({
+      where: { gradeId: grade.id },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  // A student's grades per term with the term and cumulative GPA (finalized grades only)
+  async getStudentGrades(studentId: number): Promise<StudentGrades> {
+    const studentExists = await this.studentRepository.existsBy({
+      id: studentId,
+    });
+    if (!studentExists) {
+      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    }
+
+    const enrollments = await this.enrollmentRepository.find({
+      where: { studentId },
+      relations: ['offering', 'offering.course', 'offering.term', 'grade'],
+      order: { offering: { term: { startDate: 'ASC' } } },
+    });
+
+    const terms = new Map<number, StudentGrades['terms'][number]>();
+    for (const { offering, grade } of enrollments) {
+      if (!grade) continue;
+      const term = terms.get(offering.termId) ?? {
+        term: { id: offering.term.id, name: offering.term.name },
+        courses: [],
+        credits: 0,
+        gpa: null,
+      };
+      term.courses.push({
+        offeringId: offering.id,
+        courseId: offering.course.id,
+        title: offering.course.title,
+        credits: offering.course.credits,
+        letter: grade.letter,
+        points: Number(grade.points),
+        finalized: Boolean(grade.finalizedAt),
+      });
+      terms.set(offering.termId, term);
+    }
+
+    const finalizedOf = (courses: StudentGrades['terms'][number]['courses']) =>
+      courses.filter((course) => course.finalized);
+    const termGrades = [...terms.values()].map((term) => {
+      const finalized = finalizedOf(term.courses);
+      return {
+        ...term,
+        credits: finalized.reduce((sum, course) => sum + course.credits, 0),
+        gpa: computeGpa(finalized),
+      };
+    });
+    const allFinalized = termGrades.flatMap((term) =>
+      finalizedOf(term.courses),
+    );
+    return {
+      studentId,
+      terms: termGrades,
+      cumulative: {
+        credits: allFinalized.reduce((sum, course) => sum + course.credits, 0),
+        gpa: computeGpa(allFinalized),
+      },
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { computeGpa } from './gpa.util';
+
+describe('computeGpa', () => {
+  it('weights grade points by course credits', () => {
+    expect(
+      computeGpa([
+        { points: 4, credits: 6 },
+        { points: 2, credits: 3 },
+      ]),
+    ).toBe(3.33);
+  });
+
+  it('rounds to two decimals', () => {
+    expect(
+      computeGpa([
+        { points: 3.7, credits: 5 },
+        { points: 3.3, credits: 5 },
+        { points: 2.7, credits: 5 },
+      ]),
+    ).toBe(3.23);
+  });
+
+  it('reads decimal points returned as strings by postgres', () => {
+    expect(
+      computeGpa([{ points: '3.70' as unknown as number, credits: 4 }]),
+    ).toBe(3.7);
+  });
+
+  it('is null without credits', () => {
+    expect(computeGpa([])).toBeNull();
+    expect(computeGpa([{ points: 4, credits: 0 }])).toBeNull();
+  });
+});
@@ -0,0 +1,14 @@
+// GPA of graded courses: grade points weighted by course credits, rounded to 2 decimals (null without credits)
+export function computeGpa(
+  grades: { points: number; credits: number }[],
+): number | null {
+  const credits = grades.reduce((sum, grade) => sum + grade.credits, 0);
+  if (credits === 0) {
+    return null;
+  }
+  const weighted = grades.reduce(
+    (sum, grade) => sum + Number(grade.points) * grade.credits,
+    0,
+  );
+  return Math.round((weighted / credits) * 100) / 100;
+}
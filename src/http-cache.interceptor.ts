@@ -0,0 +1,23 @@
+import { ExecutionContext, Injectable, SetMetadata } from '@nestjs/common';
+import { CacheInterceptor } from '@nestjs/cache-manager';
+
+export const NO_CACHE_KEY = 'noCache';
+// Opt a controller or route out of response caching (e.g. per-user or state-changing GET routes)
+export const NoCache = () => SetMetadata(NO_CACHE_KEY, true);
+
+// Cache interceptor that skips routes marked with @NoCache()
+@Injectable()
+export class HttpCacheInterceptor extends CacheInterceptor {
+  protected trackBy(context: ExecutionContext): string | undefined {
+    const noCache = this.reflector.getAllAndOverride<boolean>(NO_CACHE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (noCache) {
+      return undefined;
+    }
+
+    return super.trackBy(context);
+  }
+}
@@ -6,6 +6,7 @@ import {
 } from '@nestjs/common';
 import { BaseExceptionFilter } from '@nestjs/core';
 import { LogsService } from './my-logs/logs.service';
+import { redactPath } from './logger.middleware';
 import { Request, Response } from 'express';
 
 // Interface for standardized error response
@@ -61,7 +62,7 @@ export class AllExceptionsFilter extends BaseExceptionFilter {
         ? myResponseObj.response
         : JSON.stringify(myResponseObj.response); // Log the error with client IP and path (ignore promise)
     void this.logs.logToFile(
-      `ERROR: ${logMessage} - Path: ${request.url}`,
+      `ERROR: ${logMessage} - Path: ${redactPath(request.url)}`,
       clientIp,
     );
   }
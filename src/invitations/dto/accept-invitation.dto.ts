@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @ApiProperty({
+    description: 'The invitation token received by email',
+    example: '3f7c9e0b2a...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description: 'The first name of the user (defaults to the invitation)',
+    example: 'Jane',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  firstName?: string;
+
+  @ApiProperty({
+    description: 'The last name of the user (defaults to the invitation)',
+    example: 'Doe',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  lastName?: string;
+
+  @ApiProperty({
+    description:
+      'The password for the new account (must meet the password policy, see /auth/password-policy)',
+    example: 'Correct-Horse-Battery-7',
+  })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
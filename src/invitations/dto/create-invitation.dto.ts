@@ -0,0 +1,144 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { Role } from '../../profiles/entities/profile.entity';
+
+export class InvitedStudentDetailsDto {
+  @ApiProperty({
+    description: 'The enrollment date of the student',
+    example: '2023-09-01T00:00:00.000Z',
+    type: String,
+    format: 'date-time',
+  })
+  @IsDateString()
+  enrollmentDate: string;
+
+  @ApiProperty({
+    description: 'The degree program of the student',
+    example: 'Computer Science',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  degreeProgram?: string;
+}
+
+export class InvitedLecturerDetailsDto {
+  @ApiProperty({
+    description: 'The employee ID of the lecturer',
+    example: 'EMP001',
+  })
+  @IsString()
+  @IsNotEmpty()
+  employeeId: string;
+
+  @ApiProperty({
+    description: 'The specialization or field of expertise of the lecturer',
+    example: 'Computer Science',
+  })
+  @IsString()
+  @IsNotEmpty()
+  specialization: string;
+
+  @ApiProperty({
+    description: 'A brief biography of the lecturer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  bio?: string;
+
+  @ApiProperty({
+    description: 'The office location of the lecturer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  officeLocation?: string;
+
+  @ApiProperty({
+    description: 'The phone number of the lecturer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  phoneNumber?: string;
+}
+
+export class CreateInvitationDto {
+  @ApiProperty({
+    description: 'The email address the invitation is sent to',
+    example: 'jane.doe@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'The role the new profile will have',
+    enum: Role,
+    example: Role.FACULTY,
+  })
+  @IsEnum(Role)
+  role: Role;
+
+  @ApiProperty({
+    description: 'Suggested first name, can be changed when accepting',
+    example: 'Jane',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  firstName?: string;
+
+  @ApiProperty({
+    description: 'Suggested last name, can be changed when accepting',
+    example: 'Doe',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  lastName?: string;
+
+  @ApiProperty({
+    description: 'Creates a student record on acceptance',
+    type: InvitedStudentDetailsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => InvitedStudentDetailsDto)
+  @IsOptional()
+  student?: InvitedStudentDetailsDto;
+
+  @ApiProperty({
+    description: 'Creates a lecturer record on acceptance',
+    type: InvitedLecturerDetailsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => InvitedLecturerDetailsDto)
+  @IsOptional()
+  lecturer?: InvitedLecturerDetailsDto;
+
+  @ApiProperty({
+    description: 'Number of days the invitation stays valid',
+    example: 7,
+    default: 7,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  @IsOptional()
+  expiresInDays?: number;
+}
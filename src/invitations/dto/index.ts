@@ -0,0 +1,2 @@
+export * from './create-invitation.dto';
+export * from './accept-invitation.dto';
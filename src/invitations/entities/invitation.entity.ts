@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile, Role } from '../../profiles/entities/profile.entity';
+
+// Student record created when the invitation is accepted
+export type InvitedStudentDetails = {
+  enrollmentDate: string;
+  degreeProgram?: string;
+};
+
+// Lecturer record created when the invitation is accepted
+export type InvitedLecturerDetails = {
+  employeeId: string;
+  specialization: string;
+  bio?: string;
+  officeLocation?: string;
+  phoneNumber?: string;
+};
+
+@Entity()
+export class Invitation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  email: string;
+
+  @Column({ type: 'enum', enum: Role })
+  role: Role;
+
+  @Column({ nullable: true })
+  firstName: string;
+
+  @Column({ nullable: true })
+  lastName: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  studentDetails: InvitedStudentDetails | null;
+
+  @Column({ type: 'simple-json', nullable: true })
+  lecturerDetails: InvitedLecturerDetails | null;
+
+  @Index({ unique: true })
+  @Column({ select: false })
+  hashedToken: string; // sha256 of the token sent by email
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  acceptedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  revokedAt: Date | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  invitedBy: Relation<Profile> | null;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  acceptedProfile: Relation<Profile> | null;
+}
@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  ParseIntPipe,
+  ParseBoolPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { InvitationsService } from './invitations.service';
+import { AcceptInvitationDto, CreateInvitationDto } from './dto';
+import {
+  GetCurrentUserId,
+  Public,
+  RequirePermissions,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import { NoCache } from 'src/http-cache.interceptor';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+
+@ApiTags('invitations')
+@ApiBearerAuth()
+@Controller('invitations')
+@UseGuards(AtGuard, PermissionsGuard)
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  // http://localhost:8000/invitations
+  @RequirePermissions(Permission.INVITATIONS_MANAGE)
+  @Post()
+  create(
+    @Body() createInvitationDto: CreateInvitationDto,
+    @GetCurrentUserId() userId: number,
+  ) {
+    return this.invitationsService.create(createInvitationDto, userId);
+  }
+
+  // http://localhost:8000/invitations?pending=true
+  @ApiQuery({
+    name: 'pending',
+    required: false,
+    description: 'Only list invitations that can still be accepted',
+  })
+  @RequirePermissions(Permission.INVITATIONS_MANAGE)
+  @NoCache()
+  @Get()
+  findAll(
+    @Query('pending', new ParseBoolPipe({ optional: true })) pending?: boolean,
+  ) {
+    return this.invitationsService.findAll(pending);
+  }
+
+  // http://localhost:8000/invitations/1
+  @RequirePermissions(Permission.INVITATIONS_MANAGE)
+  @Delete(':id')
+  revoke(@Param('id', ParseIntPipe) id: number) {
+    return this.invitationsService.revoke(id);
+  }
+
+  // http://localhost:8000/invitations/accept
+  @Public()
+  @Post('accept')
+  accept(@Body() acceptInvitationDto: AcceptInvitationDto) {
+    return this.invitationsService.accept(acceptInvitationDto);
+  }
+}
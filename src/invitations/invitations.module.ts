@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { InvitationsService } from './invitations.service';
+import { InvitationsController } from './invitations.controller';
+import { DatabaseModule } from 'src/database/database.module';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Invitation } from './entities/invitation.entity';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { MailModule } from 'src/mail/mail.module';
+import { PermissionsGuard } from 'src/auth/guards';
+import { AuthModule } from 'src/auth/auth.module';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([Invitation, Profile]),
+    MailModule,
+    AuthModule,
+  ],
+  controllers: [InvitationsController],
+  providers: [InvitationsService, PermissionsGuard],
+})
+export class InvitationsModule {}
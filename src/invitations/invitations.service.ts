@@ -0,0 +1,186 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { Invitation } from './entities/invitation.entity';
+import { AcceptInvitationDto, CreateInvitationDto } from './dto';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { MailService } from 'src/mail/mail.service';
+import { PasswordPolicyService } from 'src/auth/password-policy.service';
+
+@Injectable()
+export class InvitationsService {
+  constructor(
+    @InjectRepository(Invitation)
+    private invitationRepository: Repository<Invitation>,
+    @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    @InjectDataSource() private dataSource: DataSource,
+    private mailService: MailService,
+    private configService: ConfigService,
+    private passwordPolicyService: PasswordPolicyService,
+  ) {}
+
+  // Helper method to hash an invitation token before it is stored or looked up
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  async create(
+    createInvitationDto: CreateInvitationDto,
+    inviterId: number,
+  ): Promise<Invitation> {
+    const existingProfile = await this.profileRepository.existsBy({
+      email: createInvitationDto.email,
+    });
+    if (existingProfile) {
+      throw new ConflictException(
+        `Profile with email ${createInvitationDto.email} already exists`,
+      );
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresInDays = createInvitationDto.expiresInDays ?? 7;
+    const savedInvitation = await this.invitationRepository.save({
+      email: createInvitationDto.email,
+      role: createInvitationDto.role,
+      firstName: createInvitationDto.firstName,
+      lastName: createInvitationDto.lastName,
+      studentDetails: createInvitationDto.student ?? null,
+      lecturerDetails: createInvitationDto.lecturer ?? null,
+      hashedToken: this.hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      invitedBy: { id: inviterId },
+    });
+
+    const invitationUrl = `${this.configService.getOrThrow<string>('APP_FRONTEND_URL')}/accept-invitation?token=${token}`;
+    await this.mailService.sendInvitation(
+      savedInvitation.email,
+      savedInvitation.role,
+      invitationUrl,
+      savedInvitation.expiresAt,
+    );
+
+    // Reload so the token hash (select: false) is not returned
+    return this.invitationRepository.findOneByOrFail({
+      id: savedInvitation.id,
+    });
+  }
+
+  async findAll(pendingOnly?: boolean): Promise<Invitation[]> {
+    return this.invitationRepository.find({
+      where: pendingOnly
+        ? {
+            acceptedAt: IsNull(),
+            revokedAt: IsNull(),
+            expiresAt: MoreThan(new Date()),
+          }
+        : {},
+      relations: ['invitedBy', 'acceptedProfile'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revoke(id: number): Promise<string> {
+    const result = await this.invitationRepository.update(
+      { id, acceptedAt: IsNull(), revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (result.affected === 0) {
+      throw new NotFoundException(`No pending invitation found with id ${id}`);
+    }
+    return `Invitation with id ${id} has been revoked`;
+  }
+
+  // Accept an invitation: creates the profile and its student/lecturer record in one transaction
+  async accept(acceptInvitationDto: AcceptInvitationDto) {
+    return this.dataSource.transaction(async (manager) => {
+      const invitation = await manager.findOne(Invitation, {
+        where: { hashedToken: this.hashToken(acceptInvitationDto.token) },
+      });
+
+      // claim the invitation; the conditional update keeps it single-use
+      const claimed = invitation
+        ? await manager.update(
+            Invitation,
+            {
+              id: invitation.id,
+              acceptedAt: IsNull(),
+              revokedAt: IsNull(),
+              expiresAt: MoreThan(new Date()),
+            },
+            { acceptedAt: new Date() },
+          )
+        : undefined;
+      if (!invitation || !claimed || claimed.affected === 0) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      const existingProfile = await manager.existsBy(Profile, {
+        email: invitation.email,
+      });
+      if (existingProfile) {
+        throw new ConflictException(
+          `Profile with email ${invitation.email} already exists`,
+        );
+      }
+
+      const firstName = acceptInvitationDto.firstName ?? invitation.firstName;
+      const lastName = acceptInvitationDto.lastName ?? invitation.lastName;
+      if (!firstName || !lastName) {
+        throw new BadRequestException('First name and last name are required');
+      }
+      const password = await this.passwordPolicyService.hashNewPassword(
+        acceptInvitationDto.password,
+        { firstName, lastName, email: invitation.email },
+      );
+
+      const profile = await manager.save(Profile, {
+        firstName,
+        lastName,
+        email: invitation.email,
+        password,
+        role: invitation.role,
+        emailVerifiedAt: new Date(), // the emailed invitation link proves the address
+      });
+
+      await this.passwordPolicyService.remember(profile.id, password, manager);
+
+      let student: Student | undefined;
+      if (invitation.studentDetails) {
+        student = await manager.save(Student, {
+          enrollmentDate: invitation.studentDetails.enrollmentDate,
+          degreeProgram: invitation.studentDetails.degreeProgram,
+          profile,
+        });
+      }
+
+      let lecturer: Lecturer | undefined;
+      if (invitation.lecturerDetails) {
+        lecturer = await manager.save(Lecturer, {
+          ...invitation.lecturerDetails,
+          profile,
+        });
+      }
+
+      await manager.update(Invitation, invitation.id, {
+        acceptedProfile: { id: profile.id },
+      });
+
+      return {
+        profileId: profile.id,
+        email: profile.email,
+        role: profile.role,
+        studentId: student?.id,
+        lecturerId: lecturer?.id,
+      };
+    });
+  }
+}
@@ -11,21 +11,28 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { LecturerService } from './lecturer.service';
+import { TimetableService } from 'src/timetable/timetable.service';
+import { TimetableQueryDto } from 'src/timetable/dto';
+import { NoCache } from 'src/http-cache.interceptor';
 import { CreateLecturerDto } from './dto/create-lecturer.dto';
 import { UpdateLecturerDto } from './dto/update-lecturer.dto';
-import { Public, Roles } from 'src/auth/decorators';
-import { AtGuard, RolesGuard } from 'src/auth/guards';
-import { Role } from 'src/profiles/entities/profile.entity';
+import { CheckPolicies, RequirePermissions } from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard, PoliciesGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import { CourseAssignmentPolicy } from 'src/permissions/policies';
 import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
 
 @ApiTags('lecturer')
 @ApiBearerAuth()
 @Controller('lecturer')
-@UseGuards(AtGuard, RolesGuard)
+@UseGuards(AtGuard, PermissionsGuard, PoliciesGuard)
 export class LecturerController {
-  constructor(private readonly lecturerService: LecturerService) {}
+  constructor(
+    private readonly lecturerService: LecturerService,
+    private readonly timetableService: TimetableService,
+  ) {}
 
-  @Public()
+  @RequirePermissions(Permission.LECTURERS_CREATE)
   @Post()
   create(@Body() createLecturerDto: CreateLecturerDto) {
     return this.lecturerService.create(createLecturerDto);
@@ -36,19 +43,19 @@ export class LecturerController {
     required: false,
     description: 'Filter students by name',
   })
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.LECTURERS_READ)
   @Get()
   findAll(@Query('name') name?: string) {
     return this.lecturerService.findAll(name);
   }
 
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.LECTURERS_READ)
   @Get(':id')
   findOne(@Param('id', ParseIntPipe) id: number) {
     return this.lecturerService.findOne(id);
   }
 
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.LECTURERS_UPDATE)
   @Patch(':id')
   update(
     @Param('id', ParseIntPipe) id: number,
@@ -57,23 +64,38 @@ export class LecturerController {
     return this.lecturerService.update(id, updateLecturerDto);
   }
 
-  @Roles(Role.ADMIN)
+  @RequirePermissions(Permission.LECTURERS_DELETE)
   @Delete(':id')
   remove(@Param('id', ParseIntPipe) id: number) {
     return this.lecturerService.remove(id);
   }
 
+  // The week of the date (defaults to this week) of the classes the lecturer teaches
+  @RequirePermissions(Permission.LECTURERS_READ)
+  @NoCache()
+  @Get(':id/timetable')
+  getTimetable(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() timetableQueryDto: TimetableQueryDto,
+  ) {
+    return this.timetableService.getLecturerTimetable(
+      id,
+      timetableQueryDto.date,
+    );
+  }
+
   // Lecturer-Course assignment endpoints
 
   // Get all courses for a lecturer
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.LECTURERS_ASSIGN_COURSES)
   @Get(':id/courses')
   getLecturerCourses(@Param('id', ParseIntPipe) id: number) {
     return this.lecturerService.getLecturerCourses(id);
   }
 
   // Assign a lecturer to a course
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.LECTURERS_ASSIGN_COURSES)
+  @CheckPolicies(CourseAssignmentPolicy)
   @Post(':lecturerId/courses/:courseId')
   assignLecturerToCourse(
     @Param('lecturerId', ParseIntPipe) lecturerId: number,
@@ -83,7 +105,8 @@ export class LecturerController {
   }
 
   // Unassign a lecturer from a course
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.LECTURERS_ASSIGN_COURSES)
+  @CheckPolicies(CourseAssignmentPolicy)
   @Delete(':lecturerId/courses/:courseId')
   unassignLecturerFromCourse(
     @Param('lecturerId', ParseIntPipe) lecturerId: number,
@@ -96,7 +119,8 @@ export class LecturerController {
   }
 
   // Update lecturer's courses (batch assignment)
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.LECTURERS_ASSIGN_COURSES)
+  @CheckPolicies(CourseAssignmentPolicy)
   @Patch(':id/courses')
   updateLecturerCourses(
     @Param('id', ParseIntPipe) id: number,
@@ -1,6 +1,11 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
 
+// Secret calendar feed tokens travel in the path (calendar/feeds/<token>.ics), so they are masked before logging
+export function redactPath(path: string): string {
+  return path.replace(/(\/calendar\/feeds\/)[^/?]+/, '$1[redacted]');
+}
+
 // Middleware to log requests
 @Injectable()
 export class LoggerMiddleware implements NestMiddleware {
@@ -9,7 +14,7 @@ export class LoggerMiddleware implements NestMiddleware {
 
     // Log request details
     console.log(
-      `[\x1b[33m${new Date().toISOString()}\x1b[0m] \x1b[32m${req.method}\x1b[0m ${req.path}`,
+      `[\x1b[33m${new Date().toISOString()}\x1b[0m] \x1b[32m${req.method}\x1b[0m ${redactPath(req.path)}`,
     );
 
     // Capture the original end function
@@ -19,7 +24,7 @@ export class LoggerMiddleware implements NestMiddleware {
     res.end = function (...args: Parameters<Response['end']>): Response {
       const duration = Date.now() - startTime;
       console.log(
-        `[\x1b[33m${new Date().toISOString()}\x1b[0m] \x1b[32m${req.method}\x1b[0m ${req.path} - ${res.statusCode} (\x1b[33m${duration}ms\x1b[0m)`,
+        `[\x1b[33m${new Date().toISOString()}\x1b[0m] \x1b[32m${req.method}\x1b[0m ${redactPath(req.path)} - ${res.statusCode} (\x1b[33m${duration}ms\x1b[0m)`,
       );
 
       // Call the original end function
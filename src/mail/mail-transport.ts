@@ -0,0 +1,15 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/*
+- Purpose: Abstraction over how outgoing mail is delivered
+- How it works: MailModule binds this token to the SMTP transport in production or to the
+  local outbox transport in development and tests (MAIL_TRANSPORT=smtp|outbox)
+*/
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>;
+}
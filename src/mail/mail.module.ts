@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MailTransport } from './mail-transport';
+import { SmtpMailTransport } from './smtp-mail.transport';
+import { OutboxMailTransport } from './outbox-mail.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    MailService,
+    {
+      provide: MailTransport,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('MAIL_TRANSPORT', 'outbox') === 'smtp'
+          ? new SmtpMailTransport(configService)
+          : new OutboxMailTransport(configService), // local outbox for dev and tests
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { MailTransport } from './mail-transport';
+
+@Injectable()
+export class MailService {
+  constructor(private readonly mailTransport: MailTransport) {}
+
+  // Send the link a user follows to choose a new password
+  async sendPasswordReset(to: string, firstName: string, resetUrl: string) {
+    await this.mailTransport.send({
+      to,
+      subject: 'Reset your password',
+      text: `Hi ${firstName},\n\nWe received a request to reset your password. Use the link below to choose a new one:\n\n${resetUrl}\n\nIf you did not ask for this, you can ignore this email.`,
+    });
+  }
+
+  // Send the link a user follows to confirm their email address
+  async sendEmailVerification(
+    to: string,
+    firstName: string,
+    verificationUrl: string,
+  ) {
+    await this.mailTransport.send({
+      to,
+      subject: 'Verify your email address',
+      text: `Hi ${firstName},\n\nPlease confirm your email address by following the link below:\n\n${verificationUrl}\n\nIf you did not create an account, you can ignore this email.`,
+    });
+  }
+
+  // Send an invitation to create an account with a pre-set role
+  async sendInvitation(
+    to: string,
+    role: string,
+    invitationUrl: string,
+    expiresAt: Date,
+  ) {
+    await this.mailTransport.send({
+      to,
+      subject: 'You have been invited to the University portal',
+      text: `Hello,\n\nYou have been invited to join the University portal as ${role}. Use the link below to set up your account:\n\n${invitationUrl}\n\nThis invitation expires on ${expiresAt.toUTCString()}.`,
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fsPromises, existsSync } from 'fs';
+import * as path from 'path';
+import { MailMessage, MailTransport } from './mail-transport';
+
+// Writes each message to a JSON file in a local outbox directory instead of sending it (dev and tests)
+export class OutboxMailTransport extends MailTransport {
+  private readonly outboxPath: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.outboxPath = path.resolve(
+      configService.get<string>('MAIL_OUTBOX_DIR', 'mail-outbox'),
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    if (!existsSync(this.outboxPath)) {
+      await fsPromises.mkdir(this.outboxPath, { recursive: true });
+    }
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9.@_-]/g, '_')}.json`;
+    await fsPromises.writeFile(
+      path.join(this.outboxPath, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
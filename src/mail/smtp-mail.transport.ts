@@ -0,0 +1,27 @@
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport';
+
+// Delivers mail through an SMTP server
+export class SmtpMailTransport extends MailTransport {
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.from = configService.getOrThrow<string>('MAIL_FROM');
+    this.transporter = createTransport({
+      host: configService.getOrThrow<string>('SMTP_HOST'),
+      port: Number(configService.get<string>('SMTP_PORT', '587')),
+      secure: configService.get<string>('SMTP_SECURE', 'false') === 'true',
+      auth: {
+        user: configService.getOrThrow<string>('SMTP_USER'),
+        pass: configService.getOrThrow<string>('SMTP_PASSWORD'),
+      },
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
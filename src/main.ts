@@ -4,30 +4,49 @@ import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AllExceptionsFilter } from './http-exception.filter';
 import helmet from 'helmet';
+import * as cookieParser from 'cookie-parser';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  const configService = app.get(ConfigService);
+
+  // Number of reverse proxies in front of the API, request.ip is read from X-Forwarded-For through that many hops
+  app.set('trust proxy', Number(configService.get<string>('TRUST_PROXY', '0')));
 
   // Enable Helmet for security
   app.use(helmet());
-  // Enable CORS
+  // Parse cookies (auth tokens and the CSRF token in cookie mode)
+  app.use(cookieParser());
+  // Enable CORS for the configured origins only (credentials are not allowed with a wildcard origin)
+  const corsOrigins = configService
+    .get<string>('CORS_ORIGINS', '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
   app.enableCors({
-    origin: '*', // Adjust this to your needs
+    origin: corsOrigins.length ? corsOrigins : false,
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
-    allowedHeaders: 'Content-Type, Accept, Authorization',
+    allowedHeaders:
+      'Content-Type, Accept, Authorization, X-API-Key, X-CSRF-Token',
     credentials: true,
   });
 
-  // Enable global validation pipe
-  app.useGlobalPipes(new ValidationPipe());
+  // Enable global validation pipe. Properties a DTO does not declare are stripped, so request bodies cannot
+  // reach server-managed columns (2FA state, verification and password timestamps) through a spread DTO.
+  // They are dropped rather than refused because OAuth/OIDC clients may send extension parameters
+  app.useGlobalPipes(new ValidationPipe({ whitelist: true }));
 
   const { httpAdapter } = app.get(HttpAdapterHost);
   // Register the global exception filter
   app.useGlobalFilters(new AllExceptionsFilter(httpAdapter));
 
   // API versioning
-  app.setGlobalPrefix('api/v1');
+  app.setGlobalPrefix('api/v1', {
+    // other services expect the key set and OpenID configuration at the standard paths
+    exclude: ['.well-known/jwks.json', '.well-known/openid-configuration'],
+  });
 
   // Swagger Documentation Configuration
   const config = new DocumentBuilder()
@@ -58,6 +77,9 @@ This API uses **JWT Bearer tokens** for secure authentication. All protected end
 2. **Include the token** in your requests:   \`\`\`   Authorization: Bearer <your-access-token>   \`\`\`
 3. **Refresh tokens** when needed using \`GET /auth/refresh\`
 
+Browser clients can use **cookie mode** instead (\`AUTH_COOKIES=enabled\`): sign-in sets HttpOnly \`access_token\`/\`refresh_token\` cookies
+and returns a \`csrfToken\`, which must be sent in the \`X-CSRF-Token\` header on state-changing requests.
+
 ## 👥 Roles & Permissions
 
 | Role | Permissions | Access Level |
@@ -79,10 +101,25 @@ This API uses **JWT Bearer tokens** for secure authentication. All protected end
     .addTag('auth', 'Authentication endpoints') // Add tags for grouping
     .addTag('students', 'Student management')
     .addTag('courses', 'Course management')
+    .addTag('academic-terms', 'Academic terms')
+    .addTag('course-offerings', 'Courses running in a term (sections)')
+    .addTag('grades', 'Gradebook and GPA')
+    .addTag('transcripts', 'Transcript verification')
+    .addTag('rooms', 'Rooms that classes are scheduled in')
+    .addTag('calendar', 'iCalendar feeds and institutional events')
+    .addTag(
+      'attendance',
+      'Class sessions, check-in codes and attendance reports',
+    )
     .addTag('profiles', 'Profile management')
     .addTag('departments', 'Department management')
     .addTag('lecturer', 'Lecturer management')
+    .addTag('invitations', 'Invitation-based onboarding')
+    .addTag('permissions', 'Role permission management')
+    .addTag('oauth', 'OAuth2 / OpenID Connect provider')
+    .addTag('audit', 'Impersonation audit log')
     .addBearerAuth()
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key') // Service-to-service API keys
     .addServer('https://nest-demo-api.azurewebsites.net', 'Production Server') // Add production server URL
     .addServer('http://localhost:8000', 'Local Development Server') // Add server URL
     .build();
@@ -105,7 +142,6 @@ This API uses **JWT Bearer tokens** for secure authentication. All protected end
     customSiteTitle: 'University API Documentation',
   });
 
-  const configService = app.get(ConfigService);
   const PORT = configService.getOrThrow<number>('PORT');
 
   await app.listen(PORT);
@@ -3,5 +3,6 @@ import { LogsService } from './logs.service';
 
 @Module({
   providers: [LogsService],
+  exports: [LogsService],
 })
 export class LogsModule {}
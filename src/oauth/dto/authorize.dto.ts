@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+
+// Parameters of an authorization request (RFC 6749 section 4.1.1 with PKCE, RFC 7636)
+export class AuthorizeDto {
+  @ApiProperty({ example: 'code', required: true })
+  @IsIn(['code'])
+  response_type: string;
+
+  @ApiProperty({ required: true })
+  @IsNotEmpty()
+  @IsString()
+  client_id: string;
+
+  @ApiProperty({
+    example: 'https://library.university.edu/oauth/callback',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  redirect_uri: string;
+
+  @ApiProperty({
+    description: 'Space separated scopes',
+    example: 'openid profile email role',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  scope: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @ApiProperty({
+    description: 'base64url(sha256(code_verifier))',
+    required: true,
+  })
+  @IsString()
+  @Length(43, 128)
+  code_challenge: string;
+
+  @ApiProperty({ example: 'S256', required: true })
+  @IsIn(['S256'])
+  code_challenge_method: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+}
+
+// The user's answer on the consent screen
+export class ConsentDecisionDto extends AuthorizeDto {
+  @ApiProperty({
+    description: 'Whether the user allows the client access',
+    required: true,
+  })
+  @IsBoolean()
+  approve: boolean;
+}
@@ -0,0 +1,65 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { OAuthScope } from '../oauth-scopes';
+
+export class CreateOAuthClientDto {
+  @ApiProperty({
+    description: 'Name shown to users on the consent screen',
+    example: 'Library',
+    required: true,
+  })
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description: 'Redirect URIs the client may use (exact match)',
+    example: ['https://library.university.edu/oauth/callback'],
+    required: true,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  redirectUris: string[];
+
+  @ApiProperty({
+    description: 'Scopes the client may request. Defaults to all scopes',
+    enum: OAuthScope,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(OAuthScope, { each: true })
+  scopes?: OAuthScope[];
+
+  @ApiProperty({
+    description:
+      'Confidential clients (server-side apps) get a client secret; public clients rely on PKCE only',
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  confidential?: boolean;
+
+  @ApiProperty({
+    description: 'University-run apps that skip the consent step',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  firstParty?: boolean;
+}
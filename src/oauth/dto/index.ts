@@ -0,0 +1,3 @@
+export * from './create-oauth-client.dto';
+export * from './authorize.dto';
+export * from './token.dto';
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+// Token request (RFC 6749 section 4.1.3). Sent form encoded or as JSON
+export class TokenDto {
+  @ApiProperty({ example: 'authorization_code', required: true })
+  @IsNotEmpty()
+  @IsString()
+  grant_type: string;
+
+  @ApiProperty({ required: true })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+
+  @ApiProperty({ required: true })
+  @IsNotEmpty()
+  @IsString()
+  redirect_uri: string;
+
+  @ApiProperty({ required: true })
+  @IsNotEmpty()
+  @IsString()
+  code_verifier: string;
+
+  @ApiProperty({
+    description: 'Required unless sent with HTTP Basic authentication',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @ApiProperty({
+    description: 'For confidential clients not using HTTP Basic authentication',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
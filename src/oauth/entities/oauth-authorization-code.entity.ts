@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+import { OAuthClient } from './oauth-client.entity';
+import { OAuthScope } from '../oauth-scopes';
+
+@Entity()
+export class OAuthAuthorizationCode {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column()
+  hashedCode: string; // sha256 of the code handed to the client
+
+  @Column()
+  redirectUri: string; // must be repeated unchanged at the token endpoint
+
+  @Column({ type: 'simple-json' })
+  scopes: OAuthScope[];
+
+  @Column()
+  codeChallenge: string; // PKCE S256 challenge
+
+  @Column({ type: 'varchar', nullable: true })
+  nonce: string | null; // copied into the ID token
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column()
+  profileId: number;
+
+  @ManyToOne(() => Profile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'profileId' })
+  profile: Relation<Profile>;
+
+  @Column()
+  clientId: string;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'clientId' })
+  client: Relation<OAuthClient>;
+}
@@ -0,0 +1,33 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, Relation } from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+import { OAuthScope } from '../oauth-scopes';
+
+@Entity()
+export class OAuthClient {
+  @PrimaryColumn()
+  clientId: string;
+
+  @Column()
+  name: string; // shown to the user on the consent screen, e.g. "Library"
+
+  @Column({ type: 'varchar', nullable: true, select: false })
+  hashedSecret: string | null; // null for public clients (SPAs, mobile apps), which rely on PKCE alone
+
+  @Column({ type: 'simple-json' })
+  redirectUris: string[]; // exact matches only
+
+  @Column({ type: 'simple-json' })
+  allowedScopes: OAuthScope[];
+
+  @Column({ default: false })
+  firstParty: boolean; // university-run apps skip the consent step
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  createdBy: Relation<Profile>;
+}
@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+  Relation,
+} from 'typeorm';
+import { Profile } from '../../profiles/entities/profile.entity';
+import { OAuthClient } from './oauth-client.entity';
+import { OAuthScope } from '../oauth-scopes';
+
+@Entity()
+@Unique(['profileId', 'clientId'])
+export class OAuthConsent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'simple-json' })
+  scopes: OAuthScope[];
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  grantedAt: Date;
+
+  @Column()
+  profileId: number;
+
+  @ManyToOne(() => Profile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'profileId' })
+  profile: Relation<Profile>;
+
+  @Column()
+  clientId: string;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'clientId' })
+  client: Relation<OAuthClient>;
+}
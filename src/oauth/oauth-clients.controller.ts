@@ -0,0 +1,45 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { OAuthClientsService } from './oauth-clients.service';
+import { CreateOAuthClientDto } from './dto';
+import { GetCurrentUserId, RequirePermissions } from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+
+@ApiTags('oauth')
+@ApiBearerAuth()
+@Controller('oauth/clients')
+@UseGuards(AtGuard, PermissionsGuard)
+@RequirePermissions(Permission.OAUTH_CLIENTS_MANAGE)
+export class OAuthClientsController {
+  constructor(private readonly oauthClientsService: OAuthClientsService) {}
+
+  // /oauth/clients (the client secret is only returned by this call)
+  @Post()
+  create(
+    @Body() createOAuthClientDto: CreateOAuthClientDto,
+    @GetCurrentUserId() userId: number,
+  ) {
+    return this.oauthClientsService.create(createOAuthClientDto, userId);
+  }
+
+  // /oauth/clients
+  @Get()
+  findAll() {
+    return this.oauthClientsService.findAll();
+  }
+
+  // /oauth/clients/:clientId
+  @Delete(':clientId')
+  revoke(@Param('clientId') clientId: string) {
+    return this.oauthClientsService.revoke(clientId);
+  }
+}
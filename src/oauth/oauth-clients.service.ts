@@ -0,0 +1,86 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { CreateOAuthClientDto } from './dto';
+import { OAuthScope } from './oauth-scopes';
+
+// Registry of the applications allowed to sign users in through this API
+@Injectable()
+export class OAuthClientsService {
+  constructor(
+    @InjectRepository(OAuthClient)
+    private oauthClientRepository: Repository<OAuthClient>,
+  ) {}
+
+  // Helper method to hash a client secret before it is stored or compared
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  // Register a client. The client secret is only returned by this call
+  async create(createOAuthClientDto: CreateOAuthClientDto, creatorId: number) {
+    const clientId = randomBytes(16).toString('hex');
+    const clientSecret =
+      createOAuthClientDto.confidential === false
+        ? null
+        : randomBytes(32).toString('base64url');
+
+    await this.oauthClientRepository.save({
+      clientId,
+      name: createOAuthClientDto.name,
+      hashedSecret: clientSecret ? this.hashSecret(clientSecret) : null,
+      redirectUris: createOAuthClientDto.redirectUris,
+      allowedScopes: createOAuthClientDto.scopes ?? Object.values(OAuthScope),
+      firstParty: createOAuthClientDto.firstParty ?? false,
+      createdBy: { id: creatorId },
+    });
+
+    return {
+      ...(await this.oauthClientRepository.findOneByOrFail({ clientId })),
+      clientSecret,
+    };
+  }
+
+  async findAll(): Promise<OAuthClient[]> {
+    return this.oauthClientRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  async revoke(clientId: string): Promise<string> {
+    const result = await this.oauthClientRepository.update(
+      { clientId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (result.affected === 0) {
+      throw new NotFoundException(
+        `No active OAuth client found with id ${clientId}`,
+      );
+    }
+    return `OAuth client ${clientId} has been revoked`;
+  }
+
+  // An active client with its secret hash, or null
+  async findActive(clientId: string): Promise<OAuthClient | null> {
+    return this.oauthClientRepository
+      .createQueryBuilder('client')
+      .addSelect('client.hashedSecret')
+      .where('client.clientId = :clientId', { clientId })
+      .andWhere('client.revokedAt IS NULL')
+      .getOne();
+  }
+
+  // Whether the secret presented at the token endpoint belongs to the client
+  secretMatches(client: OAuthClient, secret: string | undefined): boolean {
+    if (!client.hashedSecret) {
+      return true; // public client
+    }
+    if (!secret) {
+      return false;
+    }
+    return timingSafeEqual(
+      Buffer.from(this.hashSecret(secret)),
+      Buffer.from(client.hashedSecret),
+    );
+  }
+}
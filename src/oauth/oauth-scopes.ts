@@ -0,0 +1,7 @@
+// Scopes a client can be allowed to request
+export enum OAuthScope {
+  OPENID = 'openid', // issue an ID token
+  PROFILE = 'profile', // first and last name
+  EMAIL = 'email',
+  ROLE = 'role', // role and the student/lecturer ids
+}
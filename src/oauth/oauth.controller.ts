@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { OAuthService } from './oauth.service';
+import { AuthorizeDto, ConsentDecisionDto, TokenDto } from './dto';
+import { OAuthExceptionFilter } from './oauth.exception';
+import {
+  BlockWhileImpersonating,
+  GetCurrentUserId,
+  Public,
+} from 'src/auth/decorators';
+import { AtGuard } from 'src/auth/guards';
+import { NoCache } from 'src/http-cache.interceptor';
+
+@ApiTags('oauth')
+@NoCache() // codes, tokens and consents are per-caller
+@Controller('oauth')
+export class OAuthController {
+  constructor(private readonly oauthService: OAuthService) {}
+
+  // /oauth/authorize?response_type=code&client_id=...&redirect_uri=...&scope=openid&code_challenge=...
+  // Called by the frontend's authorize page for the signed-in user
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @BlockWhileImpersonating() // consent is the profile owner's decision
+  @Get('authorize')
+  authorize(
+    @GetCurrentUserId() userId: number,
+    @Query() authorizeDto: AuthorizeDto,
+  ) {
+    return this.oauthService.authorize(userId, authorizeDto);
+  }
+
+  // /oauth/authorize (the user's answer on the consent screen)
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @HttpCode(HttpStatus.OK)
+  @BlockWhileImpersonating()
+  @Post('authorize')
+  decide(
+    @GetCurrentUserId() userId: number,
+    @Body() consentDecisionDto: ConsentDecisionDto,
+  ) {
+    const { approve, ...authorizeDto } = consentDecisionDto;
+    return this.oauthService.decide(userId, authorizeDto, approve);
+  }
+
+  // /oauth/token
+  @Public()
+  @UseFilters(OAuthExceptionFilter)
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @Post('token')
+  token(
+    @Body() tokenDto: TokenDto,
+    @Headers('authorization') authorization?: string,
+  ) {
+    return this.oauthService.token(tokenDto, authorization);
+  }
+
+  // /oauth/userinfo (takes the OAuth access token, not one of our own)
+  @Public()
+  @UseFilters(OAuthExceptionFilter)
+  @Get('userinfo')
+  userinfo(@Headers('authorization') authorization?: string) {
+    return this.oauthService.userinfo(authorization);
+  }
+
+  // /oauth/consents
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @Get('consents')
+  findConsents(@GetCurrentUserId() userId: number) {
+    return this.oauthService.findConsents(userId);
+  }
+
+  // /oauth/consents/:clientId
+  @ApiBearerAuth()
+  @UseGuards(AtGuard)
+  @Delete('consents/:clientId')
+  revokeConsent(
+    @GetCurrentUserId() userId: number,
+    @Param('clientId') clientId: string,
+  ) {
+    return this.oauthService.revokeConsent(userId, clientId);
+  }
+}
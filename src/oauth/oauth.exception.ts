@@ -0,0 +1,48 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Response } from 'express';
+
+// Error codes of RFC 6749 section 5.2 (plus invalid_token from RFC 6750)
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'invalid_scope'
+  | 'invalid_token'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type';
+
+export class OAuthException extends HttpException {
+  constructor(
+    readonly error: OAuthErrorCode,
+    readonly description: string,
+    status: HttpStatus = HttpStatus.BAD_REQUEST,
+  ) {
+    super({ error, error_description: description }, status);
+  }
+}
+
+// OAuth clients expect the bare { error, error_description } body instead of the API's usual envelope
+@Catch(OAuthException)
+export class OAuthExceptionFilter implements ExceptionFilter {
+  catch(exception: OAuthException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    if (exception.error === 'invalid_token') {
+      response.setHeader(
+        'WWW-Authenticate',
+        `Bearer error="invalid_token", error_description="${exception.description}"`,
+      );
+    } else if (exception.error === 'invalid_client') {
+      response.setHeader('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+    response
+      .status(exception.getStatus())
+      .setHeader('Cache-Control', 'no-store')
+      .json(exception.getResponse());
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { AuthModule } from 'src/auth/auth.module';
+import { Profile } from 'src/profiles/entities/profile.entity';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { OAuthConsent } from './entities/oauth-consent.entity';
+import { OAuthAuthorizationCode } from './entities/oauth-authorization-code.entity';
+import { OAuthService } from './oauth.service';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthController } from './oauth.controller';
+import { OAuthClientsController } from './oauth-clients.controller';
+import { OidcDiscoveryController } from './oidc-discovery.controller';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([
+      OAuthClient,
+      OAuthConsent,
+      OAuthAuthorizationCode,
+      Profile,
+    ]),
+    AuthModule,
+  ],
+  controllers: [
+    OAuthController,
+    OAuthClientsController,
+    OidcDiscoveryController,
+  ],
+  providers: [OAuthService, OAuthClientsService],
+})
+export class OAuthModule {}
@@ -0,0 +1,441 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import * as ms from 'ms';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { OAuthConsent } from './entities/oauth-consent.entity';
+import { OAuthAuthorizationCode } from './entities/oauth-authorization-code.entity';
+import { OAuthClientsService } from './oauth-clients.service';
+import { AuthorizeDto, TokenDto } from './dto';
+import { OAuthException } from './oauth.exception';
+import { OAuthScope } from './oauth-scopes';
+import { Profile, Role } from 'src/profiles/entities/profile.entity';
+import { SigningKeysService } from 'src/auth/signing-keys.service';
+
+type OAuthAccessTokenPayload = {
+  sub: number;
+  typ: 'oauth';
+  client_id: string;
+  scope: string;
+};
+
+/*
+- Purpose: OAuth2 authorization server / OpenID Connect provider for the university's other apps
+- How it works: A user already signed in to this API (their own access token) asks to authorize a client.
+  After consent (skipped for first-party clients) a single-use authorization code bound to the PKCE challenge
+  is issued. The client trades it at the token endpoint for an access token (only good for /oauth/userinfo)
+  and an ID token. Both are signed by the same key ring as our own tokens and verify against the JWKS.
+*/
+@Injectable()
+export class OAuthService {
+  constructor(
+    @InjectRepository(OAuthConsent)
+    private consentRepository: Repository<OAuthConsent>,
+    @InjectRepository(OAuthAuthorizationCode)
+    private codeRepository: Repository<OAuthAuthorizationCode>,
+    @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    private oauthClientsService: OAuthClientsService,
+    private signingKeysService: SigningKeysService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to hash codes before they are stored or looked up
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private issuer(): string {
+    return this.configService.getOrThrow<string>('OAUTH_ISSUER');
+  }
+
+  // Helper method to build the redirect back to the client
+  private redirectUrl(redirectUri: string, params: Record<string, string>) {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  // Helper method to read "client_id:client_secret" (each form-urlencoded) from HTTP Basic credentials.
+  // Only the first colon separates them, and malformed credentials fail client authentication
+  private parseBasicAuth(credentials: string) {
+    const decoded = Buffer.from(credentials, 'base64').toString();
+    const separator = decoded.indexOf(':');
+    try {
+      return {
+        clientId: decodeURIComponent(
+          separator === -1 ? decoded : decoded.slice(0, separator),
+        ),
+        clientSecret:
+          separator === -1
+            ? undefined
+            : decodeURIComponent(decoded.slice(separator + 1)),
+      };
+    } catch {
+      throw new OAuthException(
+        'invalid_client',
+        'Client authentication failed',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+  }
+
+  // Helper method to check the client, redirect URI and scopes of an authorization request
+  private async validateAuthorizationRequest(authorizeDto: AuthorizeDto) {
+    const client = await this.oauthClientsService.findActive(
+      authorizeDto.client_id,
+    );
+    if (!client) {
+      throw new OAuthException('invalid_client', 'Unknown client');
+    }
+    if (!client.redirectUris.includes(authorizeDto.redirect_uri)) {
+      throw new OAuthException(
+        'invalid_request',
+        'redirect_uri is not registered for this client',
+      );
+    }
+
+    const scopes = [
+      ...new Set(authorizeDto.scope.split(' ').filter(Boolean)),
+    ] as OAuthScope[];
+    if (
+      scopes.length === 0 ||
+      scopes.some((scope) => !client.allowedScopes.includes(scope))
+    ) {
+      throw new OAuthException(
+        'invalid_scope',
+        `Allowed scopes: ${client.allowedScopes.join(' ')}`,
+      );
+    }
+    return { client, scopes };
+  }
+
+  // Helper method to issue an authorization code and build the redirect carrying it
+  private async issueCode(
+    profileId: number,
+    client: OAuthClient,
+    scopes: OAuthScope[],
+    authorizeDto: AuthorizeDto,
+  ) {
+    const code = randomBytes(32).toString('base64url');
+    await this.codeRepository.save({
+      hashedCode: this.hash(code),
+      redirectUri: authorizeDto.redirect_uri,
+      scopes,
+      codeChallenge: authorizeDto.code_challenge,
+      nonce: authorizeDto.nonce ?? null,
+      expiresAt: new Date(
+        Date.now() +
+          ms(
+            this.configService.get<ms.StringValue>(
+              'OAUTH_CODE_EXPIRATION_TIME',
+              '1m',
+            ),
+          ),
+      ),
+      profileId,
+      clientId: client.clientId,
+    });
+
+    return {
+      redirectTo: this.redirectUrl(authorizeDto.redirect_uri, {
+        code,
+        ...(authorizeDto.state && { state: authorizeDto.state }),
+      }),
+    };
+  }
+
+  // Start an authorization request. Returns the redirect with a code, or what the consent screen has to show
+  async authorize(profileId: number, authorizeDto: AuthorizeDto) {
+    const { client, scopes } =
+      await this.validateAuthorizationRequest(authorizeDto);
+
+    const consent = await this.consentRepository.findOneBy({
+      profileId,
+      clientId: client.clientId,
+    });
+    const consented =
+      client.firstParty ||
+      (!!consent && scopes.every((scope) => consent.scopes.includes(scope)));
+    if (!consented) {
+      return {
+        consentRequired: true,
+        client: { clientId: client.clientId, name: client.name },
+        scopes,
+      };
+    }
+
+    return this.issueCode(profileId, client, scopes, authorizeDto);
+  }
+
+  // Record the user's consent decision and finish the authorization request
+  async decide(
+    profileId: number,
+    authorizeDto: AuthorizeDto,
+    approve: boolean,
+  ) {
+    const { client, scopes } =
+      await this.validateAuthorizationRequest(authorizeDto);
+
+    if (!approve) {
+      return {
+        redirectTo: this.redirectUrl(authorizeDto.redirect_uri, {
+          error: 'access_denied',
+          ...(authorizeDto.state && { state: authorizeDto.state }),
+        }),
+      };
+    }
+
+    const consent = await this.consentRepository.findOneBy({
+      profileId,
+      clientId: client.clientId,
+    });
+    await this.consentRepository.save({
+      ...consent,
+      profileId,
+      clientId: client.clientId,
+      scopes: [...new Set([...(consent?.scopes ?? []), ...scopes])],
+      grantedAt: new Date(),
+    });
+
+    return this.issueCode(profileId, client, scopes, authorizeDto);
+  }
+
+  // Token endpoint: trade an authorization code for an access token and (with "openid") an ID token
+  async token(tokenDto: TokenDto, basicAuth?: string) {
+    if (tokenDto.grant_type !== 'authorization_code') {
+      throw new OAuthException(
+        'unsupported_grant_type',
+        'Only authorization_code is supported',
+      );
+    }
+
+    // client authentication: HTTP Basic or client_id/client_secret in the body
+    let clientId = tokenDto.client_id;
+    let clientSecret = tokenDto.client_secret;
+    if (basicAuth?.startsWith('Basic ')) {
+      ({ clientId, clientSecret } = this.parseBasicAuth(basicAuth.slice(6)));
+    }
+    const client = clientId
+      ? await this.oauthClientsService.findActive(clientId)
+      : null;
+    if (
+      !client ||
+      !this.oauthClientsService.secretMatches(client, clientSecret)
+    ) {
+      throw new OAuthException(
+        'invalid_client',
+        'Client authentication failed',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const code = await this.codeRepository.findOneBy({
+      hashedCode: this.hash(tokenDto.code),
+    });
+    // the conditional update keeps the code single-use
+    const claimed = code
+      ? await this.codeRepository.update(
+          { id: code.id, usedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+          { usedAt: new Date() },
+        )
+      : undefined;
+    if (
+      !code ||
+      !claimed ||
+      claimed.affected === 0 ||
+      code.clientId !== client.clientId ||
+      code.redirectUri !== tokenDto.redirect_uri
+    ) {
+      throw new OAuthException(
+        'invalid_grant',
+        'Invalid or expired authorization code',
+      );
+    }
+
+    const challenge = createHash('sha256')
+      .update(tokenDto.code_verifier)
+      .digest('base64url');
+    if (challenge !== code.codeChallenge) {
+      throw new OAuthException('invalid_grant', 'PKCE verification failed');
+    }
+
+    const profile = await this.findProfile(code.profileId);
+    if (!profile) {
+      throw new OAuthException('invalid_grant', 'The user no longer exists');
+    }
+
+    const signOptions = await this.signingKeysService.getSignOptions();
+    const expiresIn = this.configService.get<ms.StringValue>(
+      'OAUTH_ACCESS_TOKEN_EXPIRATION_TIME',
+      '1h',
+    );
+    const accessTokenPayload: OAuthAccessTokenPayload = {
+      sub: profile.id,
+      typ: 'oauth',
+      client_id: client.clientId,
+      scope: code.scopes.join(' '),
+    };
+    const accessToken = await this.jwtService.signAsync(accessTokenPayload, {
+      ...signOptions,
+      issuer: this.issuer(),
+      audience: this.issuer(),
+      expiresIn,
+    });
+
+    const idToken = code.scopes.includes(OAuthScope.OPENID)
+      ? await this.jwtService.signAsync(
+          {
+            ...this.claims(profile, code.scopes),
+            ...(code.nonce && { nonce: code.nonce }),
+          },
+          {
+            ...signOptions,
+            issuer: this.issuer(),
+            audience: client.clientId,
+            expiresIn,
+          },
+        )
+      : undefined;
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: Math.floor(ms(expiresIn) / 1000),
+      scope: code.scopes.join(' '),
+      ...(idToken && { id_token: idToken }),
+    };
+  }
+
+  // Helper method to load a profile with its student and lecturer records
+  private async findProfile(profileId: number) {
+    return this.profileRepository.findOne({
+      where: { id: profileId },
+      relations: ['student', 'lecturer'],
+    });
+  }
+
+  // Helper method to build the identity claims a set of scopes allows
+  private claims(profile: Profile, scopes: OAuthScope[]) {
+    return {
+      sub: String(profile.id),
+      ...(scopes.includes(OAuthScope.PROFILE) && {
+        given_name: profile.firstName,
+        family_name: profile.lastName,
+        name: `${profile.firstName} ${profile.lastName}`,
+      }),
+      ...(scopes.includes(OAuthScope.EMAIL) && {
+        email: profile.email,
+        email_verified: !!profile.emailVerifiedAt,
+      }),
+      ...(scopes.includes(OAuthScope.ROLE) && {
+        // unverified accounts only get GUEST, as when they sign in here
+        role: profile.emailVerifiedAt ? profile.role : Role.GUEST,
+        student_id: profile.student?.id ?? null,
+        lecturer_id: profile.lecturer?.id ?? null,
+      }),
+    };
+  }
+
+  // UserInfo endpoint: the claims of the user an OAuth access token was issued for
+  async userinfo(authorization?: string) {
+    const token = authorization?.startsWith('Bearer ')
+      ? authorization.slice(7).trim()
+      : undefined;
+    if (!token) {
+      throw new OAuthException(
+        'invalid_token',
+        'Missing access token',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    let payload: OAuthAccessTokenPayload;
+    try {
+      payload = await this.signingKeysService.verify<OAuthAccessTokenPayload>(
+        token,
+        { issuer: this.issuer(), audience: this.issuer() },
+      );
+    } catch {
+      throw new OAuthException(
+        'invalid_token',
+        'Invalid or expired access token',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    if (payload.typ !== 'oauth') {
+      throw new OAuthException(
+        'invalid_token',
+        'Not an OAuth access token',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const profile = await this.findProfile(payload.sub);
+    if (!profile) {
+      throw new OAuthException(
+        'invalid_token',
+        'The user no longer exists',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    return this.claims(profile, payload.scope.split(' ') as OAuthScope[]);
+  }
+
+  // The clients a user has granted access to
+  async findConsents(profileId: number) {
+    return this.consentRepository.find({
+      where: { profileId },
+      relations: ['client'],
+      order: { grantedAt: 'DESC' },
+    });
+  }
+
+  // Withdraw a consent; the client has to ask again on the next sign-in
+  async revokeConsent(profileId: number, clientId: string) {
+    await this.consentRepository.delete({ profileId, clientId });
+    return { message: `Access for client ${clientId} has been revoked` };
+  }
+
+  // OpenID Connect discovery document
+  getDiscoveryDocument() {
+    const issuer = this.issuer();
+    return {
+      issuer,
+      authorization_endpoint: this.configService.get<string>(
+        'OAUTH_AUTHORIZATION_URL',
+        `${this.configService.getOrThrow<string>('APP_FRONTEND_URL')}/oauth/authorize`,
+      ),
+      token_endpoint: `${issuer}/api/v1/oauth/token`,
+      userinfo_endpoint: `${issuer}/api/v1/oauth/userinfo`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256', 'ES256'],
+      scopes_supported: Object.values(OAuthScope),
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub',
+        'name',
+        'given_name',
+        'family_name',
+        'email',
+        'email_verified',
+        'role',
+        'student_id',
+        'lecturer_id',
+      ],
+    };
+  }
+}
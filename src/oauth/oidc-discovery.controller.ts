@@ -0,0 +1,18 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { OAuthService } from './oauth.service';
+import { Public } from 'src/auth/decorators';
+
+// Served outside the api/v1 prefix (see main.ts) at the standard location
+@ApiTags('oauth')
+@Controller('.well-known')
+export class OidcDiscoveryController {
+  constructor(private readonly oauthService: OAuthService) {}
+
+  // /.well-known/openid-configuration
+  @Public()
+  @Get('openid-configuration')
+  getDiscoveryDocument() {
+    return this.oauthService.getDiscoveryDocument();
+  }
+}
@@ -0,0 +1 @@
+export * from './set-role-permissions.dto';
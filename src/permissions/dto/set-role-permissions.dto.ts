@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsEnum } from 'class-validator';
+import { Permission } from '../permission.enum';
+
+export class SetRolePermissionsDto {
+  @ApiProperty({
+    description: 'The complete list of permissions the role should have',
+    enum: Permission,
+    isArray: true,
+    example: [Permission.STUDENTS_READ, Permission.COURSES_READ],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+}
@@ -0,0 +1,16 @@
+import { Entity, PrimaryGeneratedColumn, Column, Unique } from 'typeorm';
+import { Role } from '../../profiles/entities/profile.entity';
+import { Permission } from '../permission.enum';
+
+@Entity()
+@Unique(['role', 'permission'])
+export class RolePermission {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: Role })
+  role: Role;
+
+  @Column({ type: 'varchar' })
+  permission: Permission;
+}
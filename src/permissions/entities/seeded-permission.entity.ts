@@ -0,0 +1,12 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+import { Permission } from '../permission.enum';
+
+// Marks a permission whose default grants have been written once, so revoking them all sticks across restarts
+@Entity()
+export class SeededPermission {
+  @PrimaryColumn({ type: 'varchar' })
+  permission: Permission;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  seededAt: Date;
+}
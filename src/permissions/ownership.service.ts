@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Student } from 'src/students/entities/student.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { EnrollmentStatus } from 'src/enrollments/entities/enrollment.entity';
+
+// Answers "does this profile own / teach this resource?" for the access policies
+@Injectable()
+export class OwnershipService {
+  constructor(
+    @InjectRepository(Student) private studentRepository: Repository<Student>,
+    @InjectRepository(Lecturer)
+    private lecturerRepository: Repository<Lecturer>,
+    @InjectRepository(CourseOffering)
+    private offeringRepository: Repository<CourseOffering>,
+  ) {}
+
+  // Whether the student record belongs to the profile
+  async ownsStudent(profileId: number, studentId: number): Promise<boolean> {
+    return this.studentRepository.exists({
+      where: { id: studentId, profile: { id: profileId } },
+    });
+  }
+
+  // Whether the profile is a lecturer of the course, assigned to it or teaching one of its offerings
+  async teachesCourse(profileId: number, courseId: number): Promise<boolean> {
+    return (
+      (await this.lecturerRepository.exists({
+        where: { profile: { id: profileId }, courses: { id: courseId } },
+      })) ||
+      (await this.offeringRepository.exists({
+        where: { courseId, lecturers: { profile: { id: profileId } } },
+      }))
+    );
+  }
+
+  // Whether the profile is a lecturer of the course offering
+  async teachesOffering(
+    profileId: number,
+    offeringId: number,
+  ): Promise<boolean> {
+    return this.offeringRepository.exists({
+      where: { id: offeringId, lecturers: { profile: { id: profileId } } },
+    });
+  }
+
+  // Whether the student is (or was, unless they dropped) enrolled in an offering the profile teaches
+  async teachesStudent(profileId: number, studentId: number): Promise<boolean> {
+    return this.offeringRepository
+      .createQueryBuilder('offering')
+      .innerJoin('offering.lecturers', 'lecturer')
+      .innerJoin('lecturer.profile', 'lecturerProfile')
+      .innerJoin('offering.enrollments', 'enrollment')
+      .where('lecturerProfile.id = :profileId', { profileId })
+      .andWhere('enrollment.studentId = :studentId', { studentId })
+      .andWhere('enrollment.status != :dropped', {
+        dropped: EnrollmentStatus.DROPPED,
+      })
+      .getExists();
+  }
+
+  // Whether the profile belongs to a student enrolled (not dropped) in an offering the lecturer profile teaches
+  async teachesProfile(
+    profileId: number,
+    studentProfileId: number,
+  ): Promise<boolean> {
+    return this.offeringRepository
+      .createQueryBuilder('offering')
+      .innerJoin('offering.lecturers', 'lecturer')
+      .innerJoin('lecturer.profile', 'lecturerProfile')
+      .innerJoin('offering.enrollments', 'enrollment')
+      .innerJoin('enrollment.student', 'student')
+      .innerJoin('student.profile', 'studentProfile')
+      .where('lecturerProfile.id = :profileId', { profileId })
+      .andWhere('studentProfile.id = :studentProfileId', { studentProfileId })
+      .andWhere('enrollment.status != :dropped', {
+        dropped: EnrollmentStatus.DROPPED,
+      })
+      .getExists();
+  }
+}
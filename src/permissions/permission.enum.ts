@@ -0,0 +1,114 @@
+import { Role } from '../profiles/entities/profile.entity';
+
+// Every permission a route can require, written as "<resource>:<action>"
+export enum Permission {
+  PROFILES_LIST = 'profiles:list',
+  PROFILES_READ = 'profiles:read',
+  PROFILES_UPDATE = 'profiles:update',
+  PROFILES_DELETE = 'profiles:delete',
+  PROFILES_MANAGE = 'profiles:manage', // any profile, including role changes
+  PROFILES_IMPERSONATE = 'profiles:impersonate',
+
+  STUDENTS_CREATE = 'students:create',
+  STUDENTS_LIST = 'students:list',
+  STUDENTS_READ = 'students:read',
+  STUDENTS_UPDATE = 'students:update',
+  STUDENTS_DELETE = 'students:delete',
+  STUDENTS_ENROLL = 'students:enroll',
+  STUDENTS_MANAGE = 'students:manage', // any student, not only the caller's own or taught ones
+
+  LECTURERS_CREATE = 'lecturers:create',
+  LECTURERS_READ = 'lecturers:read',
+  LECTURERS_UPDATE = 'lecturers:update',
+  LECTURERS_DELETE = 'lecturers:delete',
+  LECTURERS_ASSIGN_COURSES = 'lecturers:assign-courses',
+
+  COURSES_CREATE = 'courses:create',
+  COURSES_READ = 'courses:read',
+  COURSES_UPDATE = 'courses:update',
+  COURSES_DELETE = 'courses:delete',
+  COURSES_MANAGE_ENROLLMENTS = 'courses:manage-enrollments',
+  COURSES_MANAGE = 'courses:manage', // any course, not only the ones the caller teaches
+
+  TERMS_CREATE = 'terms:create',
+  TERMS_READ = 'terms:read',
+  TERMS_UPDATE = 'terms:update',
+  TERMS_DELETE = 'terms:delete',
+
+  OFFERINGS_CREATE = 'offerings:create',
+  OFFERINGS_READ = 'offerings:read',
+  OFFERINGS_UPDATE = 'offerings:update',
+  OFFERINGS_DELETE = 'offerings:delete',
+
+  ROOMS_CREATE = 'rooms:create',
+  ROOMS_READ = 'rooms:read',
+  ROOMS_UPDATE = 'rooms:update',
+  ROOMS_DELETE = 'rooms:delete',
+
+  ENROLLMENTS_OVERRIDE_REQUISITES = 'enrollments:override-requisites', // enroll without meeting prerequisites
+
+  GRADES_RECORD = 'grades:record', // record and finalize grades of the offerings the caller teaches
+
+  ATTENDANCE_MANAGE = 'attendance:manage', // run check-in and mark attendance in the offerings the caller teaches
+  ATTENDANCE_CHECK_IN = 'attendance:check-in',
+
+  INSTITUTIONAL_EVENTS_MANAGE = 'institutional-events:manage', // holidays and exam periods in the calendar feeds
+
+  DEPARTMENTS_CREATE = 'departments:create',
+  DEPARTMENTS_READ = 'departments:read',
+  DEPARTMENTS_UPDATE = 'departments:update',
+  DEPARTMENTS_DELETE = 'departments:delete',
+
+  INVITATIONS_MANAGE = 'invitations:manage',
+  SESSIONS_MANAGE = 'sessions:manage',
+  LOGIN_HISTORY_READ = 'login-history:read',
+  ACCOUNTS_UNLOCK = 'accounts:unlock',
+  SIGNING_KEYS_ROTATE = 'signing-keys:rotate',
+  API_KEYS_MANAGE = 'api-keys:manage',
+  OAUTH_CLIENTS_MANAGE = 'oauth-clients:manage',
+  AUDIT_LOGS_READ = 'audit-logs:read',
+  PERMISSIONS_MANAGE = 'permissions:manage',
+}
+
+// Mapping written to the database once for every permission, when it is first seen
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.ADMIN]: Object.values(Permission),
+  [Role.FACULTY]: [
+    Permission.PROFILES_LIST,
+    Permission.PROFILES_READ,
+    Permission.PROFILES_UPDATE,
+    Permission.STUDENTS_CREATE,
+    Permission.STUDENTS_LIST,
+    Permission.STUDENTS_READ,
+    Permission.STUDENTS_UPDATE,
+    Permission.STUDENTS_ENROLL,
+    Permission.LECTURERS_READ,
+    Permission.LECTURERS_UPDATE,
+    Permission.LECTURERS_ASSIGN_COURSES,
+    Permission.COURSES_CREATE,
+    Permission.COURSES_READ,
+    Permission.COURSES_UPDATE,
+    Permission.TERMS_READ,
+    Permission.OFFERINGS_CREATE,
+    Permission.OFFERINGS_READ,
+    Permission.OFFERINGS_UPDATE,
+    Permission.ROOMS_READ,
+    Permission.GRADES_RECORD,
+    Permission.ATTENDANCE_MANAGE,
+    Permission.DEPARTMENTS_CREATE,
+    Permission.DEPARTMENTS_READ,
+    Permission.DEPARTMENTS_UPDATE,
+  ],
+  [Role.STUDENT]: [
+    Permission.PROFILES_READ,
+    Permission.PROFILES_UPDATE,
+    Permission.STUDENTS_READ,
+    Permission.COURSES_READ,
+    Permission.TERMS_READ,
+    Permission.OFFERINGS_READ,
+    Permission.ROOMS_READ,
+    Permission.ATTENDANCE_CHECK_IN,
+    Permission.DEPARTMENTS_READ,
+  ],
+  [Role.GUEST]: [],
+};
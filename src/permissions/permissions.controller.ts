@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiParam, ApiTags } from '@nestjs/swagger';
+import { PermissionsService } from './permissions.service';
+import { SetRolePermissionsDto } from './dto';
+import { Permission } from './permission.enum';
+import { RequirePermissions } from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Role } from 'src/profiles/entities/profile.entity';
+import { NoCache } from 'src/http-cache.interceptor';
+
+@ApiTags('permissions')
+@ApiBearerAuth()
+@NoCache() // the mapping must be read fresh after every change
+@Controller('permissions')
+@UseGuards(AtGuard, PermissionsGuard)
+@RequirePermissions(Permission.PERMISSIONS_MANAGE)
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  // http://localhost:8000/permissions
+  @Get()
+  findAll() {
+    return this.permissionsService.findAllPermissions();
+  }
+
+  // http://localhost:8000/permissions/roles
+  @Get('roles')
+  getRolePermissions() {
+    return this.permissionsService.getRolePermissions();
+  }
+
+  // http://localhost:8000/permissions/roles/faculty
+  @ApiParam({ name: 'role', enum: Role })
+  @Put('roles/:role')
+  setRolePermissions(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Body() setRolePermissionsDto: SetRolePermissionsDto,
+  ) {
+    return this.permissionsService.setRolePermissions(
+      role,
+      setRolePermissionsDto.permissions,
+    );
+  }
+
+  // http://localhost:8000/permissions/roles/faculty/students:delete
+  @ApiParam({ name: 'role', enum: Role })
+  @ApiParam({ name: 'permission', enum: Permission })
+  @Post('roles/:role/:permission')
+  grant(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Param('permission', new ParseEnumPipe(Permission))
+    permission: Permission,
+  ) {
+    return this.permissionsService.grant(role, permission);
+  }
+
+  // http://localhost:8000/permissions/roles/faculty/students:delete
+  @ApiParam({ name: 'role', enum: Role })
+  @ApiParam({ name: 'permission', enum: Permission })
+  @Delete('roles/:role/:permission')
+  revoke(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Param('permission', new ParseEnumPipe(Permission))
+    permission: Permission,
+  ) {
+    return this.permissionsService.revoke(role, permission);
+  }
+}
@@ -0,0 +1,49 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { RolePermission } from './entities/role-permission.entity';
+import { SeededPermission } from './entities/seeded-permission.entity';
+import { PermissionsService } from './permissions.service';
+import { PermissionsController } from './permissions.controller';
+import { OwnershipService } from './ownership.service';
+import {
+  CourseAssignmentPolicy,
+  ReadProfilePolicy,
+  RequisiteOverridePolicy,
+  StudentAccessPolicy,
+  TaughtCoursePolicy,
+  TaughtOfferingPolicy,
+  UpdateProfilePolicy,
+} from './policies';
+import { Student } from 'src/students/entities/student.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+
+// Global so PermissionsGuard and PoliciesGuard can be used by every feature module without importing this one
+@Global()
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([
+      RolePermission,
+      SeededPermission,
+      Student,
+      Lecturer,
+      CourseOffering,
+    ]),
+  ],
+  controllers: [PermissionsController],
+  providers: [
+    PermissionsService,
+    OwnershipService,
+    ReadProfilePolicy,
+    UpdateProfilePolicy,
+    StudentAccessPolicy,
+    TaughtCoursePolicy,
+    TaughtOfferingPolicy,
+    CourseAssignmentPolicy,
+    RequisiteOverridePolicy,
+  ],
+  exports: [PermissionsService, OwnershipService],
+})
+export class PermissionsModule {}
@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { DataSource, Repository } from 'typeorm';
+import * as ms from 'ms';
+import { RolePermission } from './entities/role-permission.entity';
+import { SeededPermission } from './entities/seeded-permission.entity';
+import { DEFAULT_ROLE_PERMISSIONS, Permission } from './permission.enum';
+import { Role } from 'src/profiles/entities/profile.entity';
+
+export type RolePermissionMap = Record<Role, Permission[]>;
+
+const ROLE_PERMISSIONS_CACHE_KEY = 'auth:role-permissions';
+
+/*
+- Purpose: Stores which permissions each role has, so access rules can change without a redeploy
+- How it works: The role -> permission mapping lives in the role_permission table and is seeded with
+  DEFAULT_ROLE_PERMISSIONS once per permission (recorded in seeded_permission), so revoking a permission from
+  every role survives restarts. PermissionsGuard reads it through the cache stores (memory + Redis) and every
+  change made through the admin endpoints drops the cached copy.
+*/
+@Injectable()
+export class PermissionsService implements OnModuleInit {
+  constructor(
+    @InjectRepository(RolePermission)
+    private rolePermissionRepository: Repository<RolePermission>,
+    @InjectDataSource() private dataSource: DataSource,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private configService: ConfigService,
+  ) {}
+
+  // Seed the default grants of permissions that have never been seeded (first start, or added by a new release).
+  // Permissions that already have grants count as seeded, which covers databases from before the marker table
+  async onModuleInit() {
+    await this.dataSource.transaction(async (manager) => {
+      const seeded = new Set([
+        ...(await manager.find(SeededPermission)).map((row) => row.permission),
+        ...(
+          await manager
+            .getRepository(RolePermission)
+            .createQueryBuilder('rolePermission')
+            .select('DISTINCT rolePermission.permission', 'permission')
+            .getRawMany<{ permission: Permission }>()
+        ).map((row) => row.permission),
+      ]);
+      const unseeded = Object.values(Permission).filter(
+        (permission) => !seeded.has(permission),
+      );
+      const missing = Object.entries(DEFAULT_ROLE_PERMISSIONS).flatMap(
+        ([role, permissions]) =>
+          permissions
+            .filter((permission) => unseeded.includes(permission))
+            .map((permission) => ({ role: role as Role, permission })),
+      );
+      if (missing.length > 0) {
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into(RolePermission)
+          .values(missing)
+          .orIgnore()
+          .execute();
+      }
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(SeededPermission)
+        .values(Object.values(Permission).map((permission) => ({ permission })))
+        .orIgnore()
+        .execute();
+    });
+  }
+
+  // Helper method to build the mapping from the database
+  private async loadRolePermissions(): Promise<RolePermissionMap> {
+    const rolePermissions: RolePermissionMap = {
+      [Role.ADMIN]: [],
+      [Role.FACULTY]: [],
+      [Role.STUDENT]: [],
+      [Role.GUEST]: [],
+    };
+    const rows = await this.rolePermissionRepository.find({
+      order: { permission: 'ASC' },
+    });
+    for (const row of rows) {
+      rolePermissions[row.role].push(row.permission);
+    }
+    return rolePermissions;
+  }
+
+  // Helper method to make the next read go back to the database
+  private async clearCache() {
+    await this.cacheManager.del(ROLE_PERMISSIONS_CACHE_KEY);
+  }
+
+  // The full mapping, served from the cache when possible
+  async getRolePermissions(): Promise<RolePermissionMap> {
+    const cached = await this.cacheManager.get<RolePermissionMap>(
+      ROLE_PERMISSIONS_CACHE_KEY,
+    );
+    if (cached) {
+      return cached;
+    }
+
+    const rolePermissions = await this.loadRolePermissions();
+    await this.cacheManager.set(
+      ROLE_PERMISSIONS_CACHE_KEY,
+      rolePermissions,
+      ms(
+        this.configService.get<ms.StringValue>('PERMISSIONS_CACHE_TTL', '10m'),
+      ),
+    );
+    return rolePermissions;
+  }
+
+  // Whether a role has every one of the given permissions
+  async hasPermissions(
+    role: Role,
+    permissions: Permission[],
+  ): Promise<boolean> {
+    const granted = (await this.getRolePermissions())[role] ?? [];
+    return permissions.every((permission) => granted.includes(permission));
+  }
+
+  // All permissions known to the application
+  findAllPermissions(): Permission[] {
+    return Object.values(Permission);
+  }
+
+  // Helper method to stop admins from locking themselves out of this API
+  private assertKeepsPermissionManagement(
+    role: Role,
+    permissions: Permission[],
+  ) {
+    if (
+      role === Role.ADMIN &&
+      !permissions.includes(Permission.PERMISSIONS_MANAGE)
+    ) {
+      throw new BadRequestException(
+        `The ${Role.ADMIN} role cannot lose the ${Permission.PERMISSIONS_MANAGE} permission`,
+      );
+    }
+  }
+
+  // Replace the permissions of a role
+  async setRolePermissions(role: Role, permissions: Permission[]) {
+    this.assertKeepsPermissionManagement(role, permissions);
+
+    await this.rolePermissionRepository.manager.transaction(async (manager) => {
+      await manager.delete(RolePermission, { role });
+      await manager.save(
+        RolePermission,
+        permissions.map((permission) => ({ role, permission })),
+      );
+    });
+    await this.clearCache();
+    return { role, permissions: (await this.getRolePermissions())[role] };
+  }
+
+  // Add a single permission to a role
+  async grant(role: Role, permission: Permission) {
+    await this.rolePermissionRepository
+      .createQueryBuilder()
+      .insert()
+      .values({ role, permission })
+      .orIgnore()
+      .execute();
+    await this.clearCache();
+    return { role, permissions: (await this.getRolePermissions())[role] };
+  }
+
+  // Remove a single permission from a role
+  async revoke(role: Role, permission: Permission) {
+    const current = (await this.loadRolePermissions())[role];
+    this.assertKeepsPermissionManagement(
+      role,
+      current.filter((granted) => granted !== permission),
+    );
+
+    await this.rolePermissionRepository.delete({ role, permission });
+    await this.clearCache();
+    return { role, permissions: (await this.getRolePermissions())[role] };
+  }
+}
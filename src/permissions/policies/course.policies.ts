@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionsService } from '../permissions.service';
+import { OwnershipService } from '../ownership.service';
+import { Permission } from '../permission.enum';
+import {
+  getCallerProfileId,
+  getIdParam,
+  PolicyHandler,
+  PolicyRequest,
+} from './policy-handler';
+
+// Act on a course (":courseId" or ":id"): one you teach, or any with courses:manage
+@Injectable()
+export class TaughtCoursePolicy implements PolicyHandler {
+  constructor(
+    private permissionsService: PermissionsService,
+    private ownershipService: OwnershipService,
+  ) {}
+
+  async handle(request: PolicyRequest): Promise<boolean> {
+    const { role } = request.user;
+    const profileId = getCallerProfileId(request);
+    const courseId = getIdParam(
+      request,
+      request.params.courseId !== undefined ? 'courseId' : 'id',
+    );
+    return (
+      (await this.permissionsService.hasPermissions(role, [
+        Permission.COURSES_MANAGE,
+      ])) ||
+      (profileId !== null &&
+        (await this.ownershipService.teachesCourse(profileId, courseId)))
+    );
+  }
+}
+
+// Act on a course offering (":offeringId" or ":id"): one you teach, or any with courses:manage
+@Injectable()
+export class TaughtOfferingPolicy implements PolicyHandler {
+  constructor(
+    private permissionsService: PermissionsService,
+    private ownershipService: OwnershipService,
+  ) {}
+
+  async handle(request: PolicyRequest): Promise<boolean> {
+    const { role } = request.user;
+    const profileId = getCallerProfileId(request);
+    const offeringId = getIdParam(
+      request,
+      request.params.offeringId !== undefined ? 'offeringId' : 'id',
+    );
+    return (
+      (await this.permissionsService.hasPermissions(role, [
+        Permission.COURSES_MANAGE,
+      ])) ||
+      (profileId !== null &&
+        (await this.ownershipService.teachesOffering(profileId, offeringId)))
+    );
+  }
+}
+
+// Change which lecturers teach a course: only with courses:manage, so lecturers cannot assign themselves to a course
+// and then pass TaughtCoursePolicy on it
+@Injectable()
+export class CourseAssignmentPolicy implements PolicyHandler {
+  constructor(private permissionsService: PermissionsService) {}
+
+  async handle(request: PolicyRequest): Promise<boolean> {
+    return this.permissionsService.hasPermissions(request.user.role, [
+      Permission.COURSES_MANAGE,
+    ]);
+  }
+}
@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionsService } from '../permissions.service';
+import { Permission } from '../permission.enum';
+import { PolicyHandler, PolicyRequest } from './policy-handler';
+
+// Enroll with { overrideRequisites: true } in the body: only with enrollments:override-requisites
+@Injectable()
+export class RequisiteOverridePolicy implements PolicyHandler {
+  constructor(private permissionsService: PermissionsService) {}
+
+  async handle(request: PolicyRequest): Promise<boolean> {
+    const body = request.body as { overrideRequisites?: unknown } | undefined;
+    if (!body?.overrideRequisites) {
+      return true;
+    }
+    return this.permissionsService.hasPermissions(request.user.role, [
+      Permission.ENROLLMENTS_OVERRIDE_REQUISITES,
+    ]);
+  }
+}
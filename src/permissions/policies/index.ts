@@ -0,0 +1,5 @@
+export * from './policy-handler';
+export * from './profile.policies';
+export * from './student.policies';
+export * from './course.policies';
+export * from './enrollment.policies';
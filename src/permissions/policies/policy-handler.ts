@@ -0,0 +1,21 @@
+import { Request } from 'express';
+import { JWTPayload } from 'src/auth/strategies/at.strategy';
+
+export interface PolicyRequest extends Request {
+  user: JWTPayload;
+}
+
+// A policy decides whether the caller may act on the resource addressed by the request
+export interface PolicyHandler {
+  handle(request: PolicyRequest): Promise<boolean>;
+}
+
+// Helper to read a numeric route parameter, e.g. ":id" or ":studentId"
+export function getIdParam(request: PolicyRequest, name: string): number {
+  return Number(request.params[name]);
+}
+
+// Helper to read the caller's profile id. API keys have none, so ownership rules never match them
+export function getCallerProfileId(request: PolicyRequest): number | null {
+  return request.user.apiKeyId ? null : request.user.sub;
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionsService } from '../permissions.service';
+import { OwnershipService } from '../ownership.service';
+import { Permission } from '../permission.enum';
+import {
+  getCallerProfileId,
+  getIdParam,
+  PolicyHandler,
+  PolicyRequest,
+} from './policy-handler';
+
+// Read a profile: your own, one of your students', or any with profiles:manage
+@Injectable()
+export class ReadProfilePolicy implements PolicyHandler {
+  constructor(
+    private permissionsService: PermissionsService,
+    private ownershipService: OwnershipService,
+  ) {}
+
+  async handle(request: PolicyRequest): Promise<boolean> {
+    const { role } = request.user;
+    const callerId = getCallerProfileId(request);
+    const profileId = getIdParam(request, 'id');
+    return (
+      callerId === profileId ||
+      (await this.permissionsService.hasPermissions(role, [
+        Permission.PROFILES_MANAGE,
+      ])) ||
+      (callerId !== null &&
+        (await this.ownershipService.teachesProfile(callerId, profileId)))
+    );
+  }
+}
+
+// Fields users may change on their own profile
+const SELF_SERVICE_PROFILE_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'password',
+];
+
+// Update a profile: your own (only the self-service fields), or any with profiles:manage
+@Injectable()
+export class UpdateProfilePolicy implements PolicyHandler {
+  constructor(private permissionsService: PermissionsService) {}
+
+  async handle(request: PolicyRequest): Promise<boolean> {
+    const { role } = request.user;
+    const callerId = getCallerProfileId(request);
+    if (
+      await this.permissionsService.hasPermissions(role, [
+        Permission.PROFILES_MANAGE,
+      ])
+    ) {
+      return true;
+    }
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    return (
+      callerId === getIdParam(request, 'id') &&
+      Object.keys(body).every((field) =>
+        SELF_SERVICE_PROFILE_FIELDS.includes(field),
+      )
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionsService } from '../permissions.service';
+import { OwnershipService } from '../ownership.service';
+import { Permission } from '../permission.enum';
+import {
+  getCallerProfileId,
+  getIdParam,
+  PolicyHandler,
+  PolicyRequest,
+} from './policy-handler';
+
+// Access a student record (":id"): your own, one enrolled in an offering you teach, or any with students:manage
+@Injectable()
+export class StudentAccessPolicy implements PolicyHandler {
+  constructor(
+    private permissionsService: PermissionsService,
+    private ownershipService: OwnershipService,
+  ) {}
+
+  async handle(request: PolicyRequest): Promise<boolean> {
+    const { role } = request.user;
+    const profileId = getCallerProfileId(request);
+    const studentId = getIdParam(request, 'id');
+    return (
+      (await this.permissionsService.hasPermissions(role, [
+        Permission.STUDENTS_MANAGE,
+      ])) ||
+      (profileId !== null &&
+        ((await this.ownershipService.ownsStudent(profileId, studentId)) ||
+          (await this.ownershipService.teachesStudent(profileId, studentId))))
+    );
+  }
+}
@@ -27,8 +27,9 @@ export class CreateProfileDto {
   email: string;
 
   @ApiProperty({
-    description: 'The password for the user account',
-    example: 'strongpassword123',
+    description:
+      'The password for the user account (must meet the password policy, see /auth/password-policy)',
+    example: 'Correct-Horse-Battery-7',
   })
   @IsString()
   @IsNotEmpty()
@@ -32,15 +32,31 @@ export class Profile {
   @Column()
   password: string;
 
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  passwordChangedAt: Date; // compared with PASSWORD_MAX_AGE at sign-in
+
   @Column({ type: 'enum', enum: Role, default: Role.GUEST })
   role: Role;
 
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  emailVerifiedAt: Date | null; // null until the user confirms their email address
+
+  // Two-factor authentication (TOTP). The secret is encrypted at rest and never selected by default
+  @Column({ type: 'text', nullable: true, default: null, select: false })
+  twoFactorSecret: string | null;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  twoFactorEnabledAt: Date | null;
+
+  @Column({ type: 'simple-json', nullable: true, select: false })
+  twoFactorBackupCodes: string[] | null; // sha256 hashes of unused backup codes
+
+  @Column({ type: 'int', nullable: true, default: null, select: false })
+  twoFactorLastUsedStep: number | null; // last accepted TOTP time step, to refuse replays
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt: Date;
 
-  @Column({ type: 'text', nullable: true, default: null })
-  hashedRefreshToken: string | null;
-
   @Column({
     type: 'timestamp',
     default: () => 'CURRENT_TIMESTAMP',
@@ -4,11 +4,12 @@ import { ProfilesController } from './profiles.controller';
 import { DatabaseModule } from 'src/database/database.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Profile } from './entities/profile.entity';
-import { RolesGuard } from 'src/auth/guards';
+import { PermissionsGuard } from 'src/auth/guards';
+import { AuthModule } from 'src/auth/auth.module';
 
 @Module({
-  imports: [DatabaseModule, TypeOrmModule.forFeature([Profile])],
+  imports: [DatabaseModule, TypeOrmModule.forFeature([Profile]), AuthModule],
   controllers: [ProfilesController],
-  providers: [ProfilesService, RolesGuard],
+  providers: [ProfilesService, PermissionsGuard],
 })
 export class ProfileModule {}
@@ -12,22 +12,31 @@ import {
 } from '@nestjs/common';
 import { ProfilesService } from './profiles.service';
 import { CreateProfileDto, UpdateProfileDto } from './dto';
-import { Public, Roles } from 'src/auth/decorators';
-import { AtGuard, RolesGuard } from 'src/auth/guards';
-import { Role } from './entities/profile.entity';
+import {
+  Public,
+  RequirePermissions,
+  CheckPolicies,
+  BlockWhileImpersonating,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard, PoliciesGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import {
+  ReadProfilePolicy,
+  UpdateProfilePolicy,
+} from 'src/permissions/policies';
 import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
 
 @ApiTags('profiles')
 @ApiBearerAuth()
 @Controller('profiles')
-@UseGuards(AtGuard, RolesGuard)
+@UseGuards(AtGuard, PermissionsGuard, PoliciesGuard)
 export class ProfilesController {
   constructor(private readonly profilesService: ProfilesService) {}
 
   @Public()
   @Post()
   create(@Body() createProfileDto: CreateProfileDto) {
-    return this.profilesService.create(createProfileDto);
+    return this.profilesService.register(createProfileDto);
   }
 
   @ApiQuery({
@@ -35,19 +44,22 @@ export class ProfilesController {
     required: false,
     description: 'Filter profiles by email',
   })
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.PROFILES_LIST)
   @Get()
   findAll(@Query('email') email?: string) {
     return this.profilesService.findAll(email);
   }
 
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  @RequirePermissions(Permission.PROFILES_READ)
+  @CheckPolicies(ReadProfilePolicy)
   @Get(':id')
   findOne(@Param('id', ParseIntPipe) id: number) {
     return this.profilesService.findOne(id);
   }
 
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  @RequirePermissions(Permission.PROFILES_UPDATE)
+  @CheckPolicies(UpdateProfilePolicy)
+  @BlockWhileImpersonating() // can change the email address and password
   @Patch(':id')
   update(
     @Param('id', ParseIntPipe) id: number,
@@ -56,7 +68,7 @@ export class ProfilesController {
     return this.profilesService.update(id, updateProfileDto);
   }
 
-  @Roles(Role.ADMIN)
+  @RequirePermissions(Permission.PROFILES_DELETE)
   @Delete(':id')
   remove(@Param('id', ParseIntPipe) id: number) {
     return this.profilesService.remove(id);
@@ -1,26 +1,33 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { CreateProfileDto } from './dto/create-profile.dto';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Profile } from './entities/profile.entity';
-import { Repository } from 'typeorm';
-import * as Bcrypt from 'bcrypt';
+import { Profile, Role } from './entities/profile.entity';
+import { Not, Repository } from 'typeorm';
+import { SessionsService } from 'src/auth/sessions.service';
+import { TokenDenylistService } from 'src/auth/token-denylist.service';
+import { EmailVerificationService } from 'src/auth/email-verification.service';
+import { PasswordPolicyService } from 'src/auth/password-policy.service';
 
 @Injectable()
 export class ProfilesService {
   constructor(
     @InjectRepository(Profile) private profileRepository: Repository<Profile>,
+    private sessionsService: SessionsService,
+    private tokenDenylistService: TokenDenylistService,
+    private emailVerificationService: EmailVerificationService,
+    private configService: ConfigService,
+    private passwordPolicyService: PasswordPolicyService,
   ) {}
 
-  // This method hashes the password using bcrypt
-  private async hashData(data: string): Promise<string> {
-    const salt = await Bcrypt.genSalt(10);
-    return await Bcrypt.hash(data, salt);
-  }
-
   // Helper method to remove password from profile
   private excludePassword(profile: Profile): Partial<Profile> {
-    const { password, hashedRefreshToken, ...rest } = profile;
+    const { password, ...rest } = profile;
     return rest;
   }
 
@@ -39,8 +46,12 @@ export class ProfilesService {
       firstName: createProfileDto.firstName,
       lastName: createProfileDto.lastName,
       email: createProfileDto.email,
-      password: await this.hashData(createProfileDto.password),
+      password: await this.passwordPolicyService.hashNewPassword(
+        createProfileDto.password,
+        createProfileDto,
+      ),
       role: createProfileDto.role || 'GUEST', // Default to GUEST if not provided
+      emailVerifiedAt: null, // Profiles start unverified until the emailed link is used
     };
     // Create a new Profile entity
     const savedProfile = await this.profileRepository
@@ -53,10 +64,32 @@ export class ProfilesService {
         throw new Error('Failed to create profile');
       });
 
+    await this.passwordPolicyService.remember(
+      savedProfile.id,
+      savedProfile.password,
+    );
+
+    // Email the verification link
+    await this.emailVerificationService.sendVerification(savedProfile);
+
     // Remove password from the returned profile
     return this.excludePassword(savedProfile);
   }
 
+  // Public self-registration: only ever creates GUEST profiles, or is turned off with PUBLIC_REGISTRATION=disabled.
+  // Elevated accounts are onboarded through invitations.
+  async register(
+    createProfileDto: CreateProfileDto,
+  ): Promise<Partial<Profile>> {
+    if (
+      this.configService.get<string>('PUBLIC_REGISTRATION', 'guest') ===
+      'disabled'
+    ) {
+      throw new ForbiddenException('Public registration is disabled');
+    }
+    return this.create({ ...createProfileDto, role: Role.GUEST });
+  }
+
   async findAll(email?: string): Promise<Partial<Profile>[]> {
     let profiles: Profile[];
     if (email) {
@@ -92,13 +125,50 @@ export class ProfilesService {
   ): Promise<Partial<Profile> | string> {
     // if the email is being updated, check if it already exists
     if (updateProfileDto.password) {
-      // Hash the new password if provided
-      updateProfileDto.password = await this.hashData(
-        updateProfileDto.password,
+      // Check the new password against the policy (with the names/email it will sit next to) and hash it
+      const current = await this.findOne(id);
+      updateProfileDto.password =
+        await this.passwordPolicyService.hashNewPassword(
+          updateProfileDto.password,
+          { ...current, ...updateProfileDto },
+          id,
+        );
+    }
+
+    const emailChanged =
+      !!updateProfileDto.email &&
+      (await this.profileRepository.existsBy({
+        id,
+        email: Not(updateProfileDto.email),
+      }));
+
+    // only the fields a caller may change are copied; verification, password and 2FA state stay server-managed
+    const { firstName, lastName, email, password, role } = updateProfileDto;
+    await this.profileRepository.update(id, {
+      firstName,
+      lastName,
+      email,
+      password,
+      role,
+      // a new email address has to be verified again
+      ...(emailChanged && { emailVerifiedAt: null }),
+      ...(password && { passwordChangedAt: new Date() }),
+    });
+
+    if (emailChanged) {
+      await this.emailVerificationService.sendVerification(
+        await this.findOne(id),
       );
     }
 
-    await this.profileRepository.update(id, updateProfileDto);
+    if (updateProfileDto.password) {
+      await this.passwordPolicyService.remember(id, updateProfileDto.password);
+      // a new password signs the user out of every session
+      await this.sessionsService.revokeAll(id);
+    } else if (updateProfileDto.role) {
+      // tokens issued before a role change carry the old role
+      await this.tokenDenylistService.denyAllForProfile(id);
+    }
 
     return await this.findOne(id);
   }
@@ -106,10 +176,12 @@ export class ProfilesService {
   async remove(id: number): Promise<string> {
     return await this.profileRepository
       .delete(id)
-      .then((result) => {
+      .then(async (result) => {
         if (result.affected === 0) {
           return `No profile found with id ${id}`;
         }
+        // access tokens of a deleted profile must stop working right away
+        await this.tokenDenylistService.denyAllForProfile(id);
         return `Profile with id ${id} has been removed`;
       })
       .catch((error) => {
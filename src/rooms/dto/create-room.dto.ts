@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsString, Min } from 'class-validator';
+
+export class CreateRoomDto {
+  @ApiProperty({
+    description: 'The name or number of the room in its building',
+    example: '101',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'The building the room is in',
+    example: 'Science Block',
+  })
+  @IsString()
+  @IsNotEmpty()
+  building: string;
+
+  @ApiProperty({
+    description: 'The number of seats in the room',
+    example: 40,
+  })
+  @IsInt()
+  @Min(1)
+  capacity: number;
+}
@@ -0,0 +1,2 @@
+export * from './create-room.dto';
+export * from './update-room.dto';
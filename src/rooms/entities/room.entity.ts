@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  OneToMany,
+  Index,
+  Relation,
+} from 'typeorm';
+import { MeetingTime } from '../../timetable/entities/meeting-time.entity';
+
+// A teaching room that meeting times are scheduled in
+@Entity()
+@Index(['building', 'name'], { unique: true })
+export class Room {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string; // e.g. "101" or "Lecture Hall 2"
+
+  @Column()
+  building: string;
+
+  @Column('int')
+  capacity: number; // seats
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @OneToMany(() => MeetingTime, (meetingTime) => meetingTime.room)
+  meetingTimes: Relation<MeetingTime[]>;
+}
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { RoomsService } from './rooms.service';
+import { CreateRoomDto, UpdateRoomDto } from './dto';
+import { RequirePermissions } from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+
+@ApiTags('rooms')
+@ApiBearerAuth()
+@Controller('rooms')
+@UseGuards(AtGuard, PermissionsGuard)
+export class RoomsController {
+  constructor(private readonly roomsService: RoomsService) {}
+
+  // http://localhost:8000/rooms
+  @RequirePermissions(Permission.ROOMS_CREATE)
+  @Post()
+  create(@Body() createRoomDto: CreateRoomDto) {
+    return this.roomsService.create(createRoomDto);
+  }
+
+  // http://localhost:8000/rooms?building=Science%20Block
+  @ApiQuery({ name: 'building', required: false })
+  @RequirePermissions(Permission.ROOMS_READ)
+  @Get()
+  findAll(@Query('building') building?: string) {
+    return this.roomsService.findAll(building);
+  }
+
+  // http://localhost:8000/rooms/1 (with the meeting times scheduled in it)
+  @RequirePermissions(Permission.ROOMS_READ)
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.roomsService.findOne(id);
+  }
+
+  // http://localhost:8000/rooms/1
+  @RequirePermissions(Permission.ROOMS_UPDATE)
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateRoomDto: UpdateRoomDto,
+  ) {
+    return this.roomsService.update(id, updateRoomDto);
+  }
+
+  // http://localhost:8000/rooms/1
+  @RequirePermissions(Permission.ROOMS_DELETE)
+  @Delete(':id')
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.roomsService.remove(id);
+  }
+}
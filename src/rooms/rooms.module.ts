@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Room } from './entities/room.entity';
+import { RoomsService } from './rooms.service';
+import { RoomsController } from './rooms.controller';
+import { PermissionsGuard } from 'src/auth/guards';
+
+@Module({
+  imports: [DatabaseModule, TypeOrmModule.forFeature([Room])],
+  controllers: [RoomsController],
+  providers: [RoomsService, PermissionsGuard],
+})
+export class RoomsModule {}
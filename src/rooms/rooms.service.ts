@@ -0,0 +1,93 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import { Room } from './entities/room.entity';
+import { CreateRoomDto, UpdateRoomDto } from './dto';
+
+@Injectable()
+export class RoomsService {
+  constructor(
+    @InjectRepository(Room) private roomRepository: Repository<Room>,
+  ) {}
+
+  // Helper method to refuse a second room with the same name in a building
+  private async assertUniqueName(
+    room: Pick<Room, 'building' | 'name'>,
+    exceptId?: number,
+  ) {
+    if (
+      await this.roomRepository.existsBy({
+        building: room.building,
+        name: room.name,
+        ...(exceptId && { id: Not(exceptId) }),
+      })
+    ) {
+      throw new ConflictException(
+        `Room ${room.name} already exists in ${room.building}`,
+      );
+    }
+  }
+
+  async create(createRoomDto: CreateRoomDto): Promise<Room> {
+    await this.assertUniqueName(createRoomDto);
+    return this.roomRepository.save(createRoomDto);
+  }
+
+  async findAll(building?: string): Promise<Room[]> {
+    return this.roomRepository.find({
+      where: building ? { building } : {},
+      order: { building: 'ASC', name: 'ASC' },
+    });
+  }
+
+  async findOne(id: number): Promise<Room> {
+    const room = await this.roomRepository.findOne({
+      where: { id },
+      relations: [
+        'meetingTimes',
+        'meetingTimes.offering',
+        'meetingTimes.offering.course',
+      ],
+      order: { meetingTimes: { dayOfWeek: 'ASC', startTime: 'ASC' } },
+    });
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${id} not found`);
+    }
+    return room;
+  }
+
+  async update(id: number, updateRoomDto: UpdateRoomDto): Promise<Room> {
+    const room = await this.findOne(id);
+    await this.assertUniqueName({ ...room, ...updateRoomDto }, id);
+
+    // the offerings scheduled in the room must still fit
+    const { capacity } = updateRoomDto;
+    if (capacity !== undefined) {
+      const tooLarge = room.meetingTimes.filter(({ offering }) => {
+        const seats = offering.capacity ?? offering.course.capacity;
+        return seats !== null && seats > capacity;
+      });
+      if (tooLarge.length) {
+        throw new BadRequestException(
+          `Room ${room.name} is scheduled for offerings with more than ${capacity} seats (${[...new Set(tooLarge.map(({ offeringId }) => offeringId))].join(', ')})`,
+        );
+      }
+    }
+    await this.roomRepository.update(id, updateRoomDto);
+    return this.findOne(id);
+  }
+
+  // Meeting times in the room stay scheduled without a room
+  async remove(id: number): Promise<string> {
+    const result = await this.roomRepository.delete(id);
+    if (result.affected === 0) {
+      throw new NotFoundException(`Room with ID ${id} not found`);
+    }
+    return `Room with id ${id} has been removed`;
+  }
+}
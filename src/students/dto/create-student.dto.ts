@@ -1,12 +1,11 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiHideProperty, ApiProperty } from '@nestjs/swagger';
 import {
   IsString,
   IsDateString,
   IsOptional,
   IsInt,
   IsNumber,
-  Min,
-  Max,
+  IsEmpty,
 } from 'class-validator';
 
 export class CreateStudentDto {
@@ -28,18 +27,10 @@ export class CreateStudentDto {
   @IsOptional()
   degreeProgram?: string;
 
-  @ApiProperty({
-    description: 'The GPA of the student (0.0 to 4.0)',
-    example: 3.75,
-    minimum: 0,
-    maximum: 4.0,
-    required: false,
-  })
-  @IsNumber()
-  @Min(0)
-  @Max(4.0)
-  @IsOptional()
-  gpa?: number;
+  // The GPA is computed from the finalized grades (see GradesService), it cannot be set
+  @ApiHideProperty()
+  @IsEmpty({ message: 'gpa is computed from the grades and cannot be set' })
+  gpa?: never;
 
   @ApiProperty({
     description: 'The ID of the department the student belongs to',
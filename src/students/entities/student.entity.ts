@@ -3,13 +3,12 @@ import {
   PrimaryGeneratedColumn,
   Column,
   OneToOne,
-  ManyToMany,
-  JoinTable,
+  OneToMany,
   JoinColumn,
   Relation,
 } from 'typeorm';
 import { Profile } from '../../profiles/entities/profile.entity';
-import { Course } from '../../courses/entities/course.entity';
+import { Enrollment } from '../../enrollments/entities/enrollment.entity';
 
 @Entity()
 export class Student {
@@ -22,8 +21,9 @@ export class Student {
   @Column({ nullable: true })
   degreeProgram: string;
 
+  // Cumulative GPA of the finalized grades, kept up to date by GradesService (read-only in the API)
   @Column({ type: 'decimal', precision: 3, scale: 2, nullable: true })
-  gpa: number;
+  gpa: number | null;
 
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt: Date;
@@ -42,7 +42,7 @@ export class Student {
   @JoinColumn()
   profile: Relation<Profile>;
 
-  @ManyToMany(() => Course, (course) => course.students)
-  @JoinTable() // will create student_course_course_student join table for the many-to-many relationship
-  courses: Relation<Course[]>;
+  // The student's enrollments in course offerings (a course in a term), with their status
+  @OneToMany(() => Enrollment, (enrollment) => enrollment.student)
+  enrollments: Relation<Enrollment[]>;
 }
@@ -8,31 +8,50 @@ import {
   Delete,
   ParseIntPipe,
   Query,
+  StreamableFile,
   UseGuards,
 } from '@nestjs/common';
 import { StudentsService } from './students.service';
+import { TranscriptsService } from 'src/transcripts/transcripts.service';
+import { TimetableService } from 'src/timetable/timetable.service';
+import { TimetableQueryDto } from 'src/timetable/dto';
+import { NoCache } from 'src/http-cache.interceptor';
 import { CreateStudentDto, UpdateStudentDto } from './dto';
-import { Roles } from 'src/auth/decorators';
-import { AtGuard, RolesGuard } from 'src/auth/guards';
-import { Role } from 'src/profiles/entities/profile.entity';
+import {
+  RequirePermissions,
+  CheckPolicies,
+  GetCurrentUserId,
+} from 'src/auth/decorators';
+import { AtGuard, PermissionsGuard, PoliciesGuard } from 'src/auth/guards';
+import { Permission } from 'src/permissions/permission.enum';
+import {
+  StudentAccessPolicy,
+  TaughtCoursePolicy,
+  RequisiteOverridePolicy,
+} from 'src/permissions/policies';
 import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { EnrollmentChangeDto } from 'src/enrollments/dto';
 
 @ApiTags('students')
 @ApiBearerAuth()
 @Controller('students')
-@UseGuards(AtGuard, RolesGuard)
+@UseGuards(AtGuard, PermissionsGuard, PoliciesGuard)
 export class StudentsController {
-  constructor(private readonly studentsService: StudentsService) {}
+  constructor(
+    private readonly studentsService: StudentsService,
+    private readonly transcriptsService: TranscriptsService,
+    private readonly timetableService: TimetableService,
+  ) {}
 
   // http://localhost:8000/students
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.STUDENTS_CREATE)
   @Post()
   create(@Body() createStudentDto: CreateStudentDto) {
     return this.studentsService.create(createStudentDto);
   }
 
   // http://localhost:8000/students?name=John
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.STUDENTS_LIST)
   @Get()
   @ApiQuery({
     name: 'name',
@@ -44,14 +63,16 @@ export class StudentsController {
   }
 
   // http://localhost:8000/students/1
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  @RequirePermissions(Permission.STUDENTS_READ)
+  @CheckPolicies(StudentAccessPolicy)
   @Get(':id')
   findOne(@Param('id', ParseIntPipe) id: number) {
     return this.studentsService.findOne(id);
   }
 
   // http://localhost:8000/students/1
-  @Roles(Role.ADMIN, Role.FACULTY)
+  @RequirePermissions(Permission.STUDENTS_UPDATE)
+  @CheckPolicies(StudentAccessPolicy)
   @Patch(':id')
   update(
     @Param('id', ParseIntPipe)
@@ -62,46 +83,105 @@ export class StudentsController {
   }
 
   // http://localhost:8000/students/1
-  @Roles(Role.ADMIN)
+  @RequirePermissions(Permission.STUDENTS_DELETE)
   @Delete(':id')
   remove(@Param('id', ParseIntPipe) id: number) {
     return this.studentsService.remove(id);
   }
 
-  // http://localhost:8000/students/1/courses
-  @Roles(Role.ADMIN, Role.FACULTY, Role.STUDENT)
+  // http://localhost:8000/students/1/transcript
+  @RequirePermissions(Permission.STUDENTS_READ)
+  @CheckPolicies(StudentAccessPolicy)
+  @NoCache()
+  @Get(':id/transcript')
+  getTranscript(@Param('id', ParseIntPipe) id: number) {
+    return this.transcriptsService.getTranscript(id);
+  }
+
+  // http://localhost:8000/students/1/transcript/pdf (issues a copy with a verification code)
+  @RequirePermissions(Permission.STUDENTS_READ)
+  @CheckPolicies(StudentAccessPolicy)
+  @NoCache()
+  @Get(':id/transcript/pdf')
+  async getTranscriptPdf(
+    @GetCurrentUserId() userId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const { code, pdf } = await this.transcriptsService.issuePdf(id, userId);
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="transcript-${id}-${code}.pdf"`,
+    });
+  }
+
+  // http://localhost:8000/students/1/timetable?date=2025-09-10 (the week of the date, defaults to this week)
+  @RequirePermissions(Permission.STUDENTS_READ)
+  @CheckPolicies(StudentAccessPolicy)
+  @NoCache()
+  @Get(':id/timetable')
+  getTimetable(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() timetableQueryDto: TimetableQueryDto,
+  ) {
+    return this.timetableService.getStudentTimetable(
+      id,
+      timetableQueryDto.date,
+    );
+  }
+
+  // http://localhost:8000/students/1/courses (every enrollment with its status history and waitlist position)
+  @RequirePermissions(Permission.STUDENTS_READ)
+  @CheckPolicies(StudentAccessPolicy)
+  @NoCache()
   @Get(':id/courses')
   getStudentCourses(@Param('id', ParseIntPipe) id: number) {
     return this.studentsService.getStudentCourses(id);
   }
 
-  // http://localhost:8000/students/1/courses/2
-  @Roles(Role.ADMIN, Role.FACULTY)
+  // http://localhost:8000/students/1/courses/2 (waitlists the student when the course is full)
+  @RequirePermissions(Permission.STUDENTS_ENROLL)
+  @CheckPolicies(TaughtCoursePolicy, RequisiteOverridePolicy)
   @Post(':studentId/courses/:courseId')
   enrollStudentInCourse(
+    @GetCurrentUserId() actorId: number,
     @Param('studentId', ParseIntPipe) studentId: number,
     @Param('courseId', ParseIntPipe) courseId: number,
+    @Body() enrollmentChangeDto: EnrollmentChangeDto,
   ) {
-    return this.studentsService.enrollStudentInCourse(studentId, courseId);
+    return this.studentsService.enrollStudentInCourse(studentId, courseId, {
+      actorId,
+      reason: enrollmentChangeDto.reason,
+      overrideRequisites: enrollmentChangeDto.overrideRequisites,
+    });
   }
 
-  // http://localhost:8000/students/1/courses/2
-  @Roles(Role.ADMIN, Role.FACULTY)
+  // http://localhost:8000/students/1/courses/2 (drops, or withdraws after the add/drop deadline)
+  @RequirePermissions(Permission.STUDENTS_ENROLL)
+  @CheckPolicies(TaughtCoursePolicy)
   @Delete(':studentId/courses/:courseId')
   unenrollStudentFromCourse(
+    @GetCurrentUserId() actorId: number,
     @Param('studentId', ParseIntPipe) studentId: number,
     @Param('courseId', ParseIntPipe) courseId: number,
+    @Body() enrollmentChangeDto: EnrollmentChangeDto,
   ) {
-    return this.studentsService.unenrollStudentFromCourse(studentId, courseId);
+    return this.studentsService.unenrollStudentFromCourse(studentId, courseId, {
+      actorId,
+      reason: enrollmentChangeDto.reason,
+    });
   }
 
   // http://localhost:8000/students/1/courses
-  @Roles(Role.ADMIN, Role.FACULTY)
+  // Replaces enrollments in courses the caller may not teach, so it needs students:manage
+  @RequirePermissions(Permission.STUDENTS_ENROLL, Permission.STUDENTS_MANAGE)
   @Patch(':id/courses')
   updateStudentCourses(
+    @GetCurrentUserId() actorId: number,
     @Param('id', ParseIntPipe) id: number,
     @Body() courseIds: number[],
   ) {
-    return this.studentsService.updateStudentCourses(id, courseIds);
+    return this.studentsService.updateStudentCourses(id, courseIds, {
+      actorId,
+    });
   }
 }
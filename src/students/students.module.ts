@@ -5,12 +5,19 @@ import { DatabaseModule } from 'src/database/database.module';
 import { Student } from './entities/student.entity';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Profile } from 'src/profiles/entities/profile.entity';
-import { Course } from '../courses/entities/course.entity';
+import { CourseOfferingsModule } from 'src/course-offerings/course-offerings.module';
+import { EnrollmentsModule } from 'src/enrollments/enrollments.module';
+import { TranscriptsModule } from 'src/transcripts/transcripts.module';
+import { TimetableModule } from 'src/timetable/timetable.module';
 
 @Module({
   imports: [
     DatabaseModule,
-    TypeOrmModule.forFeature([Student, Profile, Course]),
+    TypeOrmModule.forFeature([Student, Profile]),
+    CourseOfferingsModule,
+    EnrollmentsModule,
+    TranscriptsModule,
+    TimetableModule,
   ],
   controllers: [StudentsController],
   providers: [StudentsService],
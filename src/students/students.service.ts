@@ -2,16 +2,24 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { CreateStudentDto, UpdateStudentDto } from './dto';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Student } from './entities/student.entity';
-import { Repository, In } from 'typeorm';
+import { Repository } from 'typeorm';
 import { Profile } from 'src/profiles/entities/profile.entity';
-import { Course } from 'src/courses/entities/course.entity';
+import { TermStatus } from 'src/academic-terms/entities/academic-term.entity';
+import { CourseOfferingsService } from 'src/course-offerings/course-offerings.service';
+import { Enrollment } from 'src/enrollments/entities/enrollment.entity';
+import {
+  ACTIVE_ENROLLMENT_STATUSES,
+  EnrollmentChange,
+  EnrollmentsService,
+} from 'src/enrollments/enrollments.service';
 
 @Injectable()
 export class StudentsService {
   constructor(
     @InjectRepository(Student) private studentRepository: Repository<Student>,
     @InjectRepository(Profile) private profileRepository: Repository<Profile>,
-    @InjectRepository(Course) private courseRepository: Repository<Course>,
+    private courseOfferingsService: CourseOfferingsService,
+    private enrollmentsService: EnrollmentsService,
   ) {}
 
   async create(createStudentDto: CreateStudentDto): Promise<Student> {
@@ -29,7 +37,6 @@ export class StudentsService {
     const newStudent = this.studentRepository.create({
       enrollmentDate: createStudentDto.enrollmentDate,
       degreeProgram: createStudentDto.degreeProgram,
-      gpa: createStudentDto.gpa,
       profile: existingProfile,
     });
 
@@ -44,11 +51,23 @@ export class StudentsService {
             firstName: name,
           },
         },
-        relations: ['profile', 'courses'], // Added courses relation
+        relations: [
+          'profile',
+          'enrollments',
+          'enrollments.offering',
+          'enrollments.offering.course',
+          'enrollments.offering.term',
+        ], // the student's enrollments (any status) with their course offerings
       });
     }
     return await this.studentRepository.find({
-      relations: ['profile', 'courses'], // Added courses relation
+      relations: [
+        'profile',
+        'enrollments',
+        'enrollments.offering',
+        'enrollments.offering.course',
+        'enrollments.offering.term',
+      ], // the student's enrollments (any status) with their course offerings
     });
   }
 
@@ -56,7 +75,13 @@ export class StudentsService {
     return await this.studentRepository
       .findOne({
         where: { id },
-        relations: ['profile', 'courses'], // Added courses relation
+        relations: [
+          'profile',
+          'enrollments',
+          'enrollments.offering',
+          'enrollments.offering.course',
+          'enrollments.offering.term',
+        ], // the student's enrollments (any status) with their course offerings
       })
       .then((student) => {
         if (!student) {
@@ -99,118 +124,102 @@ export class StudentsService {
       });
   }
 
-  async enrollStudentInCourse(
-    studentId: number,
-    courseId: number,
-  ): Promise<Student> {
-    // Find the student with courses relation
+  // Helper method to load a student with their enrollments
+  private async findWithEnrollments(studentId: number): Promise<Student> {
     const student = await this.studentRepository.findOne({
       where: { id: studentId },
-      relations: ['courses'],
+      relations: [
+        'enrollments',
+        'enrollments.offering',
+        'enrollments.offering.course',
+        'enrollments.offering.term',
+      ],
     });
-
     if (!student) {
       throw new NotFoundException(`Student with ID ${studentId} not found`);
     }
-
-    // Find the course
-    const course = await this.courseRepository.findOneBy({ id: courseId });
-    if (!course) {
-      throw new NotFoundException(`Course with ID ${courseId} not found`);
-    }
-
-    // Initialize courses array if it doesn't exist
-    if (!student.courses) {
-      student.courses = [];
-    }
-
-    // Check if already enrolled
-    const isAlreadyEnrolled = student.courses.some(
-      (enrolledCourse) => enrolledCourse.id === courseId,
-    );
-
-    if (!isAlreadyEnrolled) {
-      student.courses.push(course);
-      await this.studentRepository.save(student);
-    }
-
     return student;
   }
 
-  async unenrollStudentFromCourse(
+  // Enrolls the student in the course's offering that is open for enrollment
+  async enrollStudentInCourse(
     studentId: number,
     courseId: number,
+    change: EnrollmentChange,
   ): Promise<Student> {
-    // Find the student with courses relation
-    const student = await this.studentRepository.findOne({
-      where: { id: studentId },
-      relations: ['courses'],
-    });
-
-    if (!student) {
-      throw new NotFoundException(`Student with ID ${studentId} not found`);
-    }
-
-    // Check if the student is enrolled in the course
-    if (!student.courses || student.courses.length === 0) {
-      throw new NotFoundException(
-        `Student with ID ${studentId} is not enrolled in any courses`,
-      );
-    }
+    const offering =
+      await this.courseOfferingsService.findOpenOffering(courseId);
+    await this.enrollmentsService.enroll(offering.id, studentId, change);
+    return this.findWithEnrollments(studentId);
+  }
 
-    // Filter out the course to unenroll from
-    student.courses = student.courses.filter(
-      (course) => course.id !== courseId,
+  // Drops (or withdraws) the student from the course's open offering they are enrolled in
+  async unenrollStudentFromCourse(
+    studentId: number,
+    courseId: number,
+    change: EnrollmentChange,
+  ): Promise<Student> {
+    const enrollment = await this.enrollmentsService.findCurrentEnrollment(
+      courseId,
+      studentId,
     );
-
-    // Save the updated student
-    return this.studentRepository.save(student);
+    await this.enrollmentsService.unenroll(
+      enrollment.offeringId,
+      studentId,
+      change,
+    );
+    return this.findWithEnrollments(studentId);
   }
 
-  async getStudentCourses(studentId: number): Promise<Course[]> {
-    const student = await this.studentRepository.findOne({
-      where: { id: studentId },
-      relations: ['courses'],
+  // Every enrollment of the student (including dropped ones) with its course, term and status history
+  async getStudentCourses(studentId: number): Promise<Enrollment[]> {
+    const studentExists = await this.studentRepository.existsBy({
+      id: studentId,
     });
-
-    if (!student) {
+    if (!studentExists) {
       throw new NotFoundException(`Student with ID ${studentId} not found`);
     }
-
-    return student.courses || [];
+    return this.enrollmentsService.findStudentEnrollments(studentId);
   }
 
+  // Replaces the student's active enrollments in open terms with the open offerings of the given courses.
+  // Enrollments in other terms are history and stay untouched
   async updateStudentCourses(
     studentId: number,
     courseIds: number[],
+    change: EnrollmentChange,
   ): Promise<Student> {
-    // Find the student with courses relation
-    const student = await this.studentRepository.findOne({
-      where: { id: studentId },
-      relations: ['courses'],
-    });
+    const student = await this.findWithEnrollments(studentId);
 
-    if (!student) {
-      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    const targetOfferings = await Promise.all(
+      courseIds.map((courseId) =>
+        this.courseOfferingsService.findOpenOffering(courseId),
+      ),
+    );
+    const targetIds = targetOfferings.map((offering) => offering.id);
+    const currentIds = student.enrollments
+      .filter(
+        (enrollment) =>
+          enrollment.offering.term.status === TermStatus.OPEN &&
+          ACTIVE_ENROLLMENT_STATUSES.includes(enrollment.status),
+      )
+      .map((enrollment) => enrollment.offeringId);
+
+    for (const offeringId of currentIds) {
+      if (!targetIds.includes(offeringId)) {
+        await this.enrollmentsService.unenroll(offeringId, studentId, change);
+      }
     }
-
-    // Find all courses by IDs
-    const courses = await this.courseRepository.findBy({
-      id: In(courseIds),
-    });
-
-    if (courses.length !== courseIds.length) {
-      const foundIds = courses.map((course) => course.id);
-      const missingIds = courseIds.filter((id) => !foundIds.includes(id));
-      throw new NotFoundException(
-        `Courses with IDs ${missingIds.join(', ')} not found`,
-      );
+    // the courses are enrolled in together, so they meet each other's corequisites
+    for (const offeringId of targetIds) {
+      if (!currentIds.includes(offeringId)) {
+        await this.enrollmentsService.enroll(offeringId, studentId, {
+          ...change,
+          concurrentCourseIds: courseIds,
+        });
+      }
     }
 
-    // Replace student's courses with the new selection
-    student.courses = courses;
-
-    // Save the updated student
-    return this.studentRepository.save(student);
+    return this.findWithEnrollments(studentId);
   }
 }
@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateMeetingTimeDto {
+  @ApiProperty({
+    description: 'The day of the week (1 = Monday ... 7 = Sunday)',
+    example: 1,
+    minimum: 1,
+    maximum: 7,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  dayOfWeek: number;
+
+  @ApiProperty({
+    description: 'The start time (HH:MM, 24-hour clock)',
+    example: '09:00',
+  })
+  @Matches(TIME_PATTERN, { message: 'startTime must be a time as HH:MM' })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'The end time (HH:MM, 24-hour clock)',
+    example: '10:30',
+  })
+  @Matches(TIME_PATTERN, { message: 'endTime must be a time as HH:MM' })
+  endTime: string;
+
+  @ApiProperty({
+    description: 'Meet every n weeks (1 = every week, 2 = every other week)',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  weekInterval?: number;
+
+  @ApiProperty({
+    description:
+      'The first day of the pattern, when it starts after the offering starts',
+    example: '2025-09-08',
+    type: String,
+    format: 'date',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiProperty({
+    description:
+      'The last day of the pattern, when it ends before the offering ends',
+    example: '2025-12-12',
+    type: String,
+    format: 'date',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'The ID of the room, null while no room is booked',
+    example: 1,
+    type: Number,
+    nullable: true,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  roomId?: number | null;
+}
@@ -0,0 +1,3 @@
+export * from './create-meeting-time.dto';
+export * from './update-meeting-time.dto';
+export * from './timetable-query.dto';
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class TimetableQueryDto {
+  @ApiProperty({
+    description: 'Any day of the week to show, defaults to today',
+    example: '2025-09-10',
+    type: String,
+    format: 'date',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateMeetingTimeDto } from './create-meeting-time.dto';
+
+export class UpdateMeetingTimeDto extends PartialType(CreateMeetingTimeDto) {}
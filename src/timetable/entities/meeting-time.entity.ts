@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Relation,
+} from 'typeorm';
+import { CourseOffering } from '../../course-offerings/entities/course-offering.entity';
+import { Room } from '../../rooms/entities/room.entity';
+
+// A weekly (or every few weeks) class meeting of a course offering
+@Entity()
+export class MeetingTime {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('int')
+  dayOfWeek: number; // 1 = Monday ... 7 = Sunday
+
+  @Column('time')
+  startTime: string;
+
+  @Column('time')
+  endTime: string;
+
+  @Column({ type: 'int', default: 1 })
+  weekInterval: number; // 1 = every week, 2 = every other week, ...
+
+  // Dates the pattern runs between when it does not span the whole offering (the recurrence counts from startDate)
+  @Column('date', { nullable: true })
+  startDate: string | null;
+
+  @Column('date', { nullable: true })
+  endDate: string | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt: Date;
+
+  @Column({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+    onUpdate: 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  @Column()
+  offeringId: number;
+
+  @ManyToOne(() => CourseOffering, (offering) => offering.meetingTimes, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'offeringId' })
+  offering: Relation<CourseOffering>;
+
+  @Column({ type: 'int', nullable: true })
+  roomId: number | null;
+
+  @ManyToOne(() => Room, (room) => room.meetingTimes, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'roomId' })
+  room: Relation<Room> | null;
+}
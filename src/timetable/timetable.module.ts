@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { MeetingTime } from './entities/meeting-time.entity';
+import { TimetableService } from './timetable.service';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { Room } from 'src/rooms/entities/room.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([
+      MeetingTime,
+      CourseOffering,
+      Room,
+      Student,
+      Lecturer,
+    ]),
+  ],
+  providers: [TimetableService],
+  exports: [TimetableService], // used by the offering, enrollment, student and lecturer endpoints
+})
+export class TimetableModule {}
@@ -0,0 +1,433 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, In, Not, Repository } from 'typeorm';
+import { MeetingTime } from './entities/meeting-time.entity';
+import { CreateMeetingTimeDto, UpdateMeetingTimeDto } from './dto';
+import {
+  addDays,
+  findClashDate,
+  isoDayOfWeek,
+  listMeetingDates,
+  MeetingPattern,
+  toMinutes,
+  weekOf,
+} from './utils/meeting-dates.util';
+import { CourseOffering } from 'src/course-offerings/entities/course-offering.entity';
+import { Room } from 'src/rooms/entities/room.entity';
+import { Student } from 'src/students/entities/student.entity';
+import { Lecturer } from 'src/lecturer/entities/lecturer.entity';
+import { EnrollmentStatus } from 'src/enrollments/entities/enrollment.entity';
+
+export type ClashType = 'room' | 'lecturer' | 'student';
+
+// A meeting time that another meeting time would overlap with
+export type TimetableClash = {
+  type: ClashType;
+  meetingTimeId: number;
+  offeringId: number;
+  course: string;
+  date: string; // the first date both meet
+  startTime: string;
+  endTime: string;
+};
+
+export type TimetableSession = {
+  meetingTimeId: number;
+  startTime: string;
+  endTime: string;
+  offeringId: number;
+  section: string;
+  course: { id: number; title: string };
+  room: { id: number; name: string; building: string } | null;
+};
+
+export type WeeklyTimetable = {
+  weekStart: string;
+  weekEnd: string;
+  days: { date: string; dayOfWeek: number; sessions: TimetableSession[] }[];
+};
+
+// Relations needed to resolve a meeting time's dates and describe it
+const MEETING_RELATIONS = [
+  'offering',
+  'offering.course',
+  'offering.term',
+  'room',
+];
+
+/*
+- Purpose: Schedules course offerings into rooms and builds weekly timetables
+- How it works: A MeetingTime is a recurring slot of an offering (day of the week, start/end time, every n weeks)
+  running between its own dates or, by default, the offering's (or term's) dates. Two meeting times clash when they
+  share a date at overlapping times, which is checked on the actual dates so e.g. alternating fortnightly slots
+  do not clash. Scheduling refuses a room that is double-booked or too small and a lecturer of the offering
+  teaching elsewhere at the same time; enrolling refuses a student whose active enrollments (enrolled or
+  waitlisted) meet at the same time. Clashes are returned in a 409 response.
+*/
+@Injectable()
+export class TimetableService {
+  constructor(
+    @InjectRepository(MeetingTime)
+    private meetingRepository: Repository<MeetingTime>,
+    @InjectRepository(CourseOffering)
+    private offeringRepository: Repository<CourseOffering>,
+    @InjectRepository(Room) private roomRepository: Repository<Room>,
+    @InjectRepository(Student) private studentRepository: Repository<Student>,
+    @InjectRepository(Lecturer)
+    private lecturerRepository: Repository<Lecturer>,
+  ) {}
+
+  // Helper method to load an offering with what scheduling checks need
+  private async findOffering(offeringId: number): Promise<CourseOffering> {
+    const offering = await this.offeringRepository.findOne({
+      where: { id: offeringId },
+      relations: ['course', 'term', 'lecturers'],
+    });
+    if (!offering) {
+      throw new NotFoundException(
+        `Course offering with ID ${offeringId} not found`,
+      );
+    }
+    return offering;
+  }
+
+  // Helper method to resolve the dates of a meeting time (loaded with its offering and term)
+  private toPattern(meeting: MeetingTime): MeetingPattern {
+    const { offering } = meeting;
+    return {
+      dayOfWeek: meeting.dayOfWeek,
+      startTime: meeting.startTime,
+      endTime: meeting.endTime,
+      weekInterval: meeting.weekInterval,
+      firstDate:
+        meeting.startDate ?? offering.startDate ?? offering.term.startDate,
+      lastDate: meeting.endDate ?? offering.endDate ?? offering.term.endDate,
+    };
+  }
+
+  // Helper method to list the meeting times among others that clash with any of the given ones
+  private findClashes(
+    type: ClashType,
+    meetings: MeetingTime[],
+    others: MeetingTime[],
+  ): TimetableClash[] {
+    return others.flatMap((other) => {
+      const date = meetings
+        .map((meeting) =>
+          findClashDate(this.toPattern(meeting), this.toPattern(other)),
+        )
+        .find((clashDate) => clashDate !== null);
+      return date
+        ? [
+            {
+              type,
+              meetingTimeId: other.id,
+              offeringId: other.offeringId,
+              course: other.offering.course.title,
+              date,
+              startTime: other.startTime,
+              endTime: other.endTime,
+            },
+          ]
+        : [];
+    });
+  }
+
+  // Helper method to refuse a change that causes clashes
+  private assertNoClashes(clashes: TimetableClash[]) {
+    if (clashes.length) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: `The timetable clashes (${[...new Set(clashes.map(({ type }) => type))].join(', ')})`,
+        clashes,
+      });
+    }
+  }
+
+  // Helper method to check a meeting time fits its offering and its room
+  private async assertValidMeeting(
+    offering: CourseOffering,
+    meeting: MeetingTime,
+  ) {
+    if (toMinutes(meeting.endTime) <= toMinutes(meeting.startTime)) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+    const { firstDate, lastDate } = this.toPattern(meeting);
+    const offeringStart = offering.startDate ?? offering.term.startDate;
+    const offeringEnd = offering.endDate ?? offering.term.endDate;
+    if (firstDate < offeringStart || lastDate > offeringEnd) {
+      throw new BadRequestException(
+        `Meeting dates must lie within the offering (${offeringStart} - ${offeringEnd})`,
+      );
+    }
+    if (listMeetingDates(this.toPattern(meeting)).length === 0) {
+      throw new BadRequestException(
+        `The meeting time has no day ${meeting.dayOfWeek} between ${firstDate} and ${lastDate}`,
+      );
+    }
+
+    if (meeting.roomId === null) {
+      return;
+    }
+    const room = await this.roomRepository.findOneBy({ id: meeting.roomId });
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${meeting.roomId} not found`);
+    }
+    const seats = offering.capacity ?? offering.course.capacity;
+    if (seats !== null && seats > room.capacity) {
+      throw new BadRequestException(
+        `Room ${room.name} (${room.building}) has ${room.capacity} seats, the offering has ${seats}`,
+      );
+    }
+  }
+
+  // Helper method to check a meeting time against the room's other bookings and the lecturers' other classes
+  private async assertNoSchedulingClashes(
+    offering: CourseOffering,
+    meeting: MeetingTime,
+  ) {
+    const exceptSelf = meeting.id ? { id: Not(meeting.id) } : {};
+    const roomBookings =
+      meeting.roomId === null
+        ? []
+        : await this.meetingRepository.find({
+            where: { roomId: meeting.roomId, ...exceptSelf },
+            relations: MEETING_RELATIONS,
+          });
+    const lecturerIds = offering.lecturers.map((lecturer) => lecturer.id);
+    const lecturerClasses = lecturerIds.length
+      ? await this.meetingRepository.find({
+          where: {
+            offering: { lecturers: { id: In(lecturerIds) } },
+            ...exceptSelf,
+          },
+          relations: MEETING_RELATIONS,
+        })
+      : [];
+    this.assertNoClashes([
+      ...this.findClashes('room', [meeting], roomBookings),
+      ...this.findClashes('lecturer', [meeting], lecturerClasses),
+    ]);
+  }
+
+  // Helper method to save a new or changed meeting time after the checks
+  private async saveMeeting(
+    offering: CourseOffering,
+    meeting: MeetingTime,
+  ): Promise<MeetingTime> {
+    meeting.offering = offering;
+    await this.assertValidMeeting(offering, meeting);
+    await this.assertNoSchedulingClashes(offering, meeting);
+    const { id } = await this.meetingRepository.save(meeting);
+    return this.meetingRepository.findOneOrFail({
+      where: { id },
+      relations: ['room'],
+    });
+  }
+
+  async getMeetings(offeringId: number): Promise<MeetingTime[]> {
+    await this.findOffering(offeringId);
+    return this.meetingRepository.find({
+      where: { offeringId },
+      relations: ['room'],
+      order: { dayOfWeek: 'ASC', startTime: 'ASC' },
+    });
+  }
+
+  async addMeeting(
+    offeringId: number,
+    createMeetingTimeDto: CreateMeetingTimeDto,
+  ): Promise<MeetingTime> {
+    const offering = await this.findOffering(offeringId);
+    return this.saveMeeting(
+      offering,
+      this.meetingRepository.create({
+        ...createMeetingTimeDto,
+        weekInterval: createMeetingTimeDto.weekInterval ?? 1,
+        startDate: createMeetingTimeDto.startDate ?? null,
+        endDate: createMeetingTimeDto.endDate ?? null,
+        roomId: createMeetingTimeDto.roomId ?? null,
+        offeringId,
+      }),
+    );
+  }
+
+  async updateMeeting(
+    offeringId: number,
+    meetingId: number,
+    updateMeetingTimeDto: UpdateMeetingTimeDto,
+  ): Promise<MeetingTime> {
+    const offering = await this.findOffering(offeringId);
+    const meeting = await this.meetingRepository.findOneBy({
+      id: meetingId,
+      offeringId,
+    });
+    if (!meeting) {
+      throw new NotFoundException(
+        `Meeting time with ID ${meetingId} not found in course offering ${offeringId}`,
+      );
+    }
+    // the room relation is not loaded, so saving follows roomId
+    return this.saveMeeting(
+      offering,
+      this.meetingRepository.merge(meeting, updateMeetingTimeDto),
+    );
+  }
+
+  async removeMeeting(offeringId: number, meetingId: number): Promise<string> {
+    const result = await this.meetingRepository.delete({
+      id: meetingId,
+      offeringId,
+    });
+    if (result.affected === 0) {
+      throw new NotFoundException(
+        `Meeting time with ID ${meetingId} not found in course offering ${offeringId}`,
+      );
+    }
+    return `Meeting time with id ${meetingId} has been removed`;
+  }
+
+  // Refuse lecturers for an offering when they teach another class at one of its meeting times
+  async assertNoLecturerClashes(offeringId: number, lecturerIds: number[]) {
+    const meetings = await this.meetingRepository.find({
+      where: { offeringId },
+      relations: MEETING_RELATIONS,
+    });
+    if (meetings.length === 0 || lecturerIds.length === 0) {
+      return;
+    }
+    const lecturerClasses = await this.meetingRepository.find({
+      where: {
+        offering: { lecturers: { id: In(lecturerIds) } },
+        offeringId: Not(offeringId),
+      },
+      relations: MEETING_RELATIONS,
+    });
+    this.assertNoClashes(
+      this.findClashes('lecturer', meetings, lecturerClasses),
+    );
+  }
+
+  // Refuse a student's enrollment in an offering that meets at the same time as their other active enrollments.
+  // Takes the manager of the enrollment transaction
+  async assertNoStudentClashes(
+    manager: EntityManager,
+    offeringId: number,
+    studentId: number,
+  ) {
+    const meetings = await manager.find(MeetingTime, {
+      where: { offeringId },
+      relations: MEETING_RELATIONS,
+    });
+    if (meetings.length === 0) {
+      return;
+    }
+    const classes = await manager.find(MeetingTime, {
+      where: {
+        offering: {
+          enrollments: {
+            studentId,
+            // waitlisted students can be promoted without another check
+            status: In([
+              EnrollmentStatus.ENROLLED,
+              EnrollmentStatus.WAITLISTED,
+            ]),
+          },
+        },
+        offeringId: Not(offeringId),
+      },
+      relations: MEETING_RELATIONS,
+    });
+    this.assertNoClashes(this.findClashes('student', meetings, classes));
+  }
+
+  // Helper method to lay out the meeting times falling in the week of a date
+  private buildWeek(meetings: MeetingTime[], date?: string): WeeklyTimetable {
+    const { weekStart, weekEnd } = weekOf(
+      date ?? new Date().toISOString().slice(0, 10),
+    );
+    const days: WeeklyTimetable['days'] = Array.from(
+      { length: 7 },
+      (_, index) => {
+        const day = addDays(weekStart, index);
+        return { date: day, dayOfWeek: isoDayOfWeek(day), sessions: [] };
+      },
+    );
+    const sessionsByDate = new Map<string, TimetableSession[]>(
+      days.map(({ date: day, sessions }) => [day, sessions]),
+    );
+
+    for (const meeting of meetings) {
+      const pattern = this.toPattern(meeting);
+      for (const day of listMeetingDates({
+        ...pattern,
+        lastDate: pattern.lastDate < weekEnd ? pattern.lastDate : weekEnd,
+      })) {
+        sessionsByDate.get(day)?.push({
+          meetingTimeId: meeting.id,
+          startTime: meeting.startTime,
+          endTime: meeting.endTime,
+          offeringId: meeting.offeringId,
+          section: meeting.offering.section,
+          course: {
+            id: meeting.offering.course.id,
+            title: meeting.offering.course.title,
+          },
+          room: meeting.room && {
+            id: meeting.room.id,
+            name: meeting.room.name,
+            building: meeting.room.building,
+          },
+        });
+      }
+    }
+    for (const { sessions } of days) {
+      sessions.sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+    }
+    return { weekStart, weekEnd, days };
+  }
+
+  // Helper method to load the meeting times of the offerings matching the filter
+  private findMeetings(
+    offering: FindOptionsWhere<CourseOffering>,
+  ): Promise<MeetingTime[]> {
+    return this.meetingRepository.find({
+      where: { offering },
+      relations: MEETING_RELATIONS,
+    });
+  }
+
+  // The week (Monday to Sunday) of the classes a student is enrolled in
+  async getStudentTimetable(
+    studentId: number,
+    date?: string,
+  ): Promise<WeeklyTimetable> {
+    if (!(await this.studentRepository.existsBy({ id: studentId }))) {
+      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    }
+    const meetings = await this.findMeetings({
+      enrollments: { studentId, status: EnrollmentStatus.ENROLLED },
+    });
+    return this.buildWeek(meetings, date);
+  }
+
+  // The week (Monday to Sunday) of the classes a lecturer teaches
+  async getLecturerTimetable(
+    lecturerId: number,
+    date?: string,
+  ): Promise<WeeklyTimetable> {
+    if (!(await this.lecturerRepository.existsBy({ id: lecturerId }))) {
+      throw new NotFoundException(`Lecturer with ID ${lecturerId} not found`);
+    }
+    const meetings = await this.findMeetings({
+      lecturers: { id: lecturerId },
+    });
+    return this.buildWeek(meetings, date);
+  }
+}
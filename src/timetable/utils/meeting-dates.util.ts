@@ -0,0 +1,70 @@
+// A meeting time with its date range resolved from the offering and term
+export type MeetingPattern = {
+  dayOfWeek: number; // 1 = Monday ... 7 = Sunday
+  startTime: string; // "HH:MM" or "HH:MM:SS"
+  endTime: string;
+  weekInterval: number;
+  firstDate: string; // "YYYY-MM-DD"
+  lastDate: string;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Minutes since midnight of a "HH:MM[:SS]" time
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// ISO day of the week of a date (1 = Monday ... 7 = Sunday)
+export function isoDayOfWeek(date: string): number {
+  return parseDate(date).getUTCDay() || 7;
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(new Date(parseDate(date).getTime() + days * DAY));
+}
+
+// The Monday and Sunday of the week a date falls in
+export function weekOf(date: string): { weekStart: string; weekEnd: string } {
+  const weekStart = addDays(date, 1 - isoDayOfWeek(date));
+  return { weekStart, weekEnd: addDays(weekStart, 6) };
+}
+
+// Every date the pattern meets on, counting the week interval from the first matching day
+export function listMeetingDates(pattern: MeetingPattern): string[] {
+  const dates: string[] = [];
+  const offset = (pattern.dayOfWeek - isoDayOfWeek(pattern.firstDate) + 7) % 7;
+  for (
+    let date = addDays(pattern.firstDate, offset);
+    date <= pattern.lastDate;
+    date = addDays(date, 7 * pattern.weekInterval)
+  ) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// The first date two patterns meet at overlapping times, or null when they never do
+export function findClashDate(
+  a: MeetingPattern,
+  b: MeetingPattern,
+): string | null {
+  if (
+    a.dayOfWeek !== b.dayOfWeek ||
+    toMinutes(a.startTime) >= toMinutes(b.endTime) ||
+    toMinutes(b.startTime) >= toMinutes(a.endTime)
+  ) {
+    return null;
+  }
+  const datesOfA = new Set(listMeetingDates(a));
+  return listMeetingDates(b).find((date) => datesOfA.has(date)) ?? null;
+}
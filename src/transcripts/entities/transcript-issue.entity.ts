@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Relation,
+} from 'typeorm';
+import { Student } from '../../students/entities/student.entity';
+import { Profile } from '../../profiles/entities/profile.entity';
+import { Transcript } from '../transcripts.service';
+
+// A transcript issued as PDF, kept so the verification code printed on it can be checked
+@Entity()
+export class TranscriptIssue {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column()
+  code: string; // verification code printed on the PDF
+
+  @Column({ type: 'simple-json' })
+  content: Transcript; // the transcript exactly as it was issued
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  issuedAt: Date;
+
+  @Column()
+  studentId: number;
+
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentId' })
+  student: Relation<Student>;
+
+  @Column({ type: 'int', nullable: true })
+  issuedById: number | null;
+
+  @ManyToOne(() => Profile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'issuedById' })
+  issuedBy: Relation<Profile>;
+}
@@ -0,0 +1,20 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { TranscriptsService } from './transcripts.service';
+import { Public } from 'src/auth/decorators';
+import { NoCache } from 'src/http-cache.interceptor';
+
+@ApiTags('transcripts')
+@Controller('transcripts')
+export class TranscriptsController {
+  constructor(private readonly transcriptsService: TranscriptsService) {}
+
+  // http://localhost:8000/transcripts/verify/7K3M-Q9XD-2PLA-8WTR
+  // Public so employers and other institutions can check a transcript they were handed
+  @Public()
+  @NoCache()
+  @Get('verify/:code')
+  verify(@Param('code') code: string) {
+    return this.transcriptsService.verify(code);
+  }
+}
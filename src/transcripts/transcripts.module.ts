@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { TranscriptIssue } from './entities/transcript-issue.entity';
+import { TranscriptsService } from './transcripts.service';
+import { TranscriptsController } from './transcripts.controller';
+import { Student } from 'src/students/entities/student.entity';
+import { Enrollment } from 'src/enrollments/entities/enrollment.entity';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([TranscriptIssue, Student, Enrollment]),
+  ],
+  controllers: [TranscriptsController],
+  providers: [TranscriptsService],
+  exports: [TranscriptsService], // used by the students/:id/transcript endpoints
+})
+export class TranscriptsModule {}
@@ -0,0 +1,204 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { TranscriptIssue } from './entities/transcript-issue.entity';
+import { renderTranscriptPdf } from './utils/transcript-pdf.util';
+import { Student } from 'src/students/entities/student.entity';
+import {
+  Enrollment,
+  EnrollmentStatus,
+} from 'src/enrollments/entities/enrollment.entity';
+import { computeGpa } from 'src/grades/utils/gpa.util';
+
+export type TranscriptCourse = {
+  courseId: number;
+  title: string;
+  section: string;
+  credits: number;
+  startDate: string;
+  endDate: string;
+  status: EnrollmentStatus; // enrolled = in progress
+  grade: string | null; // "W" for withdrawals
+  points: number | null;
+};
+
+export type Transcript = {
+  student: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+    degreeProgram: string | null;
+    enrollmentDate: string;
+  };
+  terms: {
+    term: { id: number; name: string; startDate: string; endDate: string };
+    courses: TranscriptCourse[];
+    credits: number; // credits earned in the term
+    gpa: number | null;
+  }[];
+  totalCredits: number; // credits earned: completed courses with a final passing grade
+  gpa: number | null; // Student.gpa
+  generatedAt: string;
+};
+
+export type TranscriptVerification = {
+  valid: true;
+  code: string;
+  issuedAt: Date;
+  transcript: Transcript;
+};
+
+// Enrollments that appear on a transcript (drops are erased from the record)
+const TRANSCRIPT_STATUSES = [
+  EnrollmentStatus.ENROLLED,
+  EnrollmentStatus.COMPLETED,
+  EnrollmentStatus.WITHDRAWN,
+];
+
+/*
+- Purpose: Builds student transcripts and issues verifiable PDF copies
+- How it works: The transcript is assembled from the student's enrollments (grouped by term, oldest first) with their
+  finalized grades. Each PDF gets a random verification code stored with a snapshot of the issued transcript in
+  transcript_issue; the public /transcripts/verify/:code endpoint returns that snapshot, so a copy whose content
+  differs from it (or carries an unknown code) is a forgery.
+*/
+@Injectable()
+export class TranscriptsService {
+  constructor(
+    @InjectRepository(TranscriptIssue)
+    private transcriptIssueRepository: Repository<TranscriptIssue>,
+    @InjectRepository(Student) private studentRepository: Repository<Student>,
+    @InjectRepository(Enrollment)
+    private enrollmentRepository: Repository<Enrollment>,
+    private configService: ConfigService,
+  ) {}
+
+  // Helper method to generate a verification code, e.g. 7K3M-Q9XD-2PLA-8WTR
+  private generateCode(): string {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I, the code is typed in by hand
+    const bytes = randomBytes(16);
+    const characters = [...bytes].map((byte) => alphabet[byte % 32]).join('');
+    return (characters.match(/.{4}/g) ?? []).join('-');
+  }
+
+  async getTranscript(studentId: number): Promise<Transcript> {
+    const student = await this.studentRepository.findOne({
+      where: { id: studentId },
+      relations: ['profile'],
+    });
+    if (!student) {
+      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    }
+
+    const enrollments = await this.enrollmentRepository.find({
+      where: { studentId, status: In(TRANSCRIPT_STATUSES) },
+      relations: ['offering', 'offering.course', 'offering.term', 'grade'],
+      order: { offering: { term: { startDate: 'ASC' } } },
+    });
+
+    const terms = new Map<number, Transcript['terms'][number]>();
+    for (const { offering, status, grade } of enrollments) {
+      const term = terms.get(offering.termId) ?? {
+        term: {
+          id: offering.term.id,
+          name: offering.term.name,
+          startDate: offering.term.startDate,
+          endDate: offering.term.endDate,
+        },
+        courses: [],
+        credits: 0,
+        gpa: null,
+      };
+      const isFinal = Boolean(grade?.finalizedAt);
+      term.courses.push({
+        courseId: offering.course.id,
+        title: offering.course.title,
+        section: offering.section,
+        credits: offering.course.credits,
+        startDate: offering.startDate ?? offering.term.startDate,
+        endDate: offering.endDate ?? offering.term.endDate,
+        status,
+        grade:
+          status === EnrollmentStatus.WITHDRAWN
+            ? 'W'
+            : isFinal
+              ? grade.letter
+              : null,
+        points: isFinal ? Number(grade.points) : null,
+      });
+      terms.set(offering.termId, term);
+    }
+
+    const termList = [...terms.values()].map((term) => {
+      const graded = term.courses.flatMap(({ status, points, credits }) =>
+        status === EnrollmentStatus.COMPLETED && points !== null
+          ? [{ points, credits }]
+          : [],
+      );
+      return {
+        ...term,
+        credits: graded
+          .filter((course) => course.points > 0)
+          .reduce((sum, course) => sum + course.credits, 0),
+        gpa: computeGpa(graded),
+      };
+    });
+
+    return {
+      student: {
+        id: student.id,
+        firstName: student.profile.firstName,
+        lastName: student.profile.lastName,
+        email: student.profile.email,
+        degreeProgram: student.degreeProgram ?? null,
+        enrollmentDate: student.enrollmentDate,
+      },
+      terms: termList,
+      totalCredits: termList.reduce((sum, term) => sum + term.credits, 0),
+      gpa: student.gpa === null ? null : Number(student.gpa),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Render the transcript as PDF and record it under a new verification code
+  async issuePdf(
+    studentId: number,
+    issuedById: number,
+  ): Promise<{ code: string; pdf: Buffer }> {
+    const transcript = await this.getTranscript(studentId);
+    const code = this.generateCode();
+    await this.transcriptIssueRepository.save({
+      code,
+      content: transcript,
+      studentId,
+      issuedById,
+    });
+
+    // OAUTH_ISSUER is the public base URL of this API
+    const verificationUrl = `${this.configService.get<string>('OAUTH_ISSUER', 'http://localhost:8000')}/api/v1/transcripts/verify/${code}`;
+    const pdf = await renderTranscriptPdf(transcript, {
+      code,
+      url: verificationUrl,
+    });
+    return { code, pdf };
+  }
+
+  // Check a verification code and return the transcript it was issued with
+  async verify(code: string): Promise<TranscriptVerification> {
+    const issue = await this.transcriptIssueRepository.findOneBy({
+      code: code.trim().toUpperCase(),
+    });
+    if (!issue) {
+      throw new NotFoundException('Unknown transcript verification code');
+    }
+    return {
+      valid: true,
+      code: issue.code,
+      issuedAt: issue.issuedAt,
+      transcript: issue.content,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import * as PDFDocument from 'pdfkit';
+import { Transcript } from '../transcripts.service';
+import { EnrollmentStatus } from '../../enrollments/entities/enrollment.entity';
+
+// Helper to format a GPA for print
+function formatGpa(gpa: number | null): string {
+  return gpa === null ? '-' : gpa.toFixed(2);
+}
+
+// Renders a transcript as an A4 PDF with its verification code in the footer
+export function renderTranscriptPdf(
+  transcript: Transcript,
+  verification: { code: string; url: string },
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      bufferPages: true, // the footer is written on every page at the end
+      info: {
+        Title: `Transcript - ${transcript.student.firstName} ${transcript.student.lastName}`,
+      },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { student } = transcript;
+    const columns = { course: 50, credits: 330, dates: 380, grade: 500 };
+
+    doc.font('Helvetica-Bold').fontSize(18).text('Official Transcript', {
+      align: 'center',
+    });
+    doc.moveDown();
+    doc.font('Helvetica').fontSize(10);
+    doc.text(`Student: ${student.firstName} ${student.lastName}`);
+    doc.text(`Student ID: ${student.id}`);
+    doc.text(`Email: ${student.email}`);
+    doc.text(`Degree program: ${student.degreeProgram ?? '-'}`);
+    doc.text(`Enrolled since: ${student.enrollmentDate}`);
+    doc.moveDown();
+
+    for (const { term, courses, credits, gpa } of transcript.terms) {
+      if (doc.y > doc.page.height - 150) {
+        doc.addPage();
+      }
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(12)
+        .text(`${term.name} (${term.startDate} - ${term.endDate})`, 50);
+      doc.moveDown(0.3);
+
+      doc.font('Helvetica-Bold').fontSize(9);
+      const headerY = doc.y;
+      doc.text('Course', columns.course, headerY);
+      doc.text('Credits', columns.credits, headerY);
+      doc.text('Dates', columns.dates, headerY);
+      doc.text('Grade', columns.grade, headerY);
+      doc.moveDown(0.3);
+
+      doc.font('Helvetica').fontSize(9);
+      for (const course of courses) {
+        if (doc.y > doc.page.height - 100) {
+          doc.addPage();
+        }
+        const rowY = doc.y;
+        doc.text(`${course.title} (${course.section})`, columns.course, rowY, {
+          width: columns.credits - columns.course - 10,
+        });
+        const nextY = doc.y;
+        doc.text(String(course.credits), columns.credits, rowY);
+        doc.text(
+          `${course.startDate} - ${course.endDate}`,
+          columns.dates,
+          rowY,
+        );
+        doc.text(
+          course.grade ??
+            (course.status === EnrollmentStatus.ENROLLED ? 'IP' : '-'),
+          columns.grade,
+          rowY,
+        );
+        doc.y = Math.max(nextY, doc.y);
+      }
+      doc.moveDown(0.3);
+      doc
+        .font('Helvetica-Oblique')
+        .text(`Term credits: ${credits}    Term GPA: ${formatGpa(gpa)}`, 50);
+      doc.moveDown();
+    }
+
+    doc.font('Helvetica-Bold').fontSize(11);
+    doc.text(`Total credits earned: ${transcript.totalCredits}`, 50);
+    doc.text(`Cumulative GPA: ${formatGpa(transcript.gpa)}`, 50);
+    doc.font('Helvetica').fontSize(8);
+    doc.moveDown();
+    doc.text('IP = in progress, W = withdrawn', 50);
+
+    // verification footer on every page
+    const range = doc.bufferedPageRange();
+    for (let page = range.start; page < range.start + range.count; page++) {
+      doc.switchToPage(page);
+      const bottom = doc.page.height - doc.page.margins.bottom;
+      doc.page.margins.bottom = 0; // writing below the margin must not add a page
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .text(
+          `Verification code: ${verification.code} - verify at ${verification.url}    Issued ${transcript.generatedAt}    Page ${page - range.start + 1} of ${range.count}`,
+          50,
+          bottom + 10,
+          { width: doc.page.width - 100, align: 'center' },
+        );
+    }
+    doc.end();
+  });
+}